@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { handleAdmin } from './admin';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+const ENV = { ADMIN_TOKEN: 'secret' } as Env;
+
+/** Node has no `crypto.subtle.timingSafeEqual`; the Workers runtime does */
+function stubTimingSafeEqual() {
+    vi.stubGlobal('crypto', {
+        subtle: { timingSafeEqual: (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((byte, i) => byte === b[i]) },
+    });
+}
+
+function request(path: string, token = 'secret'): [Request, URL] {
+    const url = new URL(`https://example.com${path}`);
+    return [new Request(url, { headers: { Authorization: `Bearer ${token}` } }), url];
+}
+
+describe('handleAdmin', () => {
+    it('rejects a wrong token', async () => {
+        stubTimingSafeEqual();
+        expect((await handleAdmin(...request('/admin/tokens', 'guess'), ENV)).status).toBe(401);
+    });
+
+    it('answers malformed percent-encoding with 400', async () => {
+        stubTimingSafeEqual();
+        const resp = await handleAdmin(...request('/admin/tokens/%E0/wBTC'), ENV);
+        expect(resp.status).toBe(400);
+        expect(await resp.json()).toEqual({ error: 'Malformed percent-encoding in path' });
+    });
+});
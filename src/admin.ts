@@ -0,0 +1,84 @@
+import { handleAlerts } from './alerts';
+import { loadRegistry, saveRegistry, TokenEntrySchema } from './registry';
+import type { TokenEntry } from './types';
+import { json, readBody } from './utils';
+
+// === Auth ===
+/** Constant-time check of `Authorization: Bearer <ADMIN_TOKEN>` */
+export function isAuthorized(request: Request, env: Env): boolean {
+    const header = request.headers.get('Authorization') || '';
+    const match = /^Bearer (.+)$/.exec(header);
+    if (!env.ADMIN_TOKEN || !match) return false;
+    const encoder = new TextEncoder();
+    const given = encoder.encode(match[1]);
+    const expected = encoder.encode(env.ADMIN_TOKEN);
+    return given.byteLength === expected.byteLength && crypto.subtle.timingSafeEqual(given, expected);
+}
+
+// === Handler ===
+function findEntry(registry: TokenEntry[], chain: string, symbol: string): number {
+    return registry.findIndex((entry) => entry.chain === chain && entry.symbol === symbol);
+}
+
+/**
+ * Token registry admin routes, all behind ADMIN_TOKEN:
+ * - `GET /admin/tokens` – current registry
+ * - `POST /admin/tokens` – add an entry
+ * - `PUT /admin/tokens/{chain}/{symbol}` – update fields of an entry
+ * - `POST /admin/tokens/{chain}/{symbol}/deprecate` – mark an entry deprecated
+ * - `/admin/alerts…` – webhook subscriptions, see src/alerts.ts
+ */
+export async function handleAdmin(request: Request, url: URL, env: Env): Promise<Response> {
+    if (!env.ADMIN_TOKEN) return json({ error: 'Admin API is disabled (ADMIN_TOKEN not set)' }, 503);
+    if (!isAuthorized(request, env)) return json({ error: 'Unauthorized' }, 401, { 'WWW-Authenticate': 'Bearer' });
+
+    let parts: string[]; // ['admin', 'tokens', chain?, symbol?, action?]
+    try {
+        parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    } catch {
+        return json({ error: 'Malformed percent-encoding in path' }, 400);
+    }
+    if (parts[1] === 'alerts' && parts.length <= 4) return handleAlerts(request, parts, env);
+    if (parts[1] !== 'tokens' || parts.length > 5) return json({ error: 'Not found' }, 404);
+
+    const registry = await loadRegistry(env);
+    if (request.method === 'GET' && parts.length === 2) return json({ tokens: registry });
+
+    if (!env.TOKEN_REGISTRY) return json({ error: 'TOKEN_REGISTRY binding not configured' }, 503);
+
+    if (request.method === 'POST' && parts.length === 2) {
+        const parsed = TokenEntrySchema.safeParse(await readBody(request));
+        if (!parsed.success) return json({ error: 'Invalid token entry', issues: parsed.error.issues }, 400);
+        if (findEntry(registry, parsed.data.chain, parsed.data.symbol) !== -1) {
+            return json({ error: `Token ${parsed.data.chain}:${parsed.data.symbol} already exists` }, 409);
+        }
+        await saveRegistry(env.TOKEN_REGISTRY, [...registry, parsed.data]);
+        return json({ token: parsed.data }, 201);
+    }
+
+    const [, , chain, symbol, action] = parts;
+    const idx = chain && symbol ? findEntry(registry, chain, symbol) : -1;
+    if (idx === -1) return json({ error: `Token ${chain}:${symbol} not found` }, 404);
+
+    let updated: TokenEntry;
+    if (request.method === 'PUT' && !action) {
+        const body = await readBody(request);
+        if (typeof body !== 'object' || body === null) return json({ error: 'Expected a JSON object' }, 400);
+        const parsed = TokenEntrySchema.safeParse({ ...registry[idx], ...body });
+        if (!parsed.success) return json({ error: 'Invalid token entry', issues: parsed.error.issues }, 400);
+        updated = parsed.data;
+    } else if (request.method === 'POST' && action === 'deprecate') {
+        updated = { ...registry[idx], status: 'deprecated' };
+    } else {
+        return json({ error: 'Method not allowed' }, 405);
+    }
+
+    const next = registry.map((entry, i) => (i === idx ? updated : entry));
+    if (updated.chain !== chain || updated.symbol !== symbol) {
+        if (findEntry(registry, updated.chain, updated.symbol) !== -1) {
+            return json({ error: `Token ${updated.chain}:${updated.symbol} already exists` }, 409);
+        }
+    }
+    await saveRegistry(env.TOKEN_REGISTRY, next);
+    return json({ token: updated });
+}
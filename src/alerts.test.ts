@@ -0,0 +1,123 @@
+import { createHmac } from 'node:crypto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { deliver, diffSnapshots, dispatchAlerts, loadSubscriptions, matchingChanges, type Subscription, type SupplyChange } from './alerts';
+import type { Snapshot } from './history';
+
+function snapshot(timestamp: number, chains: Snapshot['chains']): Snapshot {
+    return { timestamp, chains, currentlyMintedBTC: '19,800,000' };
+}
+
+const SUBSCRIPTION: Subscription = {
+    id: 'abc123',
+    url: 'https://hooks.example/wbtc',
+    format: 'json',
+    secret: 'a-secret-of-sixteen-chars',
+    target: 'token',
+    createdAt: '2025-05-01T00:00:00.000Z',
+};
+
+function kv(value: unknown): KVNamespace {
+    return { get: async () => value } as unknown as KVNamespace;
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('diffSnapshots', () => {
+    it('reports token and total changes, skipping failed, partial and missing readings', () => {
+        const before = snapshot(0, {
+            ethereum: { total: '100.00000000', supplies: { wBTC: '90', cbBTC: '10' } },
+            base: { total: '5.00000000', supplies: { cbBTC: '5' } },
+            solana: { total: '3.00000000', supplies: { cbBTC: '3' } },
+        });
+        const after = snapshot(1, {
+            ethereum: { total: '101.00000000', supplies: { wBTC: '90', cbBTC: '11' } },
+            base: { total: '0.00000000', supplies: {}, error: true },
+            solana: { total: '2.00000000', supplies: { cbBTC: '2', zBTC: '1' }, partial: true },
+        });
+        expect(diffSnapshots(before, after)).toEqual([
+            { chain: 'ethereum', symbol: 'TOTAL', previous: '100.00000000', current: '101.00000000', delta: 1, percent: 1 },
+            { chain: 'ethereum', symbol: 'cbBTC', previous: '10', current: '11', delta: 1, percent: 10 },
+            { chain: 'solana', symbol: 'cbBTC', previous: '3', current: '2', delta: -1, percent: -33.3333 },
+        ]);
+    });
+
+    it('works out changes in sats, exact where floats drift', () => {
+        const before = snapshot(0, { ethereum: { total: '99999999.99999999', supplies: { wBTC: '0.3' } } });
+        const after = snapshot(1, { ethereum: { total: '100000000.09999999', supplies: { wBTC: '0.4' } } });
+        const [total, wbtc] = diffSnapshots(before, after);
+        expect(total).toMatchObject({ delta: 0.1, percent: 0 });
+        expect(wbtc).toMatchObject({ delta: 0.1, percent: 33.3333 });
+        expect(matchingChanges({ ...SUBSCRIPTION, target: 'total', absolute: 0.1 }, [total])).toHaveLength(1);
+    });
+});
+
+describe('matchingChanges', () => {
+    const changes: SupplyChange[] = [
+        { chain: 'ethereum', symbol: 'TOTAL', previous: '100', current: '101', delta: 1, percent: 1 },
+        { chain: 'ethereum', symbol: 'cbBTC', previous: '10', current: '11', delta: 1, percent: 10 },
+        { chain: 'solana', symbol: 'cbBTC', previous: '3', current: '2', delta: -1, percent: -33.3333 },
+        { chain: 'base', symbol: 'tBTC', previous: '0', current: '0.5', delta: 0.5, percent: null },
+    ];
+    const symbols = (subscription: Partial<Subscription>) => matchingChanges({ ...SUBSCRIPTION, ...subscription }, changes).map((c) => `${c.chain}:${c.symbol}`);
+
+    it('fires at or beyond either threshold, in either direction', () => {
+        expect(symbols({ absolute: 1 })).toEqual(['ethereum:cbBTC', 'solana:cbBTC']);
+        expect(symbols({ absolute: 0.5 })).toEqual(['ethereum:cbBTC', 'solana:cbBTC', 'base:tBTC']);
+        expect(symbols({ percent: 20 })).toEqual(['solana:cbBTC']); // no percentage from a zero reading
+        expect(symbols({ absolute: 5, percent: 10 })).toEqual(['ethereum:cbBTC', 'solana:cbBTC']);
+        expect(symbols({ absolute: 5 })).toEqual([]);
+    });
+
+    it('filters by chain, symbol and target', () => {
+        expect(symbols({ absolute: 0.1, chain: 'solana' })).toEqual(['solana:cbBTC']);
+        expect(symbols({ absolute: 0.1, symbol: 'CBBTC' })).toEqual(['ethereum:cbBTC', 'solana:cbBTC']);
+        expect(symbols({ absolute: 0.1, target: 'total' })).toEqual(['ethereum:TOTAL']);
+    });
+});
+
+describe('deliver', () => {
+    it('signs the timestamp and body with the subscription secret', async () => {
+        const requests: Array<{ url: string; headers: Record<string, string>; body: string }> = [];
+        vi.stubGlobal('fetch', async (url: string, init: RequestInit) => {
+            requests.push({ url, headers: init.headers as Record<string, string>, body: String(init.body) });
+            return new Response(null, { status: 204 });
+        });
+        const change = { chain: 'ethereum', symbol: 'wBTC', previous: '1', current: '2', delta: 1, percent: 100 };
+        await deliver(SUBSCRIPTION, [change], 1_746_057_600_000);
+
+        const [{ url, headers, body }] = requests;
+        expect(url).toBe(SUBSCRIPTION.url);
+        expect(JSON.parse(body)).toEqual({ event: 'supply.change', timestamp: '2025-05-01T00:00:00.000Z', changes: [change] });
+        expect(headers['X-Webhook-Timestamp']).toBe('1746057600000');
+        const expected = createHmac('sha256', SUBSCRIPTION.secret).update(`1746057600000.${body}`).digest('hex');
+        expect(headers['X-Signature-256']).toBe(`sha256=${expected}`);
+    });
+});
+
+describe('loadSubscriptions', () => {
+    it('skips stored subscriptions that are not complete', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const { secret, ...unsigned } = SUBSCRIPTION;
+        const stored = [SUBSCRIPTION, { ...unsigned, id: 'nosecret' }, { ...SUBSCRIPTION, id: 'badformat', format: 'teams' }];
+        expect((await loadSubscriptions(kv(stored))).map((s) => s.id)).toEqual(['abc123']);
+        expect(await loadSubscriptions(kv({ not: 'a list' }))).toEqual([]);
+    });
+
+    it('never hands a subscription without a secret to delivery', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const delivered: string[] = [];
+        vi.stubGlobal('fetch', async (_url: string, init: RequestInit) => {
+            delivered.push((init.headers as Record<string, string>)['X-Webhook-Id']);
+            return new Response(null, { status: 204 });
+        });
+        const { secret, ...unsigned } = SUBSCRIPTION;
+        const env = { ALERT_SUBSCRIPTIONS: kv([{ ...unsigned, id: 'nosecret', absolute: 1 }, { ...SUBSCRIPTION, absolute: 1 }]) } as unknown as Env;
+        const before = snapshot(0, { ethereum: { total: '1.00000000', supplies: { wBTC: '1' } } });
+        const after = snapshot(1, { ethereum: { total: '3.00000000', supplies: { wBTC: '3' } } });
+        await dispatchAlerts(env, before, after);
+        expect(delivered).toEqual(['abc123']);
+    });
+});
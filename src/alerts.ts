@@ -0,0 +1,280 @@
+import { z } from 'zod';
+import { CHAIN_NAMES } from './chains';
+import { CONFIG } from './config';
+import type { ChainSnapshot, Snapshot } from './history';
+import { typedSchema } from './registry';
+import { BTC_DECIMALS, errorReason, formatSats, json, parseUnits, readBody, withRetry } from './utils';
+
+// === Types ===
+/** Webhook body format: generic JSON, or a Slack / Discord incoming-webhook message */
+export type WebhookFormat = 'json' | 'slack' | 'discord';
+
+/** A webhook and the supply changes it wants to hear about */
+export interface Subscription {
+    id: string;
+    url: string;
+    format: WebhookFormat;
+    secret: string; // HMAC-SHA256 key for the X-Signature-256 header
+    chain?: string; // Only this chain; omit for all
+    symbol?: string; // Only this token; omit for all
+    target: 'token' | 'total'; // Watch token supplies or chain totals
+    absolute?: number; // Fire when |change| >= this many BTC
+    percent?: number; // Fire when |change| >= this percentage of the previous reading
+    createdAt: string;
+}
+
+/** Supply change between two consecutive snapshots */
+export interface SupplyChange {
+    chain: string;
+    symbol: string; // 'TOTAL' for chain totals
+    previous: string;
+    current: string;
+    delta: number; // BTC
+    percent: number | null; // null when the previous reading was zero
+}
+
+// === Schema ===
+const SUBSCRIPTIONS_KEY = 'subscriptions';
+
+/** Fields a subscriber chooses, shared by the request body and stored subscriptions */
+const SubscriptionFields = z.object({
+    url: z.string().url().refine((url) => url.startsWith('https://') || url.startsWith('http://'), 'Expected an http(s) URL'),
+    format: z.enum(['json', 'slack', 'discord']).default('json'),
+    chain: z
+        .string()
+        .refine((chain) => CHAIN_NAMES.includes(chain), `Expected one of: ${CHAIN_NAMES.join(', ')}`)
+        .optional(),
+    symbol: z.string().min(1).max(32).optional(),
+    target: z.enum(['token', 'total']).default('token'),
+    absolute: z.number().positive().optional(),
+    percent: z.number().positive().optional(),
+});
+
+/** Request body for creating a subscription; at least one threshold is required */
+const SubscriptionInputSchema = typedSchema<Omit<Subscription, 'id' | 'createdAt' | 'secret'> & { secret?: string }>(
+    SubscriptionFields.extend({ secret: z.string().min(16).max(128).optional() })
+        .strict()
+        .refine((input) => input.absolute !== undefined || input.percent !== undefined, 'Set absolute and/or percent')
+        .refine((input) => !(input.target === 'total' && input.symbol), 'symbol does not apply to chain totals')
+);
+
+/** A stored subscription, checked in full on load so one missing a `secret` or `url` is never delivered to */
+const SubscriptionSchema = typedSchema<Subscription>(
+    SubscriptionFields.extend({ id: z.string().min(1), secret: z.string().min(1), createdAt: z.string() })
+);
+
+// === Storage ===
+/** Stored subscriptions; invalid entries are skipped with a warning (and dropped by the next save) */
+export async function loadSubscriptions(kv?: KVNamespace): Promise<Subscription[]> {
+    if (!kv) return [];
+    const stored = await kv.get<unknown>(SUBSCRIPTIONS_KEY, 'json');
+    if (!Array.isArray(stored)) return [];
+    return stored.flatMap((entry) => {
+        const parsed = SubscriptionSchema.safeParse(entry);
+        if (parsed.success) return [parsed.data];
+        console.warn(`Skipping invalid alert subscription ${entry?.id ?? ''}:`, parsed.error.issues);
+        return [];
+    });
+}
+
+async function saveSubscriptions(kv: KVNamespace, subscriptions: Subscription[]): Promise<void> {
+    await kv.put(SUBSCRIPTIONS_KEY, JSON.stringify(subscriptions));
+}
+
+function randomHex(bytes: number): string {
+    return [...crypto.getRandomValues(new Uint8Array(bytes))].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Subscription as listed by the API: the secret is only returned on creation */
+function redact({ secret, ...subscription }: Subscription): Omit<Subscription, 'secret'> {
+    return subscription;
+}
+
+// === Changes ===
+/** A chain reading worth comparing: live, and not a zero standing in for a failed read */
+function comparable(chain: ChainSnapshot | undefined): boolean {
+    return !!chain && !chain.error;
+}
+
+/** `numerator / denominator`, rounded half away from zero */
+function divRound(numerator: bigint, denominator: bigint): bigint {
+    const sign = numerator < 0n ? -1n : 1n;
+    return (sign * (2n * sign * numerator + denominator)) / (2n * denominator);
+}
+
+/** The change is worked out in sats and only converted to numbers at the end, so float noise cannot cross a threshold */
+function change(chain: string, symbol: string, previous: string, current: string): SupplyChange {
+    const before = parseUnits(previous, BTC_DECIMALS);
+    const delta = parseUnits(current, BTC_DECIMALS) - before;
+    return {
+        chain,
+        symbol,
+        previous,
+        current,
+        delta: Number(formatSats(delta)),
+        percent: before ? Number(divRound(delta * 1_000_000n, before)) / 10_000 : null, // 4 decimal places
+    };
+}
+
+/** Every token and chain-total change between two snapshots; failed or missing readings are skipped */
+export function diffSnapshots(previous: Snapshot, current: Snapshot): SupplyChange[] {
+    const changes: SupplyChange[] = [];
+    for (const [name, chain] of Object.entries(current.chains)) {
+        const before = previous.chains[name];
+        if (!comparable(before) || !comparable(chain)) continue;
+        if (!before.partial && !chain.partial && before.total !== chain.total) {
+            changes.push(change(name, 'TOTAL', before.total, chain.total));
+        }
+        // Snapshots only keep tokens that were read live
+        for (const [symbol, supply] of Object.entries(chain.supplies)) {
+            const prior = before.supplies[symbol];
+            if (prior === undefined || prior === supply) continue;
+            changes.push(change(name, symbol, prior, supply));
+        }
+    }
+    return changes;
+}
+
+/** Changes that cross a subscription's thresholds */
+export function matchingChanges(subscription: Subscription, changes: SupplyChange[]): SupplyChange[] {
+    return changes.filter((c) => {
+        if (subscription.chain && c.chain !== subscription.chain) return false;
+        if ((subscription.target === 'total') !== (c.symbol === 'TOTAL')) return false;
+        if (subscription.symbol && c.symbol.toLowerCase() !== subscription.symbol.toLowerCase()) return false;
+        const absolute = subscription.absolute !== undefined && Math.abs(c.delta) >= subscription.absolute;
+        const percent = subscription.percent !== undefined && c.percent !== null && Math.abs(c.percent) >= subscription.percent;
+        return absolute || percent;
+    });
+}
+
+// === Delivery ===
+function describe(c: SupplyChange): string {
+    const sign = c.delta >= 0 ? '+' : '';
+    const pct = c.percent !== null ? ` (${sign}${c.percent}%)` : '';
+    const what = c.symbol === 'TOTAL' ? `${c.chain} total` : `${c.symbol} on ${c.chain}`;
+    return `${what}: ${c.previous} → ${c.current} BTC, ${sign}${c.delta} BTC${pct}`;
+}
+
+/** Webhook body in the subscription's format */
+export function formatWebhook(format: WebhookFormat, changes: SupplyChange[], timestamp: number): unknown {
+    const lines = changes.map(describe);
+    switch (format) {
+        case 'slack':
+            return { text: `Wrapped BTC supply change\n${lines.map((line) => `• ${line}`).join('\n')}` };
+        case 'discord':
+            return { content: `**Wrapped BTC supply change**\n${lines.map((line) => `- ${line}`).join('\n')}`.slice(0, 2000) };
+        default:
+            return { event: 'supply.change', timestamp: new Date(timestamp).toISOString(), changes };
+    }
+}
+
+/** Hex HMAC-SHA256 of `body` */
+async function sign(secret: string, body: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const mac = await crypto.subtle.sign('HMAC', key, encoder.encode(body));
+    return [...new Uint8Array(mac)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * POST a signed webhook, retrying with exponential backoff. The signature covers `${timestamp}.${body}`
+ * and is sent as `X-Signature-256: sha256=<hex>` next to `X-Webhook-Timestamp` (ms since epoch).
+ */
+export async function deliver(subscription: Subscription, changes: SupplyChange[], timestamp: number = Date.now()): Promise<void> {
+    const body = JSON.stringify(formatWebhook(subscription.format, changes, timestamp));
+    const signature = await sign(subscription.secret, `${timestamp}.${body}`);
+    await withRetry(
+        async () => {
+            const controller = new AbortController();
+            const timeout = setTimeout(() => controller.abort(), 5000);
+            try {
+                const resp = await fetch(subscription.url, {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'User-Agent': 'wrapped-btc-tracker',
+                        'X-Webhook-Id': subscription.id,
+                        'X-Webhook-Timestamp': String(timestamp),
+                        'X-Signature-256': `sha256=${signature}`,
+                    },
+                    body,
+                    signal: controller.signal,
+                });
+                if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+            } finally {
+                clearTimeout(timeout);
+            }
+        },
+        CONFIG.WEBHOOK_ATTEMPTS,
+        CONFIG.WEBHOOK_RETRY_DELAY
+    );
+}
+
+/** Compare a new snapshot with the previous one and notify every subscription whose thresholds were crossed */
+export async function dispatchAlerts(env: Env, previous: Snapshot | undefined, current: Snapshot): Promise<void> {
+    if (!previous) return;
+    const subscriptions = await loadSubscriptions(env.ALERT_SUBSCRIPTIONS);
+    if (!subscriptions.length) return;
+
+    const changes = diffSnapshots(previous, current);
+    await Promise.all(
+        subscriptions.map(async (subscription) => {
+            const matched = matchingChanges(subscription, changes);
+            if (!matched.length) return;
+            try {
+                await deliver(subscription, matched, current.timestamp);
+            } catch (err) {
+                console.error(`Webhook ${subscription.id} failed after ${CONFIG.WEBHOOK_ATTEMPTS} attempts:`, err);
+            }
+        })
+    );
+}
+
+// === Handler ===
+/**
+ * Subscription routes, mounted under the admin API (ADMIN_TOKEN is checked by the caller):
+ * - `GET /admin/alerts` – list subscriptions
+ * - `POST /admin/alerts` – subscribe; the response holds the signing secret
+ * - `DELETE /admin/alerts/{id}` – unsubscribe
+ * - `POST /admin/alerts/{id}/test` – send a sample notification
+ */
+export async function handleAlerts(request: Request, parts: string[], env: Env): Promise<Response> {
+    const kv = env.ALERT_SUBSCRIPTIONS;
+    if (!kv) return json({ error: 'ALERT_SUBSCRIPTIONS binding not configured' }, 503);
+    const subscriptions = await loadSubscriptions(kv);
+    const [, , id, action] = parts; // ['admin', 'alerts', id?, action?]
+
+    if (!id) {
+        if (request.method === 'GET') return json({ subscriptions: subscriptions.map(redact) });
+        if (request.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+        const parsed = SubscriptionInputSchema.safeParse(await readBody(request));
+        if (!parsed.success) return json({ error: 'Invalid subscription', issues: parsed.error.issues }, 400);
+        const subscription: Subscription = {
+            ...parsed.data,
+            id: randomHex(8),
+            secret: parsed.data.secret || randomHex(32),
+            createdAt: new Date().toISOString(),
+        };
+        await saveSubscriptions(kv, [...subscriptions, subscription]);
+        return json({ subscription }, 201);
+    }
+
+    const subscription = subscriptions.find((s) => s.id === id);
+    if (!subscription) return json({ error: `Subscription ${id} not found` }, 404);
+
+    if (request.method === 'DELETE' && !action) {
+        await saveSubscriptions(kv, subscriptions.filter((s) => s.id !== id));
+        return json({ deleted: id });
+    }
+    if (request.method === 'POST' && action === 'test') {
+        const sample: SupplyChange = change(subscription.chain || 'ethereum', subscription.symbol || 'TOTAL', '100', '101');
+        try {
+            await deliver(subscription, [sample]);
+            return json({ delivered: true });
+        } catch (err) {
+            return json({ delivered: false, error: errorReason(err) }, 502);
+        }
+    }
+    return json({ error: 'Method not allowed' }, 405);
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { assetUrl, handleAsset } from './assets';
+
+describe('handleAsset', () => {
+    it('serves known assets with their version as the ETag', () => {
+        const resp = handleAsset('dashboard.js');
+        expect(resp.status).toBe(200);
+        expect(resp.headers.get('Content-Type')).toBe('text/javascript; charset=utf-8');
+        expect(assetUrl('dashboard.js')).toBe(`/assets/dashboard.js?v=${resp.headers.get('ETag').slice(1, -1)}`);
+    });
+
+    it('does not resolve prototype members as assets', () => {
+        for (const name of ['constructor', '__proto__', 'toString', 'hasOwnProperty', 'missing.js']) {
+            expect(handleAsset(name)).toBeNull();
+        }
+    });
+});
@@ -0,0 +1,535 @@
+// === Dashboard Assets ===
+// Served by the worker under /assets so the dashboard needs no third-party CDN
+
+const DASHBOARD_CSS = `
+*, *::before, *::after { box-sizing: border-box; }
+body {
+  margin: 0;
+  padding: 1.5rem 1rem;
+  background: #f3f4f6;
+  color: #111827;
+  font: 14px/1.5 system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif;
+}
+a { color: #2563eb; text-decoration: none; }
+a:hover { text-decoration: underline; }
+h1 { margin: 0; font-size: 1.25rem; }
+h2 { margin: 0 0 0.5rem; font-size: 1.05rem; color: #374151; }
+.page { max-width: 60rem; margin: 0 auto; display: grid; gap: 1rem; }
+.card { background: #fff; border-radius: 0.5rem; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1); padding: 1.25rem; }
+.header { display: flex; justify-content: space-between; align-items: center; }
+.btn {
+  border: 0; border-radius: 0.25rem; padding: 0.25rem 0.75rem;
+  background: #2563eb; color: #fff; font: inherit; font-weight: 600; cursor: pointer;
+}
+.btn:hover { background: #1d4ed8; }
+.btn-quiet { background: #e5e7eb; color: #374151; }
+.btn-quiet:hover, .btn-quiet.active { background: #2563eb; color: #fff; }
+.stats { display: grid; grid-template-columns: repeat(auto-fit, minmax(10rem, 1fr)); gap: 1rem; }
+.stat-label { font-size: 0.75rem; color: #6b7280; text-transform: uppercase; letter-spacing: 0.03em; }
+.stat-value { font-size: 1.35rem; font-weight: 700; }
+.gauge { display: flex; flex-direction: column; align-items: center; }
+.gauge svg { width: 10rem; height: 5.5rem; }
+.gauge-track { fill: none; stroke: #e5e7eb; stroke-width: 12; }
+.gauge-fill { fill: none; stroke: #f59e0b; stroke-width: 12; }
+.gauge-text { font-size: 18px; font-weight: 700; fill: #111827; text-anchor: middle; }
+.bar { display: block; width: 100%; height: 1.5rem; border-radius: 0.25rem; background: #e5e7eb; }
+.bar-thin { height: 0.75rem; }
+.bar-row { margin-bottom: 0.75rem; }
+.bar-label { display: flex; justify-content: space-between; font-size: 0.85rem; color: #4b5563; margin-bottom: 0.25rem; }
+.legend { display: flex; flex-wrap: wrap; gap: 0.25rem 0.75rem; font-size: 0.75rem; color: #4b5563; margin-top: 0.25rem; }
+.legend i { display: inline-block; width: 0.65rem; height: 0.65rem; border-radius: 2px; margin-right: 0.25rem; vertical-align: middle; }
+.seg-eth, .seg-0 { background: #60a5fa; fill: #60a5fa; }
+.seg-sol, .seg-1 { background: #34d399; fill: #34d399; }
+.seg-2 { background: #f59e0b; fill: #f59e0b; }
+.seg-3 { background: #a78bfa; fill: #a78bfa; }
+.seg-4 { background: #f87171; fill: #f87171; }
+.seg-5 { background: #2dd4bf; fill: #2dd4bf; }
+.seg-6 { background: #f472b6; fill: #f472b6; }
+.seg-7 { background: #94a3b8; fill: #94a3b8; }
+.split { display: flex; justify-content: space-between; gap: 1rem; }
+.table-wrap { overflow-x: auto; }
+table { width: 100%; border-collapse: collapse; font-size: 0.85rem; }
+th, td { padding: 0.4rem 0.5rem; border-bottom: 1px solid #e5e7eb; text-align: left; white-space: nowrap; }
+th { font-size: 0.75rem; color: #6b7280; text-transform: uppercase; letter-spacing: 0.03em; }
+td.num, th.num { text-align: right; font-variant-numeric: tabular-nums; }
+tr.deprecated td { color: #9ca3af; }
+ul.plain { list-style: none; margin: 0; padding: 0; }
+ul.plain li { display: flex; justify-content: space-between; padding: 0.15rem 0; color: #4b5563; }
+.field { margin-bottom: 1rem; }
+.field label { display: block; font-weight: 500; color: #4b5563; }
+.field input, .field select {
+  width: 100%; margin-top: 0.25rem; padding: 0.5rem;
+  border: 1px solid #d1d5db; border-radius: 0.375rem; font: inherit;
+}
+.field input:focus, .field select:focus { outline: 2px solid #3b82f6; border-color: #3b82f6; }
+.chart-controls { display: flex; flex-wrap: wrap; align-items: center; gap: 0.5rem; margin-bottom: 0.5rem; }
+.chart-controls select { padding: 0.25rem; border: 1px solid #d1d5db; border-radius: 0.25rem; font: inherit; }
+.chart svg { width: 100%; height: auto; display: block; }
+.chart .grid { stroke: #e5e7eb; }
+.chart .axis { font-size: 10px; fill: #6b7280; }
+.badge { display: inline-block; margin-right: 0.5rem; padding: 0.1rem 0.5rem; border-radius: 999px; font-size: 0.75rem; background: #e5e7eb; color: #4b5563; }
+.badge-live { background: #dcfce7; color: #166534; }
+.badge-stale { background: #fef9c3; color: #854d0e; }
+.badge-offline { background: #fee2e2; color: #991b1b; }
+.muted { color: #6b7280; }
+.note { font-size: 0.75rem; color: #6b7280; margin: 0.25rem 0 0; }
+.bold { font-weight: 700; }
+.ok { color: #16a34a; }
+.warn { color: #ca8a04; }
+.err { color: #dc2626; }
+`;
+
+const DASHBOARD_JS = `
+(function () {
+  'use strict';
+  var SVG = 'http://www.w3.org/2000/svg';
+  var COLORS = ['#60a5fa', '#34d399', '#f59e0b', '#a78bfa', '#f87171', '#2dd4bf', '#f472b6', '#94a3b8'];
+  var RANGES = { '7d': [7, '6h'], '30d': [30, '1d'], '90d': [90, '1d'], '1y': [365, '1w'] };
+  var stateNode = document.getElementById('dashboard-state');
+  var state = stateNode ? JSON.parse(stateNode.textContent) : { chains: [], rates: {} };
+
+  function svg(name, attrs, parent) {
+    var node = document.createElementNS(SVG, name);
+    Object.keys(attrs).forEach(function (key) { node.setAttribute(key, attrs[key]); });
+    if (parent) parent.appendChild(node);
+    return node;
+  }
+
+  function formatBtc(value) {
+    return value.toLocaleString('en-US', { maximumFractionDigits: value < 10 ? 4 : value < 1000 ? 2 : 0 });
+  }
+
+  /** Round a decimal amount string to digits places (half up) without going through a float */
+  function formatAmount(text, digits) {
+    var match = /^(\\d*)(?:\\.(\\d*))?$/.exec(String(text || '').replace(/,/g, '').trim()) || ['', '0', ''];
+    var frac = (match[2] || '').padEnd(digits + 1, '0');
+    var units = (BigInt((match[1] || '0') + frac.slice(0, digits)) + (frac.charAt(digits) >= '5' ? BigInt(1) : BigInt(0))).toString().padStart(digits + 1, '0');
+    var whole = BigInt(units.slice(0, units.length - digits)).toLocaleString('en-US');
+    var rest = units.slice(units.length - digits).replace(/0+$/, '');
+    return rest ? whole + '.' + rest : whole;
+  }
+
+  /** Line chart of each series' bucket close */
+  function draw(chart, body, chains, log) {
+    var plot = chart.querySelector('svg');
+    var legend = chart.querySelector('.legend');
+    var status = chart.querySelector('.note');
+    plot.textContent = '';
+    legend.textContent = '';
+    var series = body.series
+      .map(function (s) {
+        return {
+          chain: s.chain,
+          symbol: s.symbol,
+          points: s.points
+            .map(function (p) { return { t: Date.parse(p.timestamp), v: parseFloat(p.close) || 0 }; })
+            .filter(function (p) { return !log || p.v > 0; }),
+        };
+      })
+      .filter(function (s) { return s.points.length; });
+    status.textContent = series.length ? '' : 'No history for this range yet.';
+    if (!series.length) return;
+
+    var W = 600, H = 240, L = 56, R = 10, T = 10, B = 24;
+    var all = [].concat.apply([], series.map(function (s) { return s.points; }));
+    var tMin = Math.min.apply(null, all.map(function (p) { return p.t; }));
+    var tMax = Math.max.apply(null, all.map(function (p) { return p.t; }));
+    var scale = log ? function (v) { return Math.log10(v); } : function (v) { return v; };
+    var vMin = Math.min.apply(null, all.map(function (p) { return scale(p.v); }));
+    var vMax = Math.max.apply(null, all.map(function (p) { return scale(p.v); }));
+    if (vMax === vMin) { vMax += 1; vMin -= 1; }
+    var x = function (t) { return L + ((t - tMin) / (tMax - tMin || 1)) * (W - L - R); };
+    var y = function (v) { return T + (1 - (scale(v) - vMin) / (vMax - vMin)) * (H - T - B); };
+
+    for (var i = 0; i <= 4; i++) {
+      var level = vMin + ((vMax - vMin) * i) / 4;
+      var value = log ? Math.pow(10, level) : level;
+      var py = y(value);
+      svg('line', { x1: L, x2: W - R, y1: py, y2: py, class: 'grid' }, plot);
+      svg('text', { x: L - 4, y: py + 3, 'text-anchor': 'end', class: 'axis' }, plot).textContent = formatBtc(value);
+    }
+    [tMin, (tMin + tMax) / 2, tMax].forEach(function (t, i) {
+      var anchor = ['start', 'middle', 'end'][i];
+      svg('text', { x: x(t), y: H - 6, 'text-anchor': anchor, class: 'axis' }, plot).textContent = new Date(t).toISOString().slice(0, 10);
+    });
+
+    series.forEach(function (s) {
+      var index = chains.indexOf(s.chain);
+      var color = COLORS[(index < 0 ? chains.length : index) % COLORS.length];
+      var d = s.points.map(function (p, i) { return (i ? 'L' : 'M') + x(p.t).toFixed(1) + ' ' + y(p.v).toFixed(1); }).join(' ');
+      svg('path', { d: d, fill: 'none', stroke: color, 'stroke-width': 2 }, plot);
+      s.points.forEach(function (p) {
+        var dot = svg('circle', { cx: x(p.t), cy: y(p.v), r: 2.5, fill: color }, plot);
+        svg('title', {}, dot).textContent = s.chain + ' ' + s.symbol + ': ' + formatBtc(p.v) + ' BTC (' + new Date(p.t).toISOString().slice(0, 16).replace('T', ' ') + ')';
+      });
+      var item = document.createElement('span');
+      var swatch = document.createElement('i');
+      swatch.style.background = color;
+      item.appendChild(swatch);
+      item.appendChild(document.createTextNode(s.chain + (s.symbol === 'TOTAL' ? '' : ' ' + s.symbol)));
+      legend.appendChild(item);
+    });
+  }
+
+  function initChart(chart) {
+    var chains = state.chains;
+    var symbol = chart.querySelector('select');
+    var logScale = chart.querySelector('input[type=checkbox]');
+    var buttons = chart.querySelectorAll('[data-range]');
+    var range = '30d';
+
+    function load() {
+      var spec = RANGES[range];
+      var params = new URLSearchParams({ from: new Date(Date.now() - spec[0] * 86400000).toISOString(), interval: spec[1] });
+      if (symbol.value) params.set('symbol', symbol.value);
+      buttons.forEach(function (b) { b.classList.toggle('active', b.getAttribute('data-range') === range); });
+      chart.querySelector('.note').textContent = 'Loading…';
+      fetch(chart.getAttribute('data-src') + '?' + params, { headers: { Accept: 'application/json' } })
+        .then(function (res) { if (!res.ok) throw new Error('HTTP ' + res.status); return res.json(); })
+        .then(function (body) { draw(chart, body, chains, logScale.checked); })
+        .catch(function (err) { chart.querySelector('.note').textContent = 'History unavailable (' + err.message + ').'; });
+    }
+
+    buttons.forEach(function (b) {
+      b.addEventListener('click', function () { range = b.getAttribute('data-range'); load(); });
+    });
+    symbol.addEventListener('change', load);
+    logScale.addEventListener('change', load);
+    load();
+  }
+
+  document.querySelectorAll('.chart[data-src]').forEach(initChart);
+
+  // === Holder concentration ===
+  function percent(share) {
+    return (share * 100).toFixed(share < 0.1 ? 2 : 1) + '%';
+  }
+
+  /** One row per token with its largest holder, labeled from the address book when known */
+  function initHolders(panel) {
+    var body = panel.querySelector('tbody');
+    var status = panel.querySelector('.note');
+    var legend = status.textContent;
+    status.textContent = 'Loading…';
+    fetch(panel.getAttribute('data-src'), { headers: { Accept: 'application/json' } })
+      .then(function (res) { if (!res.ok) throw new Error('HTTP ' + res.status); return res.json(); })
+      .then(function (summary) {
+        summary.tokens.forEach(function (token) {
+          var largest = token.top[0];
+          var row = document.createElement('tr');
+          [
+            token.chain,
+            token.symbol,
+            percent(token.top10Share),
+            (token.complete ? '' : '≥ ') + Math.round(token.hhi).toLocaleString('en-US'),
+            largest ? (largest.label || largest.address.slice(0, 6) + '…' + largest.address.slice(-4)) + ' (' + percent(largest.share) + ')' : '—',
+          ].forEach(function (text, i) {
+            var cell = document.createElement('td');
+            cell.textContent = text;
+            if (i === 2 || i === 3) cell.className = 'num';
+            if (i === 4 && largest) cell.title = largest.address + (largest.category ? ' · ' + largest.category : '');
+            row.appendChild(cell);
+          });
+          body.appendChild(row);
+        });
+        status.textContent = summary.tokens.length ? legend : 'No holders indexed yet.';
+      })
+      .catch(function (err) { status.textContent = 'Holder data unavailable (' + err.message + ').'; });
+  }
+
+  document.querySelectorAll('.holders[data-src]').forEach(initHolders);
+
+  // === Catch-up calculator ===
+  var calculator = document.getElementById('calculator');
+
+  /** Calculator inputs by the /api/projection parameter they fill; the page URL carries them for sharing */
+  var SCENARIO_FIELDS = {
+    mintRate: 'mint-rate',
+    ethRate: 'eth-rate',
+    stakedSol: 'staked-sol',
+    apy: 'apy',
+    commission: 'commission',
+    compounding: 'compounding',
+    reinvest: 'reinvest',
+    priceScenario: 'price-scenario',
+    priceChange: 'price-change',
+    days: 'horizon',
+  };
+  var pending = null;
+
+  function paragraph(parent, text, className) {
+    var p = document.createElement('p');
+    if (className) p.className = className;
+    p.textContent = text;
+    parent.appendChild(p);
+  }
+
+  function fmt(value, digits) {
+    return value.toLocaleString('en-US', { maximumFractionDigits: digits });
+  }
+
+  /** Store the scenario in the page URL (keeping read parameters such as at) so it can be shared */
+  function scenarioParams() {
+    var params = new URLSearchParams(window.location.search);
+    Object.keys(SCENARIO_FIELDS).forEach(function (name) {
+      var value = document.getElementById(SCENARIO_FIELDS[name]).value;
+      if (value === '') params.delete(name);
+      else params.set(name, value);
+    });
+    window.history.replaceState(null, '', '?' + params + '#calculator');
+    return params;
+  }
+
+  function showProjection(body) {
+    var p = body.params;
+    var last = body.curve[body.curve.length - 1];
+    var resultDiv = document.getElementById('result');
+    resultDiv.textContent = '';
+    if (body.parityDay === 0) paragraph(resultDiv, 'Solana has already caught up or surpassed Ethereum!', 'ok');
+    else if (body.parityDay === null) paragraph(resultDiv, 'Solana does not reach Ethereum within ' + fmt(p.days, 0) + ' days.', 'err');
+    else paragraph(resultDiv, 'Solana matches Ethereum in ' + fmt(body.parityDay, 0) + ' days (' + body.parityDate + ').', 'bold');
+    if (last) {
+      paragraph(resultDiv, 'After ' + fmt(p.days, 0) + ' days: Ethereum ' + fmt(last.ethereum, 2) + ' BTC, Solana ' + fmt(last.solana, 2) +
+        ' BTC, of which ' + fmt(last.stakingBtc, 4) + ' BTC bought with staking rewards; ' + fmt(last.stakedSol, 0) + ' SOL staked.');
+    }
+    if (body.breakEvenStake !== null) {
+      paragraph(resultDiv, 'Staking alone closes the daily gap of ' + fmt(p.ethRate - p.mintRate, 4) + ' BTC with ' + fmt(body.breakEvenStake, 0) + ' SOL staked.');
+    }
+    paragraph(resultDiv, 'Assumes ' + p.apy + '% APY, ' + p.commission + '% commission, ' +
+      (p.compounding === 'none' ? 'simple interest' : p.reinvest + '% restaked per ' + (p.compounding === 'daily' ? 'day' : 'epoch')) +
+      ', SOL/BTC from ' + fmt(p.solBtcPrice, 6) + ' changing ' + p.priceChange + '% a year.', 'note');
+
+    draw(document.getElementById('projection-chart'), {
+      series: ['ethereum', 'solana'].map(function (chain) {
+        return { chain: chain, symbol: 'TOTAL', points: body.curve.map(function (point) { return { timestamp: point.date, close: point[chain] }; }) };
+      }),
+    }, state.chains, false);
+  }
+
+  /** Fetch the projection for the current inputs; typing is debounced so each pause makes one request */
+  function calculateDays() {
+    clearTimeout(pending);
+    pending = setTimeout(function () {
+      var params = scenarioParams();
+      document.getElementById('price-change').disabled = document.getElementById('price-scenario').value !== 'custom';
+      fetch('/api/projection?' + params, { headers: { Accept: 'application/json' } })
+        .then(function (res) {
+          return res.json().then(function (body) {
+            if (!res.ok) throw new Error(body.error || (body.errors && body.errors[0] && body.errors[0].message) || 'HTTP ' + res.status);
+            return body;
+          });
+        })
+        .then(showProjection)
+        .catch(function (err) {
+          var resultDiv = document.getElementById('result');
+          resultDiv.textContent = '';
+          paragraph(resultDiv, 'Projection unavailable: ' + err.message, 'err');
+        });
+    }, 300);
+  }
+
+  /** Fill both rate inputs from the observed rates for a window, keyed like '30d' */
+  function applyRates(span) {
+    var rates = state.rates;
+    var sol = rates.solana && rates.solana[span];
+    var eth = rates.ethereum && rates.ethereum[span];
+    if (sol !== null && sol !== undefined) document.getElementById('mint-rate').value = sol;
+    if (eth !== null && eth !== undefined) document.getElementById('eth-rate').value = eth;
+  }
+
+  if (calculator) {
+    var shared = new URLSearchParams(window.location.search);
+    Object.keys(SCENARIO_FIELDS).forEach(function (name) {
+      if (shared.has(name)) document.getElementById(SCENARIO_FIELDS[name]).value = shared.get(name);
+    });
+    document.getElementById('rate-window').addEventListener('change', function (event) {
+      applyRates(event.target.value);
+      calculateDays();
+    });
+    Object.keys(SCENARIO_FIELDS).forEach(function (name) {
+      var input = document.getElementById(SCENARIO_FIELDS[name]);
+      input.addEventListener(input.tagName === 'SELECT' ? 'change' : 'input', calculateDays);
+    });
+    document.getElementById('share-scenario').addEventListener('click', function (event) {
+      var button = event.target;
+      scenarioParams();
+      navigator.clipboard.writeText(window.location.href).then(
+        function () { button.textContent = 'Link copied'; },
+        function () { button.textContent = 'Copy the address bar to share'; }
+      );
+    });
+    calculateDays();
+  }
+
+  // === Live updates ===
+  var indicator = document.getElementById('live-status');
+
+  function setText(id, text) {
+    var node = document.getElementById(id);
+    if (node) node.textContent = text;
+  }
+
+  function setLive(mode, title) {
+    if (!indicator) return;
+    indicator.textContent = { live: 'Live', stale: 'Stale', offline: 'Reconnecting…' }[mode];
+    indicator.className = 'badge badge-' + mode;
+    indicator.title = title || '';
+  }
+
+  function fiat(value, currency) {
+    return value === null || value === undefined ? 'n/a' : value.toLocaleString('en-US', { style: 'currency', currency: currency, maximumFractionDigits: 0 });
+  }
+
+  function projectionText(catchUp) {
+    if (!catchUp || catchUp.status === 'insufficient-data') return 'Not enough history yet for observed rates; enter your own.';
+    if (catchUp.status === 'caught-up') return 'Solana has caught up with Ethereum.';
+    if (catchUp.status === 'diverging') return 'At observed rates the gap is widening.';
+    var days = catchUp.daysToParity;
+    var text = 'At observed rates Solana matches Ethereum in about ' + days.expected.toLocaleString('en-US') + ' days';
+    return days.low !== days.high ? text + ' (range ' + days.low.toLocaleString('en-US') + '–' + days.high.toLocaleString('en-US') + ' days across windows).' : text + '.';
+  }
+
+  /** Update totals, race bars, gauge and calculator from a new payload; the user's own rate inputs are kept */
+  function applyPayload(payload) {
+    var eth = parseFloat(payload.ethereumTotal) || 0;
+    var sol = parseFloat(payload.solanaTotal) || 0;
+    var ethPercent = eth + sol > 0 ? ((eth / (eth + sol)) * 100).toFixed(1) : '50';
+    var solPercent = eth + sol > 0 ? ((sol / (eth + sol)) * 100).toFixed(1) : '50';
+    var chains = payload.chains || {};
+    document.getElementById('eth-bar').setAttribute('width', ethPercent);
+    document.getElementById('sol-bar').setAttribute('x', ethPercent);
+    document.getElementById('sol-bar').setAttribute('width', solPercent);
+    setText('eth-label', 'Ethereum: ' + formatAmount(payload.ethereumTotal, 2) + ' BTC (' + ethPercent + '%)' + (chains.ethereum && chains.ethereum.partial ? ' (partial)' : ''));
+    setText('sol-label', 'Solana: ' + formatAmount(payload.solanaTotal, 2) + ' BTC (' + solPercent + '%)' + (chains.solana && chains.solana.partial ? ' (partial)' : ''));
+    setText('last-updated', payload.lastUpdated);
+
+    var notice = document.getElementById('data-notice');
+    notice.textContent = '';
+    if (payload.dataStatus === 'partial' || payload.dataStatus === 'degraded') {
+      var p = document.createElement('p');
+      p.className = 'note ' + (payload.dataStatus === 'partial' ? 'err' : 'warn');
+      p.textContent = payload.dataStatus === 'partial'
+        ? 'Some supplies failed to load; partial totals leave them out.'
+        : 'Some figures come from a fallback source or an earlier reading.';
+      notice.appendChild(p);
+    }
+
+    var mintedBtc = String(payload.bitcoinSupply ? payload.bitcoinSupply.btc : payload.currentlyMintedBTC).replace(/,/g, '');
+    var minted = parseFloat(mintedBtc) || 0;
+    var netUnique = parseFloat(payload.netUniqueBTC) || 0;
+    setText('grand-total', formatAmount(payload.grandTotal, 2));
+    setText('net-unique', formatAmount(payload.netUniqueBTC, 2));
+    var value = payload.grandTotalValue;
+    setText('grand-total-value', value ? '≈ ' + fiat(value.usd, 'USD') + ' · ' + fiat(value.eur, 'EUR') : '');
+    var depegNode = document.getElementById('depeg-notice');
+    if (depegNode) {
+      depegNode.textContent = '';
+      var depegs = payload.depegs || [];
+      if (depegs.length) {
+        var warning = document.createElement('p');
+        warning.className = 'note err';
+        warning.textContent = 'Trading off their BTC peg: ' + depegs.map(function (d) {
+          return d.symbol + ' on ' + ((chains[d.chain] && chains[d.chain].label) || d.chain) + ' (' + (d.deviation * 100).toFixed(2) + '%)';
+        }).join(', ') + '.';
+        depegNode.appendChild(warning);
+      }
+    }
+    setText('minted', minted ? formatAmount(mintedBtc, 0) : 'n/a');
+    setText('minted-status', payload.currentlyMintedBTCStatus.state === 'ok' ? 'Live' : 'Source ' + payload.currentlyMintedBTCStatus.state);
+    var fill = document.getElementById('gauge-fill');
+    if (fill) {
+      var arc = Math.PI * 60;
+      var percent = minted > 0 ? (netUnique / minted) * 100 : null;
+      fill.setAttribute('stroke-dasharray', (percent === null ? 0 : (Math.min(Math.max(percent, 0), 100) / 100) * arc).toFixed(2) + ' ' + arc.toFixed(2));
+      setText('gauge-text', percent === null ? 'n/a' : percent.toFixed(2) + '%');
+    }
+
+    var catchUp = payload.catchUp;
+    state.rates = { solana: (catchUp && catchUp.rates.solana) || {}, ethereum: (catchUp && catchUp.rates.ethereum) || {} };
+    if (calculator) {
+      setText('projection', projectionText(catchUp));
+      calculateDays();
+    }
+  }
+
+  var stream = null;
+  var lastMessage = 0;
+  var expectEvery = 30000; // ms; replaced by the server's poll interval
+  var backoff = 1000;
+
+  function connect() {
+    if (stream) stream.close();
+    stream = new EventSource('/stream' + window.location.search);
+    stream.addEventListener('open', function () { backoff = 1000; });
+    stream.addEventListener('payload', function (event) {
+      lastMessage = Date.now();
+      applyPayload(JSON.parse(event.data));
+    });
+    stream.addEventListener('status', function (event) {
+      var status = JSON.parse(event.data);
+      lastMessage = Date.now();
+      expectEvery = status.interval * 1000;
+      var fresh = status.cache !== 'STALE' && status.dataStatus === 'ok';
+      setLive(fresh ? 'live' : 'stale', 'Cache ' + status.cache + ', data ' + status.dataStatus + ', ' + status.age + 's old');
+    });
+    stream.addEventListener('error', function () {
+      setLive('offline');
+      // EventSource retries on its own unless the server refused the stream outright
+      if (stream.readyState === EventSource.CLOSED) {
+        setTimeout(connect, backoff);
+        backoff = Math.min(backoff * 2, 60000);
+      }
+    });
+  }
+
+  if (indicator && window.EventSource) {
+    connect();
+    // A stream that stops talking without an error is stale too
+    setInterval(function () {
+      if (lastMessage && Date.now() - lastMessage > expectEvery * 2 + 5000) setLive('stale', 'No update from the server');
+    }, 5000);
+  }
+
+  var refresh = document.getElementById('refresh-btn');
+  if (refresh) {
+    refresh.addEventListener('click', function () {
+      if (window.EventSource) connect();
+      else window.location.reload();
+    });
+  }
+})();
+`;
+
+/** 32-bit FNV-1a hash as hex, used to version asset URLs */
+function fingerprint(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/** Served assets by name; a Map, so names such as `constructor` do not resolve to prototype members */
+const ASSETS = new Map<string, { type: string; body: string; version: string }>([
+    ['dashboard.css', { type: 'text/css; charset=utf-8', body: DASHBOARD_CSS, version: fingerprint(DASHBOARD_CSS) }],
+    ['dashboard.js', { type: 'text/javascript; charset=utf-8', body: DASHBOARD_JS, version: fingerprint(DASHBOARD_JS) }],
+]);
+
+/** Versioned URL for an asset, so it can be cached as immutable */
+export function assetUrl(name: string): string {
+    return `/assets/${name}?v=${ASSETS.get(name).version}`;
+}
+
+/** Serve `/assets/{name}`; null for an unknown asset */
+export function handleAsset(name: string): Response | null {
+    const asset = ASSETS.get(name);
+    if (!asset) return null;
+    return new Response(asset.body, {
+        headers: {
+            'Content-Type': asset.type,
+            'Cache-Control': 'public, max-age=31536000, immutable',
+            ETag: `"${asset.version}"`,
+        },
+    });
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { fetchBitcoinSupply, scheduleSupply, type SupplySource } from './bitcoin';
+
+const BTC = 100_000_000n;
+const SUPPLY = 19_800_000n * BTC;
+
+function source(name: string, sats: bigint | null, kind: SupplySource['kind'] = 'reported'): SupplySource {
+    return {
+        name,
+        kind,
+        async getSupply() {
+            if (sats === null) throw new Error('HTTP 500');
+            return sats;
+        },
+    };
+}
+
+describe('fetchBitcoinSupply', () => {
+    it('publishes the median of three reported readings', async () => {
+        const { supply, status } = await fetchBitcoinSupply([source('a', SUPPLY - 5000n * BTC), source('b', SUPPLY), source('c', SUPPLY + 3n)]);
+        expect(supply.sats).toBe(SUPPLY.toString());
+        expect(supply.source).toBe('b');
+        expect(supply.readings.map((r) => r.agrees)).toEqual([false, true, true]);
+        expect(status.state).toBe('ok');
+    });
+
+    it('is ok when two reported readings agree', async () => {
+        const { supply, status } = await fetchBitcoinSupply([source('a', SUPPLY), source('b', SUPPLY + 3n * BTC)]);
+        expect(supply.sats).toBe(SUPPLY.toString());
+        expect(status.state).toBe('ok');
+    });
+
+    it('settles two disagreeing readings by the schedule instead of taking the low outlier', async () => {
+        const { supply, status } = await fetchBitcoinSupply([
+            source('low', SUPPLY - 50_000n * BTC),
+            source('good', SUPPLY),
+            source('schedule', SUPPLY + 10n * BTC, 'schedule'),
+        ]);
+        expect(supply.source).toBe('good');
+        expect(supply.sats).toBe(SUPPLY.toString());
+        expect(status.state).toBe('ok');
+    });
+
+    it('marks two disagreeing readings without a schedule as fallback', async () => {
+        const { supply, status } = await fetchBitcoinSupply([
+            source('low', SUPPLY - 50_000n * BTC),
+            source('good', SUPPLY),
+            source('schedule', null, 'schedule'),
+        ]);
+        expect(supply.source).toBe('low');
+        expect(status.state).toBe('fallback');
+        expect(status.reason).toMatch(/No other source within 100 BTC of low/);
+    });
+
+    it('marks a single uncorroborated reading as fallback', async () => {
+        const { status } = await fetchBitcoinSupply([source('a', SUPPLY), source('b', null), source('schedule', SUPPLY + 500n * BTC, 'schedule')]);
+        expect(status.state).toBe('fallback');
+        const corroborated = await fetchBitcoinSupply([source('a', SUPPLY), source('b', null), source('schedule', SUPPLY + BTC, 'schedule')]);
+        expect(corroborated.status.state).toBe('ok');
+    });
+
+    it('falls back to the schedule, then to an error', async () => {
+        const schedule = await fetchBitcoinSupply([source('a', null), source('schedule', scheduleSupply(839_999), 'schedule')]);
+        expect(schedule.status.state).toBe('fallback');
+        expect(schedule.supply.btc).toBe('19687500'); // every block before the fourth halving
+        const none = await fetchBitcoinSupply([source('a', null)]);
+        expect(none.status.state).toBe('error');
+        expect(none.value).toBe('0');
+    });
+
+    it('formats the headline from the exact satoshis', async () => {
+        const { value, supply } = await fetchBitcoinSupply([source('a', SUPPLY + BTC / 2n), source('b', SUPPLY + BTC / 2n)]);
+        expect(supply.btc).toBe('19800000.5');
+        expect(value).toBe('19,800,001');
+    });
+});
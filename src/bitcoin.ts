@@ -0,0 +1,162 @@
+import { CONFIG } from './config';
+import { timed } from './metrics';
+import type { BitcoinSupply, SourceStatus } from './types';
+import { errorReason, formatBtc, formatUnits, sourceStatus, withRetry } from './utils';
+
+// === Sources ===
+/** Pluggable source of the mined Bitcoin supply */
+export interface SupplySource {
+    name: string;
+    kind: 'reported' | 'schedule'; // 'schedule' sources derive the supply and only stand in when every reported one fails
+    getSupply(): Promise<bigint>; // satoshis
+}
+
+const MAX_SUPPLY_SATS = 21_000_000n * 100_000_000n;
+const HALVING_INTERVAL = 210_000;
+const INITIAL_SUBSIDY_SATS = 50n * 100_000_000n;
+
+/** GET a URL with the usual timeout and retries */
+async function fetchText(url: string): Promise<string> {
+    return withRetry(async () => {
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), 5000);
+        try {
+            const resp = await fetch(url, { signal: controller.signal });
+            if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+            return resp.text();
+        } finally {
+            clearTimeout(timeout);
+        }
+    });
+}
+
+/** Parse a non-negative integer amount of satoshis */
+function parseSats(value: unknown): bigint {
+    const text = String(value).trim();
+    if (!/^\d+$/.test(text)) throw new Error(`Invalid satoshi amount: ${text.slice(0, 32)}`);
+    return BigInt(text);
+}
+
+/** Blockchair stats: `data.circulation` in satoshis */
+export function blockchairSource(url: string = CONFIG.BTC_API): SupplySource {
+    return {
+        name: 'blockchair',
+        kind: 'reported',
+        async getSupply() {
+            const res = JSON.parse(await fetchText(url));
+            return parseSats(res.data?.circulation);
+        },
+    };
+}
+
+/** blockchain.info query API: plain-text total in satoshis */
+export function blockchainInfoSource(url: string = CONFIG.BTC_SUPPLY_BLOCKCHAIN_INFO): SupplySource {
+    return {
+        name: 'blockchain.info',
+        kind: 'reported',
+        getSupply: async () => parseSats(await fetchText(url)),
+    };
+}
+
+/**
+ * Subsidy issued in blocks 0 through `height` under the halving schedule. An upper bound on the real supply,
+ * which is a little lower where miners claimed less than the full subsidy.
+ */
+export function scheduleSupply(height: number): bigint {
+    let remaining = BigInt(height + 1);
+    let supply = 0n;
+    for (let subsidy = INITIAL_SUBSIDY_SATS; subsidy > 0n && remaining > 0n; subsidy >>= 1n) {
+        const blocks = remaining < BigInt(HALVING_INTERVAL) ? remaining : BigInt(HALVING_INTERVAL);
+        supply += blocks * subsidy;
+        remaining -= blocks;
+    }
+    return supply;
+}
+
+/** Supply from the Esplora tip height and the halving schedule; needs nothing but a block height */
+export function scheduleSource(esploraApi: string): SupplySource {
+    return {
+        name: `schedule@${new URL(esploraApi).host}`,
+        kind: 'schedule',
+        async getSupply() {
+            const height = Number(await fetchText(`${esploraApi.replace(/\/$/, '')}/blocks/tip/height`));
+            if (!Number.isSafeInteger(height) || height < 0) throw new Error('Invalid block height');
+            return scheduleSupply(height);
+        },
+    };
+}
+
+/** Default sources: two reported totals, with the schedule at the Esplora tip as the fallback */
+export function bitcoinSupplySources(esploraApi: string = CONFIG.BTC_ESPLORA_API): SupplySource[] {
+    return [blockchairSource(), blockchainInfoSource(), scheduleSource(esploraApi)];
+}
+
+// === Consensus ===
+/** Lower median, so the published value is always one source's actual reading */
+function median(values: bigint[]): bigint {
+    const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    return sorted[Math.floor((sorted.length - 1) / 2)];
+}
+
+function abs(value: bigint): bigint {
+    return value < 0n ? -value : value;
+}
+
+/**
+ * Read every source and publish the median of the reported ones. Readings further than BTC_SUPPLY_TOLERANCE
+ * from it are marked as disagreeing. A median of fewer than three readings is just the lowest, so one bad source
+ * could decide it: two reported readings that disagree are settled by the one closer to the schedule, and the
+ * status is `fallback` unless another reading (the schedule included) agrees with the published one. With no
+ * reported value the schedule stands in (`fallback`); with nothing at all the supply is zero with an `error` status.
+ */
+export async function fetchBitcoinSupply(
+    sources: SupplySource[] = bitcoinSupplySources()
+): Promise<{ value: string; status: SourceStatus; supply: BitcoinSupply }> {
+    const results: Array<{ source: SupplySource; sats: bigint | null; error?: string }> = await Promise.all(
+        sources.map(async (source) => {
+            try {
+                const sats = await timed(source.name, () => source.getSupply());
+                if (sats <= 0n || sats > MAX_SUPPLY_SATS) throw new Error('Bitcoin supply out of range');
+                return { source, sats };
+            } catch (err) {
+                console.error(`Failed to fetch Bitcoin supply from ${source.name}:`, err);
+                return { source, sats: null, error: errorReason(err) };
+            }
+        })
+    );
+
+    const tolerance = BigInt(CONFIG.BTC_SUPPLY_TOLERANCE) * 100_000_000n;
+    const read = results.filter((r) => r.sats !== null);
+    const reported = read.filter((r) => r.source.kind === 'reported');
+    const schedule = read.find((r) => r.source.kind === 'schedule');
+    const candidates = reported.length ? reported : read;
+    let consensus = candidates.length ? median(candidates.map((r) => r.sats)) : 0n;
+    if (reported.length === 2 && schedule && abs(reported[0].sats - reported[1].sats) > tolerance) {
+        const [a, b] = reported.map((r) => r.sats);
+        consensus = abs(a - schedule.sats) <= abs(b - schedule.sats) ? a : b;
+    }
+    const winner = candidates.find((r) => r.sats === consensus);
+    const agreeing = read.filter((r) => abs(r.sats - consensus) <= tolerance);
+
+    const supply: BitcoinSupply = {
+        sats: consensus.toString(),
+        btc: formatUnits(consensus, 8),
+        source: winner?.source.name ?? null,
+        readings: results.map((r) => ({
+            source: r.source.name,
+            sats: r.sats === null ? null : r.sats.toString(),
+            agrees: r.sats !== null && winner !== undefined && abs(r.sats - consensus) <= tolerance,
+            ...(r.error ? { error: r.error } : {}),
+        })),
+    };
+    const failures = results.filter((r) => r.error).map((r) => `${r.source.name}: ${r.error}`);
+
+    let status: SourceStatus;
+    if (!winner) status = sourceStatus('error', failures.join('; '));
+    else if (!reported.length) status = sourceStatus('fallback', `Computed from block height; ${failures.join('; ')}`);
+    else if (reported.length < 3 && agreeing.length < 2) {
+        status = sourceStatus('fallback', [`No other source within ${CONFIG.BTC_SUPPLY_TOLERANCE} BTC of ${winner.source.name}`, ...failures].join('; '));
+    } else status = sourceStatus('ok');
+
+    return { value: winner ? formatBtc(consensus) : '0', status, supply };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { deduplicate, type BridgedRepresentation } from './bridges';
+import type { ChainSupply, TokenSupply } from './types';
+import { calculateTotal, sourceStatus, tokenAmount } from './utils';
+
+const BTC = 100_000_000n;
+
+const PORTAL: BridgedRepresentation = {
+    chain: 'solana',
+    symbol: 'wBTC',
+    bridge: 'Wormhole Portal',
+    source: { chain: 'ethereum', symbol: 'wBTC', escrow: '0x3ee18B2214AFF97000D974cf647E7C347E8fa585' },
+};
+
+function chain(label: string, tokens: TokenSupply[]): ChainSupply {
+    return { label, tokens, total: calculateTotal(tokens) };
+}
+
+const wbtc = (btc: bigint): TokenSupply => ({ symbol: 'wBTC', ...tokenAmount(btc * BTC, 8), status: sourceStatus('ok') });
+
+describe('deduplicate', () => {
+    it('excludes bridged supply whose canonical token is counted', () => {
+        const chains = { ethereum: chain('Ethereum', [wbtc(100n)]), solana: chain('Solana', [wbtc(10n)]) };
+        const dedup = deduplicate(chains, [PORTAL]);
+        expect(dedup).toMatchObject({ rawTotal: '110.00000000', excludedTotal: '10.00000000', netUniqueBTC: '100.00000000' });
+        expect(dedup.excluded).toEqual([{ chain: 'solana', symbol: 'wBTC', supply: '10', bridge: 'Wormhole Portal', source: PORTAL.source }]);
+        expect(chains.solana.tokens[0].bridgedFrom).toEqual({ bridge: 'Wormhole Portal', ...PORTAL.source });
+    });
+
+    it('keeps bridged supply when its canonical token is untracked or failed to read', () => {
+        const solana = chain('Solana', [wbtc(10n)]);
+        expect(deduplicate({ solana }, [PORTAL])).toMatchObject({ netUniqueBTC: '10.00000000', excluded: [] });
+
+        const failed: TokenSupply = { symbol: 'wBTC', supply: '0', status: sourceStatus('error', 'HTTP 502') };
+        const dedup = deduplicate({ ethereum: chain('Ethereum', [failed]), solana }, [PORTAL]);
+        expect(dedup).toMatchObject({ rawTotal: '10.00000000', netUniqueBTC: '10.00000000', excluded: [] });
+        expect(solana.tokens[0].bridgedFrom).toBeDefined();
+    });
+});
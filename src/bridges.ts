@@ -0,0 +1,94 @@
+import type { ChainSupply, Deduplication, TokenSupply } from './types';
+import { BTC_DECIMALS, formatSats, parseUnits, sumSats } from './utils';
+
+// === Types ===
+/** A token that is a bridged representation of a canonical token on another chain */
+export interface BridgedRepresentation {
+    chain: string;
+    symbol: string;
+    bridge: string;
+    source: {
+        chain: string;
+        symbol: string;
+        escrow: string; // Lock/escrow contract holding the canonical tokens on the source chain
+    };
+}
+
+// === Bridges ===
+const WORMHOLE_TOKEN_BRIDGE = '0x3ee18B2214AFF97000D974cf647E7C347E8fa585';
+const ARBITRUM_L1_ERC20_GATEWAY = '0xa3A7B6F88361F48403514059F1F16C8E78d60EeC';
+const AVALANCHE_BRIDGE = '0x8EB8a3b98659Cce290402893d0123abb75E3ab28';
+
+/** Bridged representations; every other tracked token is treated as canonical */
+export const BRIDGED_TOKENS: BridgedRepresentation[] = [
+    {
+        chain: 'solana',
+        symbol: 'wBTC',
+        bridge: 'Wormhole Portal',
+        source: { chain: 'ethereum', symbol: 'wBTC', escrow: WORMHOLE_TOKEN_BRIDGE },
+    },
+    {
+        chain: 'arbitrum',
+        symbol: 'wBTC',
+        bridge: 'Arbitrum canonical bridge',
+        source: { chain: 'ethereum', symbol: 'wBTC', escrow: ARBITRUM_L1_ERC20_GATEWAY },
+    },
+    {
+        chain: 'avalanche',
+        symbol: 'wBTC.e',
+        bridge: 'Avalanche Bridge',
+        source: { chain: 'ethereum', symbol: 'wBTC', escrow: AVALANCHE_BRIDGE },
+    },
+    {
+        chain: 'solana',
+        symbol: 'tBTC',
+        bridge: 'Wormhole (tBTC gateway)',
+        source: { chain: 'ethereum', symbol: 'tBTCv2', escrow: WORMHOLE_TOKEN_BRIDGE },
+    },
+    {
+        chain: 'arbitrum',
+        symbol: 'tBTC',
+        bridge: 'Wormhole (tBTC gateway)',
+        source: { chain: 'ethereum', symbol: 'tBTCv2', escrow: WORMHOLE_TOKEN_BRIDGE },
+    },
+    {
+        chain: 'base',
+        symbol: 'tBTC',
+        bridge: 'Wormhole (tBTC gateway)',
+        source: { chain: 'ethereum', symbol: 'tBTCv2', escrow: WORMHOLE_TOKEN_BRIDGE },
+    },
+];
+
+// === De-duplication ===
+function findToken(chains: Record<string, ChainSupply>, chain: string, symbol: string) {
+    return chains[chain]?.tokens.find((token) => token.symbol === symbol);
+}
+
+/**
+ * Exclude bridged supply whose canonical token is also tracked, since the locked canonical tokens are
+ * already counted. Bridged tokens whose source is not tracked, or failed to read (and so counts as zero),
+ * stay in the net total.
+ */
+export function deduplicate(chains: Record<string, ChainSupply>, bridged: BridgedRepresentation[] = BRIDGED_TOKENS): Deduplication {
+    const rawTotal = Object.values(chains).reduce((sum, chain) => sum + parseUnits(chain.total, BTC_DECIMALS), 0n);
+    const excluded: Deduplication['excluded'] = [];
+    const excludedTokens: TokenSupply[] = [];
+
+    for (const entry of bridged) {
+        const token = findToken(chains, entry.chain, entry.symbol);
+        if (!token) continue;
+        token.bridgedFrom = { bridge: entry.bridge, ...entry.source };
+        const source = findToken(chains, entry.source.chain, entry.source.symbol);
+        if (!source || source.status?.state === 'error') continue;
+        excluded.push({ chain: entry.chain, symbol: entry.symbol, supply: token.supply, bridge: entry.bridge, source: entry.source });
+        excludedTokens.push(token);
+    }
+
+    const excludedTotal = sumSats(excludedTokens);
+    return {
+        rawTotal: formatSats(rawTotal),
+        excludedTotal: formatSats(excludedTotal),
+        netUniqueBTC: formatSats(rawTotal - excludedTotal),
+        excluded,
+    };
+}
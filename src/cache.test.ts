@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cachedPayload, cacheHeaders, type CachedPayload } from './cache';
+import { CONFIG } from './config';
+import { buildPayload } from './payload';
+import type { ApiPayload } from './types';
+
+vi.mock('./payload', async (importOriginal) => ({ ...(await importOriginal<typeof import('./payload')>()), buildPayload: vi.fn() }));
+
+const ENV = { ADMIN_TOKEN: 'secret' } as Env;
+const NOW = Date.parse('2025-05-01T00:00:00Z');
+
+/** `caches.default` backed by a Map, keyed by URL */
+function stubCache() {
+    const entries = new Map<string, Response>();
+    vi.stubGlobal('caches', {
+        default: {
+            async match(key: Request) {
+                return entries.get(key.url)?.clone();
+            },
+            async put(key: Request, resp: Response) {
+                entries.set(key.url, resp);
+            },
+        },
+    });
+    return entries;
+}
+
+function payload(overrides: Partial<ApiPayload> = {}): ApiPayload {
+    return { chains: { ethereum: { label: 'Ethereum', tokens: [], total: '1.00000000' } }, partial: false, dataStatus: 'ok', ...overrides } as ApiPayload;
+}
+
+async function read(path: string, headers: Record<string, string> = {}, waitUntil = vi.fn()): Promise<CachedPayload> {
+    const result = await cachedPayload(new Request(`https://example.com${path}`, { headers }), ENV, { waitUntil });
+    if ('error' in result) throw new Error(result.error);
+    return result;
+}
+
+beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.mocked(buildPayload).mockReset();
+});
+
+describe('cachedPayload', () => {
+    it('builds on a miss and serves every view of the same read from the cache', async () => {
+        const entries = stubCache();
+        vi.mocked(buildPayload).mockResolvedValue(payload());
+        expect(await read('/api/v1/supply')).toMatchObject({ status: 'MISS', age: 0, ttl: CONFIG.CACHE_TTL });
+
+        vi.setSystemTime(NOW + 90_000);
+        const hit = await read('/ui?format=csv');
+        expect(hit).toMatchObject({ status: 'HIT', age: 90 });
+        expect(cacheHeaders(hit)).toMatchObject({ 'X-Cache': 'HIT', Age: '90', 'Cache-Control': `public, max-age=${CONFIG.CACHE_TTL - 90}` });
+        expect(buildPayload).toHaveBeenCalledTimes(1);
+
+        await read('/api/v1/supply?ethBlock=100');
+        expect([...entries.keys()]).toEqual(['https://payload.cache/payload', 'https://payload.cache/payload?ethBlock=100']);
+    });
+
+    it('serves a stale payload while a single background refresh rebuilds it', async () => {
+        stubCache();
+        vi.mocked(buildPayload).mockResolvedValue(payload());
+        await read('/');
+        vi.setSystemTime(NOW + (CONFIG.CACHE_TTL + 1) * 1000);
+
+        const pending: Promise<unknown>[] = [];
+        const waitUntil = vi.fn((promise: Promise<unknown>) => pending.push(promise));
+        const [first, second] = await Promise.all([read('/', {}, waitUntil), read('/', {}, waitUntil)]);
+        expect([first.status, second.status]).toEqual(['STALE', 'STALE']);
+        expect(waitUntil).toHaveBeenCalledTimes(1);
+        await Promise.all(pending);
+        expect(buildPayload).toHaveBeenCalledTimes(2);
+        expect((await read('/')).status).toBe('HIT');
+    });
+
+    it('keeps serving the stale payload when the refresh fails', async () => {
+        stubCache();
+        vi.mocked(buildPayload).mockResolvedValueOnce(payload()).mockRejectedValueOnce(new Error('KV down'));
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        await read('/');
+        vi.setSystemTime(NOW + (CONFIG.CACHE_TTL + 1) * 1000);
+
+        const pending: Promise<unknown>[] = [];
+        expect((await read('/', {}, vi.fn((promise: Promise<unknown>) => pending.push(promise)))).status).toBe('STALE');
+        await Promise.all(pending);
+        expect(console.error).toHaveBeenCalledWith('Cache refresh failed:', expect.any(Error));
+        expect((await read('/')).status).toBe('STALE');
+    });
+
+    it('keeps a degraded payload fresh for a short time only', async () => {
+        stubCache();
+        vi.mocked(buildPayload).mockResolvedValue(payload({ partial: true, dataStatus: 'partial' }));
+        expect((await read('/')).ttl).toBe(CONFIG.CACHE_DEGRADED_TTL);
+        vi.setSystemTime(NOW + (CONFIG.CACHE_DEGRADED_TTL + 1) * 1000);
+        expect((await read('/')).status).toBe('STALE');
+    });
+
+    it('rebuilds on ?fresh=1 only for the admin token', async () => {
+        stubCache();
+        vi.stubGlobal('crypto', {
+            subtle: { timingSafeEqual: (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((byte, i) => byte === b[i]) },
+        });
+        vi.mocked(buildPayload).mockResolvedValue(payload());
+        await read('/');
+
+        expect((await read('/?fresh=1')).status).toBe('HIT');
+        const bypass = await read('/?fresh=1', { Authorization: 'Bearer secret' });
+        expect(bypass.status).toBe('BYPASS');
+        expect(cacheHeaders(bypass)['Cache-Control']).toBe('no-store');
+        expect(buildPayload).toHaveBeenCalledTimes(2);
+    });
+
+    it('returns invalid read pins as errors without building', async () => {
+        stubCache();
+        const result = await cachedPayload(new Request('https://example.com/?solSlot=-1'), ENV, { waitUntil: vi.fn() });
+        expect(result).toEqual({ error: 'Invalid solSlot, expected a slot number' });
+        expect(buildPayload).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,99 @@
+import { isAuthorized } from './admin';
+import type { FetchOptions } from './chains';
+import { CONFIG } from './config';
+import { buildPayload, readOptions } from './payload';
+import type { ApiPayload } from './types';
+
+// === Types ===
+/** How a payload was served: from cache, from cache while refreshing, freshly built, or rebuilt on request */
+export type CacheStatus = 'HIT' | 'STALE' | 'MISS' | 'BYPASS';
+
+/** A payload together with its cache status */
+export interface CachedPayload {
+    payload: ApiPayload;
+    status: CacheStatus;
+    age: number; // seconds since the payload was built
+    builtAt: number; // ms since epoch
+    ttl: number; // seconds the payload is fresh for
+}
+
+// === Cache ===
+const CACHE_ORIGIN = 'https://payload.cache'; // Synthetic, never fetched
+const READ_PARAMS = ['quorum', 'at', 'ethBlock', 'solSlot'];
+
+/** Refreshes in flight in this isolate, so a burst of stale hits triggers one rebuild */
+const refreshing = new Set<string>();
+
+/** Cache key shared by every view (HTML, JSON, per chain, per token) of the same read */
+function cacheKey(params: URLSearchParams): Request {
+    const key = new URL('/payload', CACHE_ORIGIN);
+    for (const name of READ_PARAMS) {
+        if (params.has(name)) key.searchParams.set(name, params.get(name));
+    }
+    return new Request(key.toString());
+}
+
+/** Build a payload and store it; a payload with failed chains stays fresh for CACHE_DEGRADED_TTL only */
+async function rebuild(key: Request, env: Env, options: FetchOptions): Promise<CachedPayload> {
+    const builtAt = Date.now();
+    const payload = await buildPayload(env, options);
+    const degraded = payload.partial || Object.values(payload.chains).some((chain) => chain.error);
+    const ttl = degraded ? CONFIG.CACHE_DEGRADED_TTL : CONFIG.CACHE_TTL;
+    await caches.default.put(
+        key,
+        new Response(JSON.stringify(payload), {
+            headers: {
+                'Content-Type': 'application/json; charset=utf-8',
+                'Cache-Control': `public, max-age=${ttl + CONFIG.CACHE_STALE_TTL}`,
+                'X-Built-At': String(builtAt),
+                'X-Fresh-For': String(ttl),
+            },
+        })
+    );
+    return { payload, status: 'MISS', age: 0, ttl, builtAt };
+}
+
+/**
+ * Payload for a request's read parameters, served from the edge cache when possible.
+ * Past its TTL a cached payload is still served while `ctx.waitUntil` rebuilds it;
+ * `?fresh=1` with the ADMIN_TOKEN bearer rebuilds synchronously.
+ */
+export async function cachedPayload(request: Request, env: Env, ctx: Pick<ExecutionContext, 'waitUntil'>): Promise<CachedPayload | { error: string }> {
+    const params = new URL(request.url).searchParams;
+    const read = readOptions(env, params);
+    if ('error' in read) return read;
+    const key = cacheKey(params);
+
+    if (params.get('fresh') === '1' && isAuthorized(request, env)) {
+        return { ...(await rebuild(key, env, read.options)), status: 'BYPASS' };
+    }
+
+    const cached = await caches.default.match(key);
+    if (!cached) return rebuild(key, env, read.options);
+
+    const payload = await cached.json<ApiPayload>();
+    const builtAt = Number(cached.headers.get('X-Built-At'));
+    const age = Math.max(0, Math.floor((Date.now() - builtAt) / 1000));
+    const ttl = Number(cached.headers.get('X-Fresh-For')) || CONFIG.CACHE_TTL;
+    if (age < ttl) return { payload, status: 'HIT', age, ttl, builtAt };
+
+    if (!refreshing.has(key.url)) {
+        refreshing.add(key.url);
+        ctx.waitUntil(
+            rebuild(key, env, read.options)
+                .catch((err) => console.error('Cache refresh failed:', err))
+                .finally(() => refreshing.delete(key.url))
+        );
+    }
+    return { payload, status: 'STALE', age, ttl, builtAt };
+}
+
+/** `X-Cache`, `X-Data-Status`, `Age` and `Cache-Control` headers for a response built from a cached payload */
+export function cacheHeaders(result: CachedPayload): Record<string, string> {
+    return {
+        'Cache-Control': result.status === 'BYPASS' ? 'no-store' : `public, max-age=${Math.max(0, result.ttl - result.age)}`,
+        'X-Cache': result.status,
+        'X-Data-Status': result.payload.dataStatus ?? 'ok', // Absent in payloads cached before statuses existed
+        Age: String(result.age),
+    };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { projectCatchUp } from './catchup';
+import { memoryHistoryStore, type ChainSnapshot, type HistoryStore } from './history';
+import type { ChainSupply } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2025-05-01T00:00:00Z');
+
+function live(ethereum: string, solana: string, solanaError?: string): Record<string, ChainSupply> {
+    return {
+        ethereum: { label: 'Ethereum', tokens: [], total: ethereum },
+        solana: { label: 'Solana', tokens: [], total: solana, ...(solanaError ? { error: solanaError } : {}) },
+    };
+}
+
+/** A store holding one snapshot per entry, `daysAgo` before NOW */
+async function store(entries: Array<{ daysAgo: number; ethereum: string; solana: string | ChainSnapshot }>): Promise<HistoryStore> {
+    const history = memoryHistoryStore();
+    for (const { daysAgo, ethereum, solana } of entries) {
+        await history.append({
+            timestamp: NOW - daysAgo * DAY_MS,
+            chains: {
+                ethereum: { total: ethereum, supplies: {} },
+                solana: typeof solana === 'string' ? { total: solana, supplies: {} } : solana,
+            },
+            currentlyMintedBTC: '0',
+        });
+    }
+    return history;
+}
+
+describe('projectCatchUp', () => {
+    it('projects parity from the 30-day rate with the other windows as the range', async () => {
+        const history = await store([
+            { daysAgo: 90, ethereum: '100', solana: '10' },
+            { daysAgo: 30, ethereum: '100', solana: '40' },
+            { daysAgo: 7, ethereum: '100', solana: '53' },
+        ]);
+        const projection = await projectCatchUp(history, live('100', '60'), 'ethereum', 'solana', NOW);
+        expect(projection).toMatchObject({ gap: 40, basis: '30d', status: 'converging' });
+        expect(projection.rates.solana).toEqual({ '7d': 1, '30d': 0.66666667, '90d': 0.55555556 });
+        expect(projection.daysToParity).toEqual({ expected: 60, low: 40, high: 72 });
+    });
+
+    it('falls back to another window when the preferred one has no usable anchor', async () => {
+        const history = await store([
+            { daysAgo: 30, ethereum: '100', solana: { total: '20', supplies: {}, partial: true } },
+            { daysAgo: 7, ethereum: '100', solana: '53' },
+        ]);
+        const projection = await projectCatchUp(history, live('100', '60'), 'ethereum', 'solana', NOW);
+        expect(projection.rates.solana).toEqual({ '7d': 1, '30d': null, '90d': null });
+        expect(projection).toMatchObject({ basis: '7d', status: 'converging', daysToParity: { expected: 40, low: 40, high: 40 } });
+    });
+
+    it('reports a shrinking challenger as diverging with no expected date', async () => {
+        const history = await store([{ daysAgo: 30, ethereum: '100', solana: '90' }]);
+        const projection = await projectCatchUp(history, live('100', '60'), 'ethereum', 'solana', NOW);
+        expect(projection).toMatchObject({ basis: '30d', status: 'diverging', daysToParity: { expected: null, low: null, high: null } });
+    });
+
+    it('is caught up once the challenger leads', async () => {
+        const history = await store([{ daysAgo: 30, ethereum: '100', solana: '90' }]);
+        expect((await projectCatchUp(history, live('100', '120'), 'ethereum', 'solana', NOW)).status).toBe('caught-up');
+    });
+
+    it('has insufficient data without history or when a live total failed to read', async () => {
+        const empty = await projectCatchUp(memoryHistoryStore(), live('100', '60'), 'ethereum', 'solana', NOW);
+        expect(empty).toMatchObject({ basis: null, status: 'insufficient-data', daysToParity: { expected: null } });
+
+        const history = await store([{ daysAgo: 30, ethereum: '100', solana: '40' }]);
+        const failed = await projectCatchUp(history, live('100', '0', 'HTTP 502'), 'ethereum', 'solana', NOW);
+        expect(failed).toMatchObject({ basis: null, status: 'insufficient-data', rates: { solana: { '30d': null } } });
+    });
+});
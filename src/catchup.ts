@@ -0,0 +1,88 @@
+import type { ChainSnapshot, HistoryStore } from './history';
+import type { CatchUpProjection, ChainSupply, RateWindow } from './types';
+
+// === Configuration ===
+/** Observation windows in days */
+export const RATE_WINDOWS: RateWindow[] = [7, 30, 90];
+
+/** Windows in order of preference for the expected figure: a month smooths out single large mints */
+const BASIS_PREFERENCE: RateWindow[] = [30, 7, 90];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// === Rates ===
+/** A chain reading, live or stored, that can anchor a rate: read in full, not stale */
+function usable(chain: Pick<ChainSupply | ChainSnapshot, 'partial' | 'error'> | undefined): boolean {
+    return !!chain && !chain.error && !chain.partial;
+}
+
+/**
+ * Net BTC/day per chain over `window` days: the current total against the first stored snapshot
+ * on the day the window starts. Null when there is no usable snapshot that far back.
+ */
+async function windowRates(
+    store: HistoryStore,
+    chains: Record<string, ChainSupply>,
+    window: RateWindow,
+    now: number
+): Promise<Record<string, number | null>> {
+    const start = now - window * DAY_MS;
+    const snapshots = await store.range(start, start + DAY_MS);
+    return Object.fromEntries(
+        Object.entries(chains).map(([name, chain]) => {
+            const anchor = snapshots.find((s) => usable(s.chains[name]));
+            if (!anchor || !usable(chain)) return [name, null];
+            const days = (now - anchor.timestamp) / DAY_MS;
+            const delta = (parseFloat(chain.total) || 0) - (parseFloat(anchor.chains[name].total) || 0);
+            return [name, Number((delta / days).toFixed(8))];
+        })
+    );
+}
+
+// === Projection ===
+/** Days until `challenger` reaches `leader` at each window's observed rates, with the spread across windows as the range */
+export async function projectCatchUp(
+    store: HistoryStore,
+    chains: Record<string, ChainSupply>,
+    leader: string = 'ethereum',
+    challenger: string = 'solana',
+    now: number = Date.now()
+): Promise<CatchUpProjection> {
+    const perWindow = await Promise.all(RATE_WINDOWS.map((window) => windowRates(store, chains, window, now)));
+    const rates: CatchUpProjection['rates'] = {};
+    for (const name of Object.keys(chains)) {
+        rates[name] = Object.fromEntries(RATE_WINDOWS.map((window, i) => [`${window}d`, perWindow[i][name]]));
+    }
+
+    const gap = (parseFloat(chains[leader]?.total) || 0) - (parseFloat(chains[challenger]?.total) || 0);
+    const days = RATE_WINDOWS.map((window, i) => {
+        const lead = perWindow[i][leader];
+        const chase = perWindow[i][challenger];
+        if (lead === null || lead === undefined || chase === null || chase === undefined) return { window, closing: null, days: null };
+        const closing = chase - lead;
+        return { window, closing, days: closing > 0 ? Math.ceil(gap / closing) : null };
+    });
+
+    const basis = BASIS_PREFERENCE.map((window) => days.find((d) => d.window === window)).find((d) => d.closing !== null);
+    const finite = days.map((d) => d.days).filter((d) => d !== null);
+    let status: CatchUpProjection['status'];
+    if (!usable(chains[leader]) || !usable(chains[challenger])) status = 'insufficient-data';
+    else if (gap <= 0) status = 'caught-up';
+    else if (!basis) status = 'insufficient-data';
+    else status = basis.closing > 0 ? 'converging' : 'diverging';
+
+    return {
+        leader,
+        challenger,
+        gap: Number(gap.toFixed(8)),
+        basis: basis ? `${basis.window}d` : null,
+        rates,
+        closingRates: Object.fromEntries(days.map((d) => [`${d.window}d`, d.closing === null ? null : Number(d.closing.toFixed(8))])),
+        daysToParity: {
+            expected: status === 'converging' ? basis.days : null,
+            low: finite.length ? Math.min(...finite) : null,
+            high: finite.length ? Math.max(...finite) : null,
+        },
+        status,
+    };
+}
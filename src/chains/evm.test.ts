@@ -0,0 +1,164 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CONFIG } from '../config';
+import type { EthToken } from '../types';
+import { HistoricalReadError } from '../utils';
+import { decodeMintBurn, evmChain, findBlockByTimestamp } from './evm';
+
+/** Serve `eth_getBlockByNumber` for a chain whose block `n` was mined at `timeOf(n)` (seconds) */
+function mockChain(head: number, timeOf: (block: number) => number) {
+    const calls: number[] = [];
+    vi.stubGlobal('fetch', async (_url: string, init: RequestInit) => {
+        const { id, params } = JSON.parse(String(init.body));
+        const number = params[0] === 'latest' ? head : Number(BigInt(params[0]));
+        calls.push(number);
+        const result = { number: `0x${number.toString(16)}`, hash: `0x${number}`, timestamp: `0x${timeOf(number).toString(16)}` };
+        return new Response(JSON.stringify({ jsonrpc: '2.0', id, result }));
+    });
+    return calls;
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('findBlockByTimestamp', () => {
+    // 13.5 s blocks before the merge, 12 s after it
+    const MERGE = 15_537_394;
+    const ethereum = (n: number) => 1_438_269_973 + (n < MERGE ? Math.floor(n * 13.5) : Math.floor(MERGE * 13.5) + (n - MERGE) * 12);
+
+    it('finds the last block at or before the timestamp in a few calls', async () => {
+        const calls = mockChain(21_000_000, ethereum);
+        for (const target of [20_999_000, 16_000_000, 12_345_678, 1_000]) {
+            calls.length = 0;
+            const at = ethereum(target) * 1000 + 500;
+            const block = await findBlockByTimestamp('Ethereum', `https://rpc.example/${target}`, at);
+            expect(block.number).toBe(target);
+            expect(calls.length).toBeLessThanOrEqual(8);
+        }
+    });
+
+    it('picks the last of several blocks sharing a timestamp', async () => {
+        const arbitrum = (n: number) => 1_622_240_000 + Math.floor(n / 4); // four blocks a second
+        mockChain(300_000_000, arbitrum);
+        const block = await findBlockByTimestamp('Arbitrum', 'https://rpc.example/arb', arbitrum(250_000_001) * 1000);
+        expect(block.number).toBe(250_000_003);
+    });
+
+    it('serves a repeated search from the cache and the head without searching', async () => {
+        const calls = mockChain(21_000_000, ethereum);
+        const at = ethereum(20_000_000) * 1000;
+        await findBlockByTimestamp('Ethereum', 'https://rpc.example/cache', at);
+        calls.length = 0;
+        expect((await findBlockByTimestamp('Ethereum', 'https://rpc.example/cache', at)).number).toBe(20_000_000);
+        expect(calls).toEqual([]);
+        expect((await findBlockByTimestamp('Ethereum', 'https://rpc.example/cache', Date.now())).number).toBe(21_000_000);
+    });
+
+    it('gives up with HistoricalReadError after the step cap', async () => {
+        // Block times that swing wildly defeat interpolation
+        const calls = mockChain(1 << 30, (n) => (n < 1 << 29 ? n : (1 << 29) + (n - (1 << 29)) * 100_000));
+        await expect(findBlockByTimestamp('Erratic', 'https://rpc.example/erratic', 12_345_678_000)).rejects.toBeInstanceOf(HistoricalReadError);
+        expect(calls.length).toBeLessThanOrEqual(13);
+    });
+});
+
+describe('decodeMintBurn', () => {
+    const WBTC = { symbol: 'wBTC', address: '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599', decimals: 8 };
+    const ZERO = `0x${'0'.repeat(64)}`;
+    const HOLDER = `0x${'0'.repeat(24)}${'ab'.repeat(20)}`;
+    const TRANSFER = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+    const log = (from: string, to: string, overrides: object = {}) => ({
+        address: WBTC.address.toLowerCase(),
+        topics: [TRANSFER, from, to],
+        data: `0x${(150_000_000n).toString(16).padStart(64, '0')}`,
+        blockNumber: '0x1406f40',
+        transactionHash: '0xfeed',
+        logIndex: '0xa',
+        ...overrides,
+    });
+
+    it('decodes mints and burns with the exact amount', () => {
+        expect(decodeMintBurn('ethereum', [WBTC], log(ZERO, HOLDER), 1_700_000_000_000)).toEqual({
+            id: 'ethereum:0xfeed:10',
+            chain: 'ethereum',
+            symbol: 'wBTC',
+            kind: 'mint',
+            amount: '1.5',
+            raw: '150000000',
+            decimals: 8,
+            account: `0x${'ab'.repeat(20)}`,
+            txHash: '0xfeed',
+            block: 21_000_000,
+            timestamp: 1_700_000_000_000,
+        });
+        expect(decodeMintBurn('ethereum', [WBTC], log(HOLDER, ZERO), 0)).toMatchObject({ kind: 'burn', account: `0x${'ab'.repeat(20)}` });
+    });
+
+    it('skips transfers, untracked tokens and malformed logs', () => {
+        expect(decodeMintBurn('ethereum', [WBTC], log(HOLDER, HOLDER), 0)).toBeNull();
+        expect(decodeMintBurn('ethereum', [WBTC], log(ZERO, ZERO), 0)).toBeNull();
+        expect(decodeMintBurn('ethereum', [WBTC], log(ZERO, HOLDER, { address: '0x1' }), 0)).toBeNull();
+        expect(decodeMintBurn('ethereum', [WBTC], log(ZERO, HOLDER, { data: '0x' }), 0)).toBeNull();
+        expect(decodeMintBurn('ethereum', [WBTC], { ...log(ZERO, HOLDER), topics: [TRANSFER, ZERO, HOLDER, HOLDER] }, 0)).toBeNull();
+    });
+});
+
+describe('fetchHolders', () => {
+    const HEAD = 20_000_000;
+    const busy: EthToken = { symbol: 'busy', address: `0x${'1'.repeat(40)}`, deployBlock: 6_000_000 };
+    const quiet: EthToken = { symbol: 'quiet', address: `0x${'2'.repeat(40)}`, deployBlock: HEAD - 1000 };
+
+    type LogsCall = { address: string; fromBlock: number; toBlock: number };
+
+    /**
+     * Empty `Transfer` logs for every range, recording each eth_getLogs call; `refuse` picks the ranges the provider
+     * rejects as too busy
+     */
+    function mockLogs(refuse: (call: LogsCall) => boolean = () => false) {
+        const calls: LogsCall[] = [];
+        vi.stubGlobal('fetch', async (_url: string, init: RequestInit) => {
+            const { id, method, params } = JSON.parse(String(init.body));
+            if (method === 'eth_blockNumber') return new Response(JSON.stringify({ jsonrpc: '2.0', id, result: `0x${HEAD.toString(16)}` }));
+            const call = { address: params[0].address, fromBlock: Number(BigInt(params[0].fromBlock)), toBlock: Number(BigInt(params[0].toBlock)) };
+            calls.push(call);
+            const reply = refuse(call) ? { error: { code: -32005, message: 'query returned more than 10000 results' } } : { result: [] };
+            return new Response(JSON.stringify({ jsonrpc: '2.0', id, ...reply }));
+        });
+        return calls;
+    }
+
+    const chain = (tokens: EthToken[]) =>
+        evmChain({ name: 'ethereum', label: 'Ethereum', explorer: '', rpc: { primary: 'https://rpc.example/holders' }, tokens });
+
+    /** First block of the first eth_getLogs call for `token` */
+    const firstBlock = (calls: LogsCall[], token: EthToken) =>
+        calls.find((call) => call.address === token.address)?.fromBlock;
+
+    it('starts each token at its deployment block', async () => {
+        const calls = mockLogs();
+        await chain([busy, quiet]).fetchHolders(null);
+        expect(firstBlock(calls, busy)).toBe(busy.deployBlock);
+        expect(firstBlock(calls, quiet)).toBe(quiet.deployBlock);
+    });
+
+    it('shares the range budget so a backfilling token does not starve the rest', async () => {
+        const calls = mockLogs();
+        const other: EthToken = { ...busy, symbol: 'other', address: `0x${'3'.repeat(40)}` };
+        const holders = await chain([quiet, busy, other]).fetchHolders(null);
+        const count = (address: string) => calls.filter((call) => call.address === address).length;
+        // quiet catches up in one range of its third; busy gets half of what is left, other the rest
+        const left = CONFIG.HOLDERS_MAX_RANGES - 1;
+        expect([count(quiet.address), count(busy.address), count(other.address)]).toEqual([1, Math.ceil(left / 2), Math.floor(left / 2)]);
+        expect(holders.map((entry) => entry.complete)).toEqual([true, false, false]);
+    });
+
+    it('halves a refused range at once instead of retrying it', async () => {
+        const calls = mockLogs((call) => call.toBlock - call.fromBlock >= 500);
+        const [holders] = await chain([busy]).fetchHolders(null);
+        const spans = calls.slice(0, 3).map((call) => call.toBlock - call.fromBlock + 1);
+        expect(spans).toEqual([CONFIG.EVENTS_BLOCK_RANGE, CONFIG.EVENTS_BLOCK_RANGE / 2, CONFIG.EVENTS_BLOCK_RANGE / 4]);
+        // Every call is a new range: none is retried, and the budget is spent on progress
+        expect(new Set(calls.map((call) => `${call.fromBlock}:${call.toBlock}`)).size).toBe(CONFIG.HOLDERS_MAX_RANGES);
+        expect(Number(holders.cursor.block)).toBeGreaterThan(busy.deployBlock);
+    });
+});
@@ -0,0 +1,497 @@
+import { CONFIG } from '../config';
+import { quorumProviders, readProvider } from '../quorum';
+import type { ChainAdapter, EthToken, EventCursor, JsonRpcResponse, ProviderReading, ReadContext, ReadPin, RpcConfig, SupplyEvent, TokenHolders, TokenSupply } from '../types';
+import { errorReason, formatUnits, HistoricalReadError, jsonRpcBatch, sourceStatus, tokenAmount, withRetry } from '../utils';
+import { aggregate3, type Call3, type Call3Result } from './multicall';
+
+// === EVM Fetch ===
+const TOTAL_SUPPLY_SIG = '0x18160ddd';
+const DECIMALS_SIG = '0x313ce567';
+
+/** Read one token with two `eth_call`s; throws when either call fails */
+async function fetchSingleSupply(token: EthToken, rpcUrl: string, blockTag: string = 'latest'): Promise<TokenSupply> {
+    const supplyReq = {
+        jsonrpc: '2.0',
+        id: 'supply',
+        method: 'eth_call',
+        params: [{ to: token.address, data: TOTAL_SUPPLY_SIG }, blockTag],
+    };
+    const decimalsReq = {
+        jsonrpc: '2.0',
+        id: 'decimals',
+        method: 'eth_call',
+        params: [{ to: token.address, data: DECIMALS_SIG }, blockTag],
+    };
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), 5000);
+    try {
+        const [supplyRes, decimalsRes] = await Promise.all([
+            fetch(rpcUrl, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(supplyReq),
+                signal: controller.signal,
+            }).then((r) => r.json<JsonRpcResponse<string>>()),
+            fetch(rpcUrl, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(decimalsReq),
+                signal: controller.signal,
+            }).then((r) => r.json<JsonRpcResponse<string>>()),
+        ]);
+
+        if (supplyRes.error || decimalsRes.error) {
+            console.warn(`Single call failed for ${token.symbol}:`, {
+                address: token.address,
+                supplyError: supplyRes.error,
+                decimalsError: decimalsRes.error,
+            });
+            throw new Error(`eth_call failed: ${(supplyRes.error || decimalsRes.error).message || 'RPC error'}`);
+        }
+
+        const supplyRaw = supplyRes.result ? BigInt(supplyRes.result) : 0n;
+        const decimals = decimalsRes.result ? Number(BigInt(decimalsRes.result)) : token.decimals ?? 8;
+        return { symbol: token.symbol, ...tokenAmount(supplyRaw, decimals), address: token.address, status: sourceStatus('ok') };
+    } finally {
+        clearTimeout(timeout);
+    }
+}
+
+/** Per-token `eth_call` path, with retries on the primary RPC and the fallback RPC as last resort */
+async function fetchWithFallback(label: string, rpc: RpcConfig, token: EthToken, blockTag: string): Promise<TokenSupply> {
+    try {
+        return await withRetry(() => fetchSingleSupply(token, rpc.primary, blockTag));
+    } catch (err) {
+        console.warn(`Primary RPC failed for ${token.symbol} on ${label}:`, err);
+        if (!rpc.fallback) {
+            return { symbol: token.symbol, supply: '0', address: token.address, status: sourceStatus('error', errorReason(err)) };
+        }
+    }
+    try {
+        const supply = await fetchSingleSupply(token, rpc.fallback, blockTag);
+        return { ...supply, status: sourceStatus('fallback', 'Primary RPC failed') };
+    } catch (err) {
+        console.error(`Failed to fetch single supply for ${token.symbol} on ${label}:`, err);
+        return { symbol: token.symbol, supply: '0', address: token.address, status: sourceStatus('error', errorReason(err)) };
+    }
+}
+
+function supplyCalls(tokens: EthToken[]): Call3[] {
+    return tokens.flatMap((token: EthToken) => [
+        { target: token.address, callData: TOTAL_SUPPLY_SIG, allowFailure: true },
+        { target: token.address, callData: DECIMALS_SIG, allowFailure: true },
+    ]);
+}
+
+/** Decode the supply of token `idx` from `supplyCalls` results; null when either call failed */
+function decodeSupply(results: Call3Result[], idx: number): Pick<TokenSupply, 'supply' | 'raw' | 'decimals'> | null {
+    const supplyRes = results[idx * 2];
+    const decimalsRes = results[idx * 2 + 1];
+    if (!supplyRes?.success || !decimalsRes?.success || supplyRes.returnData === '0x' || decimalsRes.returnData === '0x') {
+        return null;
+    }
+    return tokenAmount(BigInt(supplyRes.returnData), Number(BigInt(decimalsRes.returnData)));
+}
+
+/** Read every token's supply and decimals through one Multicall3 `aggregate3` call */
+async function fetchMulticallSupplies(label: string, rpc: RpcConfig, tokens: EthToken[], blockTag: string): Promise<TokenSupply[]> {
+    const calls = supplyCalls(tokens);
+
+    let status = sourceStatus('ok');
+    const results = await withRetry(() => aggregate3(rpc.primary, calls, blockTag)).catch((err) => {
+        if (!rpc.fallback) throw err;
+        console.warn(`Primary RPC multicall failed on ${label}:`, err);
+        status = sourceStatus('fallback', 'Primary RPC failed');
+        return aggregate3(rpc.fallback, calls, blockTag);
+    });
+
+    return Promise.all(
+        tokens.map((token, idx) => {
+            const amount = decodeSupply(results, idx);
+            if (amount === null) {
+                console.warn(`Multicall failed for ${token.symbol} on ${label}, retrying with single calls`);
+                return fetchWithFallback(label, rpc, token, blockTag);
+            }
+            return { symbol: token.symbol, ...amount, address: token.address, status };
+        })
+    );
+}
+
+// === Blocks ===
+interface BlockRef {
+    number: number;
+    hash: string;
+    timestamp: number; // ms since epoch
+}
+
+/** `eth_getBlockByNumber` result, the fields read here */
+interface RawBlock {
+    number: string;
+    hash: string;
+    timestamp: string;
+}
+
+function toBlockTag(block: number): string {
+    return `0x${block.toString(16)}`;
+}
+
+/** One JSON-RPC call; `T` is the result type of `method`, a hex quantity unless given */
+async function ethRpc<T = string>(rpcUrl: string, method: string, params: unknown[]): Promise<T> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), 5000);
+    try {
+        const resp = await fetch(rpcUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ jsonrpc: '2.0', id: method, method, params }),
+            signal: controller.signal,
+        });
+        if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+        const res: JsonRpcResponse<T> = await resp.json();
+        if (res.error || res.result == null) throw new Error(`${method} failed: ${res.error?.message || 'No result'}`);
+        return res.result;
+    } finally {
+        clearTimeout(timeout);
+    }
+}
+
+async function fetchBlockNumber(rpcUrl: string): Promise<number> {
+    return Number(BigInt(await ethRpc(rpcUrl, 'eth_blockNumber', [])));
+}
+
+async function fetchBlock(rpcUrl: string, block: number | 'latest'): Promise<BlockRef> {
+    const res = await ethRpc<RawBlock>(rpcUrl, 'eth_getBlockByNumber', [block === 'latest' ? block : toBlockTag(block), false]);
+    return { number: Number(BigInt(res.number)), hash: res.hash, timestamp: Number(BigInt(res.timestamp)) * 1000 };
+}
+
+/** Block searches by rpcUrl and timestamp, so repeated `?at=` reads cost no calls */
+const blockCache = new Map<string, BlockRef>();
+const BLOCK_CACHE_SIZE = 256;
+
+/**
+ * Last block mined at or before `timestamp`. The first probe sits BLOCK_SEARCH_SAMPLE blocks below the head, which
+ * also gives the average block time; later probes interpolate between the nearest blocks known to be before and
+ * after the target (or extrapolate from the oldest one after it), bisecting when a probe barely narrows the gap.
+ * That lands in a handful of calls; after BLOCK_SEARCH_STEPS probes it gives up with HistoricalReadError.
+ */
+export async function findBlockByTimestamp(label: string, rpcUrl: string, timestamp: number): Promise<BlockRef> {
+    const key = `${rpcUrl}|${timestamp}`;
+    const cached = blockCache.get(key);
+    if (cached) return cached;
+
+    const latest = await fetchBlock(rpcUrl, 'latest');
+    if (latest.timestamp <= timestamp) return latest;
+
+    let before: BlockRef | null = null; // latest known block at or before `timestamp`
+    let after = latest; // earliest known block after it
+    let msPerBlock = 0;
+    let probe = Math.max(0, latest.number - CONFIG.BLOCK_SEARCH_SAMPLE);
+    for (let step = 0; step < CONFIG.BLOCK_SEARCH_STEPS; step++) {
+        const gap = before ? after.number - before.number : after.number;
+        const block = await fetchBlock(rpcUrl, probe);
+        if (step === 0) msPerBlock = Math.max(1, (latest.timestamp - block.timestamp) / Math.max(1, latest.number - block.number));
+        if (block.timestamp <= timestamp) before = block;
+        else after = block;
+
+        if (before && after.number - before.number <= 1) {
+            if (blockCache.size >= BLOCK_CACHE_SIZE) blockCache.delete(blockCache.keys().next().value);
+            blockCache.set(key, before);
+            return before;
+        }
+        if (!before) {
+            if (after.number === 0) throw new Error(`No block at or before ${new Date(timestamp).toISOString()}`);
+            probe = Math.max(0, after.number - Math.ceil((after.timestamp - timestamp) / msPerBlock) - 1);
+            continue;
+        }
+        const interpolated = before.number + Math.floor(((timestamp - before.timestamp) * (after.number - before.number)) / (after.timestamp - before.timestamp));
+        const narrowed = after.number - before.number <= gap / 2;
+        probe = narrowed ? interpolated : Math.floor((before.number + after.number) / 2);
+        probe = Math.min(after.number - 1, Math.max(before.number + 1, probe));
+    }
+    throw new HistoricalReadError(label, timestamp);
+}
+
+/** Resolve a pin (or the current head) to a concrete block */
+function resolveBlock(label: string, rpcUrl: string, pin: ReadPin = {}): Promise<BlockRef> {
+    if (pin.block !== undefined) return fetchBlock(rpcUrl, pin.block);
+    if (pin.timestamp !== undefined) return findBlockByTimestamp(label, rpcUrl, pin.timestamp);
+    return fetchBlock(rpcUrl, 'latest');
+}
+
+// === Supplies ===
+async function fetchEvmSupplies(
+    label: string,
+    rpc: RpcConfig,
+    tokens: EthToken[],
+    pin?: ReadPin
+): Promise<{ tokens: TokenSupply[]; context?: ReadContext }> {
+    const start = performance.now();
+    const block = await withRetry(() => resolveBlock(label, rpc.primary, pin)).catch((err) => {
+        if (!rpc.fallback || err instanceof HistoricalReadError) throw err;
+        console.warn(`Primary RPC block lookup failed on ${label}:`, err);
+        return resolveBlock(label, rpc.fallback, pin);
+    });
+    const blockTag = toBlockTag(block.number);
+    const context: ReadContext = { source: 'rpc', blockNumber: block.number, blockHash: block.hash, timestamp: block.timestamp };
+
+    try {
+        const supplies = await fetchMulticallSupplies(label, rpc, tokens, blockTag);
+        console.log(`${label} fetch (multicall) took ${performance.now() - start}ms`);
+        return { tokens: supplies, context };
+    } catch (err) {
+        console.warn(`Multicall failed on ${label}, falling back to single calls:`, err);
+    }
+
+    const supplies = await Promise.all(tokens.map((token) => fetchWithFallback(label, rpc, token, blockTag)));
+    console.log(`${label} fetch (fallback) took ${performance.now() - start}ms`);
+    return { tokens: supplies, context };
+}
+
+/** Read every quorum provider at the pinned block, or else the lowest head block they all have */
+async function fetchEvmQuorum(
+    label: string,
+    rpc: RpcConfig,
+    tokens: EthToken[],
+    pin?: ReadPin
+): Promise<{ readings: ProviderReading[]; context?: ReadContext }> {
+    const providers = quorumProviders(rpc);
+    let block: number;
+    if (pin?.block !== undefined || pin?.timestamp !== undefined) {
+        block = (await resolveBlock(label, rpc.primary, pin)).number;
+    } else {
+        const heads = await Promise.all(
+            providers.map((url) =>
+                fetchBlockNumber(url).catch((err) => {
+                    console.warn(`Block number failed on ${label}:`, err);
+                    return null;
+                })
+            )
+        );
+        const known = heads.filter((head) => head !== null);
+        if (!known.length) throw new Error(`No ${label} provider returned a block number`);
+        block = Math.min(...known);
+    }
+
+    const calls = supplyCalls(tokens);
+    const readings = await Promise.all(
+        providers.map((url) =>
+            readProvider(url, async () => {
+                const results = await aggregate3(url, calls, toBlockTag(block));
+                return { height: block, supplies: tokens.map((_, idx) => decodeSupply(results, idx)) };
+            })
+        )
+    );
+    return { readings, context: { source: 'rpc', blockNumber: block } };
+}
+
+// === Mint/Burn Events ===
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef'; // Transfer(address,address,uint256)
+const ZERO_TOPIC = `0x${'0'.repeat(64)}`;
+const BLOCK_BATCH = 100; // eth_getBlockByNumber calls per batch request
+
+interface Log {
+    address: string;
+    topics: string[];
+    data: string;
+    blockNumber: string;
+    blockTimestamp?: string; // Included by some clients
+    transactionHash: string;
+    logIndex: string;
+}
+
+/** `Transfer` logs of `tokens` from the zero address (mints) and to it (burns) in blocks [from, to] */
+async function fetchMintBurnLogs(rpcUrl: string, tokens: EthToken[], from: number, to: number): Promise<Log[]> {
+    const filter = { address: tokens.map((token) => token.address), fromBlock: toBlockTag(from), toBlock: toBlockTag(to) };
+    const [mints, burns] = await Promise.all([
+        ethRpc<Log[]>(rpcUrl, 'eth_getLogs', [{ ...filter, topics: [TRANSFER_TOPIC, ZERO_TOPIC] }]),
+        ethRpc<Log[]>(rpcUrl, 'eth_getLogs', [{ ...filter, topics: [TRANSFER_TOPIC, null, ZERO_TOPIC] }]),
+    ]);
+    return [...mints, ...burns];
+}
+
+/** Timestamp (ms) of each block the logs came from; blocks without a `blockTimestamp` are looked up in batches */
+async function logTimestamps(rpcUrl: string, logs: Log[]): Promise<Map<number, number>> {
+    const times = new Map<number, number>();
+    for (const log of logs) {
+        if (log.blockTimestamp) times.set(Number(BigInt(log.blockNumber)), Number(BigInt(log.blockTimestamp)) * 1000);
+    }
+    const missing = [...new Set(logs.map((log) => Number(BigInt(log.blockNumber))))].filter((block) => !times.has(block));
+    for (let i = 0; i < missing.length; i += BLOCK_BATCH) {
+        const batch = missing.slice(i, i + BLOCK_BATCH);
+        const blocks = await jsonRpcBatch<RawBlock>(
+            rpcUrl,
+            batch.map((block) => ({ method: 'eth_getBlockByNumber', params: [toBlockTag(block), false] }))
+        );
+        blocks.forEach((block, j) => times.set(batch[j], Number(BigInt(block.timestamp)) * 1000));
+    }
+    return times;
+}
+
+/** Decode a zero-address `Transfer` log; null for logs that are not a mint or burn of a tracked token */
+export function decodeMintBurn(chain: string, tokens: EthToken[], log: Log, timestamp: number): SupplyEvent | null {
+    const token = tokens.find((t) => t.address.toLowerCase() === log.address.toLowerCase());
+    if (!token || log.topics.length !== 3 || log.data.length < 66) return null;
+    const [, from, to] = log.topics;
+    const kind = from === ZERO_TOPIC ? 'mint' : to === ZERO_TOPIC ? 'burn' : null;
+    if (!kind || from === to) return null;
+    const raw = BigInt(log.data.slice(0, 66));
+    const decimals = token.decimals ?? 8;
+    return {
+        id: `${chain}:${log.transactionHash}:${Number(BigInt(log.logIndex))}`,
+        chain,
+        symbol: token.symbol,
+        kind,
+        amount: formatUnits(raw, decimals),
+        raw: raw.toString(),
+        decimals,
+        account: `0x${(kind === 'mint' ? to : from).slice(-40)}`,
+        txHash: log.transactionHash,
+        block: Number(BigInt(log.blockNumber)),
+        timestamp,
+    };
+}
+
+/**
+ * Mints and burns in the blocks after `cursor.block` (or the last EVENTS_INITIAL_BLOCKS on the first run), up to
+ * EVENTS_CONFIRMATIONS behind the head. At most EVENTS_MAX_RANGES ranges are read per run; a range that fails after
+ * the first ends the run early, and the returned cursor resumes from there.
+ */
+async function fetchEvmEvents(
+    chain: string,
+    label: string,
+    rpc: RpcConfig,
+    tokens: EthToken[],
+    cursor: EventCursor | null
+): Promise<{ events: SupplyEvent[]; cursor: EventCursor }> {
+    if (!tokens.length) return { events: [], cursor: cursor ?? {} };
+    const head = (await withRetry(() => fetchBlockNumber(rpc.primary))) - CONFIG.EVENTS_CONFIRMATIONS;
+    let indexed = cursor?.block ? Number(cursor.block) : Math.max(head - CONFIG.EVENTS_INITIAL_BLOCKS, 0);
+
+    const logs: Log[] = [];
+    for (let i = 0; i < CONFIG.EVENTS_MAX_RANGES && indexed < head; i++) {
+        const from = indexed + 1;
+        const to = Math.min(indexed + CONFIG.EVENTS_BLOCK_RANGE, head);
+        try {
+            logs.push(...(await withRetry(() => fetchMintBurnLogs(rpc.primary, tokens, from, to))));
+        } catch (err) {
+            if (i === 0) throw err;
+            console.warn(`eth_getLogs failed on ${label} for blocks ${from}-${to}, resuming next run:`, err);
+            break;
+        }
+        indexed = to;
+    }
+    if (indexed < head) console.log(`${label} events indexed through block ${indexed} of ${head}`);
+
+    const times = await logTimestamps(rpc.primary, logs);
+    const events = logs
+        .sort((a, b) => Number(BigInt(a.blockNumber) - BigInt(b.blockNumber) || BigInt(a.logIndex) - BigInt(b.logIndex)))
+        .map((log) => decodeMintBurn(chain, tokens, log, times.get(Number(BigInt(log.blockNumber)))))
+        .filter((event) => event !== null);
+    return { events, cursor: { block: String(indexed) } };
+}
+
+// === Holders ===
+const ZERO_ADDRESS = `0x${'0'.repeat(40)}`;
+const SPARSE_LOGS = 1000; // A range returning fewer logs than this doubles the next one
+const RANGE_LIMIT = /range|results|response size|too many logs/i; // Provider refusals of a too wide or too busy eth_getLogs range
+
+/** Apply a `Transfer` log to holder balances; mints and burns only move the non-zero side */
+function applyTransfer(balances: Map<string, bigint>, log: Log): void {
+    if (log.topics.length !== 3 || log.data.length < 66) return; // ERC-721 style or malformed
+    const value = BigInt(log.data.slice(0, 66));
+    const from = `0x${log.topics[1].slice(-40)}`;
+    const to = `0x${log.topics[2].slice(-40)}`;
+    for (const [address, delta] of [
+        [from, -value],
+        [to, value],
+    ] as const) {
+        if (address === ZERO_ADDRESS) continue;
+        const balance = (balances.get(address) ?? 0n) + delta;
+        if (balance === 0n) balances.delete(address);
+        else balances.set(address, balance);
+    }
+}
+
+/**
+ * Advance one token's balance index from its cursor (else its `deployBlock`) toward `head`, replaying every
+ * `Transfer` since deployment. Ranges double while logs are sparse and halve when they fail: at once when the provider
+ * refuses the range (too many results or too wide), after the usual retries otherwise. `budget.ranges` caps the
+ * eth_getLogs calls and is decremented as they are made.
+ */
+async function indexTokenHolders(rpcUrl: string, token: EthToken, previous: TokenHolders | undefined, head: number, budget: { ranges: number }): Promise<TokenHolders> {
+    const balances = new Map(Object.entries(previous?.balances || {}).map(([address, balance]) => [address, BigInt(balance)]));
+    let indexed = previous?.cursor.block ? Number(previous.cursor.block) : (token.deployBlock ?? 0) - 1;
+    let span = previous?.cursor.span ? Number(previous.cursor.span) : CONFIG.EVENTS_BLOCK_RANGE;
+
+    while (budget.ranges > 0 && indexed < head) {
+        budget.ranges--;
+        const to = Math.min(indexed + span, head);
+        const read = () =>
+            ethRpc<Log[]>(rpcUrl, 'eth_getLogs', [{ address: token.address, topics: [TRANSFER_TOPIC], fromBlock: toBlockTag(indexed + 1), toBlock: toBlockTag(to) }]);
+        let logs: Log[];
+        try {
+            logs = await read().catch((err) => (RANGE_LIMIT.test(errorReason(err)) ? Promise.reject(err) : withRetry(read, CONFIG.RETRY_ATTEMPTS - 1)));
+        } catch (err) {
+            if (span === 1) throw err;
+            span = Math.max(Math.floor(span / 2), 1);
+            continue;
+        }
+        for (const log of logs) applyTransfer(balances, log);
+        indexed = to;
+        if (logs.length < SPARSE_LOGS) span = Math.min(span * 2, CONFIG.HOLDERS_MAX_SPAN);
+    }
+
+    const held = [...balances].filter(([, balance]) => balance > 0n); // Negative only if a log was missed
+    return {
+        symbol: token.symbol,
+        decimals: token.decimals ?? 8,
+        supply: held.reduce((sum, [, balance]) => sum + balance, 0n).toString(),
+        balances: Object.fromEntries([...balances].map(([address, balance]) => [address, balance.toString()])),
+        complete: previous?.complete || indexed >= head, // Once backfilled, a run cut short by the budget lags by a few blocks only
+        cursor: { block: String(indexed), span: String(span) },
+    };
+}
+
+/**
+ * Holder balances per token from the chain's `Transfer` logs, up to EVENTS_CONFIRMATIONS behind the head. Each run
+ * resumes every token's index where the previous one stopped; a token that fails keeps its previous index.
+ * HOLDERS_MAX_RANGES is split evenly between the tokens, and ranges a token does not need go to the ones after it,
+ * so one token backfilling does not stall the others.
+ */
+async function fetchEvmHolders(label: string, rpc: RpcConfig, tokens: EthToken[], previous: TokenHolders[] | null): Promise<TokenHolders[]> {
+    if (!tokens.length) return [];
+    const head = (await withRetry(() => fetchBlockNumber(rpc.primary))) - CONFIG.EVENTS_CONFIRMATIONS;
+    let ranges = CONFIG.HOLDERS_MAX_RANGES;
+    const holders: TokenHolders[] = [];
+    for (const [i, token] of tokens.entries()) {
+        const kept = previous?.find((entry) => entry.symbol === token.symbol);
+        const share = Math.ceil(ranges / (tokens.length - i));
+        const budget = { ranges: share };
+        try {
+            const next = await indexTokenHolders(rpc.primary, token, kept, head, budget);
+            if (!next.complete) console.log(`${label} ${token.symbol} holders indexed through block ${next.cursor.block} of ${head}`);
+            holders.push(next);
+        } catch (err) {
+            console.warn(`${label} holder indexing failed for ${token.symbol}:`, err);
+            if (kept) holders.push(kept);
+        }
+        ranges -= share - budget.ranges;
+    }
+    return holders;
+}
+
+/** Adapter for an EVM chain reading ERC-20 `totalSupply()` / `decimals()` */
+export function evmChain(config: { name: string; label: string; explorer: string; rpc: RpcConfig; tokens?: EthToken[] }): ChainAdapter<EthToken> {
+    const tokens = config.tokens || [];
+    return {
+        ...config,
+        kind: 'evm',
+        tokens,
+        withTokens: (next) => evmChain({ ...config, tokens: next }),
+        fetchSupplies: (pin) => fetchEvmSupplies(config.label, config.rpc, tokens, pin),
+        fetchQuorum: (pin) => fetchEvmQuorum(config.label, config.rpc, tokens, pin),
+        fetchEvents: (cursor) => fetchEvmEvents(config.name, config.label, config.rpc, tokens, cursor),
+        fetchHolders: (previous) => fetchEvmHolders(config.label, config.rpc, tokens, previous),
+    };
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { ChainAdapter, ChainSupply, TokenEntry, TokenSupply } from '../types';
+import { HistoricalReadError, sourceStatus, tokenAmount } from '../utils';
+import { CHAIN_NAMES, fetchChain, registryAdapters } from './index';
+
+const STORED: ChainSupply = {
+    label: 'Testnet',
+    total: '5.00000000',
+    tokens: [{ symbol: 'wBTC', ...tokenAmount(500_000_000n, 8), status: sourceStatus('ok') }],
+    context: { source: 'snapshot', timestamp: 1_746_057_600_000 },
+};
+
+function adapter(read: () => Promise<{ tokens: TokenSupply[] }>): ChainAdapter {
+    return {
+        name: 'testnet',
+        label: 'Testnet',
+        explorer: '',
+        kind: 'evm',
+        rpc: { primary: 'https://rpc.example' },
+        tokens: [
+            { symbol: 'wBTC', address: `0x${'1'.repeat(40)}`, decimals: 8 },
+            { symbol: 'tBTC', address: `0x${'2'.repeat(40)}`, decimals: 18 },
+        ],
+        withTokens: () => undefined,
+        fetchSupplies: read,
+        fetchQuorum: async () => undefined,
+        fetchEvents: async () => undefined,
+        fetchHolders: async () => [],
+    };
+}
+
+const failed = (symbol: string): TokenSupply => ({ symbol, supply: '0', status: sourceStatus('error', 'execution reverted') });
+
+describe('fetchChain', () => {
+    it('serves the last good reading as stale when every token read fails', async () => {
+        const lastGood = vi.fn(async () => STORED);
+        const chain = await fetchChain(adapter(async () => ({ tokens: [failed('wBTC'), failed('tBTC')] })), { lastGood });
+        expect(lastGood).toHaveBeenCalledWith('testnet');
+        expect(chain.total).toBe('5.00000000');
+        expect(chain.error).toBe('Every token read failed: execution reverted');
+        expect(chain.tokens[0].status).toMatchObject({ state: 'stale', asOf: new Date(STORED.context.timestamp).toISOString() });
+    });
+
+    it('serves the last good reading when the read throws', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const chain = await fetchChain(adapter(async () => { throw new Error('HTTP 503'); }), { lastGood: async () => STORED });
+        expect(chain).toMatchObject({ total: '5.00000000', error: 'HTTP 503' });
+        vi.restoreAllMocks();
+    });
+
+    it('publishes a partial read as it is', async () => {
+        const ok = { symbol: 'wBTC', ...tokenAmount(300_000_000n, 8), status: sourceStatus('ok') };
+        const lastGood = vi.fn(async () => STORED);
+        const chain = await fetchChain(adapter(async () => ({ tokens: [ok, failed('tBTC')] })), { lastGood });
+        expect(lastGood).not.toHaveBeenCalled();
+        expect(chain.total).toBe('3.00000000');
+        expect(chain.error).toBeUndefined();
+    });
+
+    it('reports zero supplies flagged with the error when a read throws with nothing to fall back on', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const chain = await fetchChain(adapter(async () => { throw new Error('HTTP 503'); }), {});
+        expect(chain).toMatchObject({ label: 'Testnet', total: '0.00000000', error: 'HTTP 503' });
+        expect(chain.tokens.map((token) => [token.symbol, token.supply, token.status.state])).toEqual([
+            ['wBTC', '0', 'error'],
+            ['tBTC', '0', 'error'],
+        ]);
+        expect(chain.tokens[0]).not.toHaveProperty('decimals');
+        vi.restoreAllMocks();
+    });
+
+    it('reports the failed tokens when there is no last good reading, or the read is pinned', async () => {
+        const read = async () => ({ tokens: [failed('wBTC'), failed('tBTC')] });
+        const none = await fetchChain(adapter(read), { lastGood: async () => null });
+        expect(none).toMatchObject({ total: '0.00000000', error: 'Every token read failed: execution reverted' });
+        expect(none.tokens.map((token) => token.status.state)).toEqual(['error', 'error']);
+
+        const lastGood = vi.fn(async () => STORED);
+        const pinned = await fetchChain(adapter(read), { pins: { testnet: { block: 123 } }, lastGood });
+        expect(lastGood).not.toHaveBeenCalled();
+        expect(pinned.total).toBe('0.00000000');
+    });
+
+    it('answers a pinned read the adapter cannot serve from history', async () => {
+        const historical = vi.fn(async () => STORED);
+        const chain = await fetchChain(adapter(async () => { throw new HistoricalReadError('Testnet', 1_746_057_600_000); }), {
+            pins: { testnet: { timestamp: 1_746_057_600_000 } },
+            historical,
+        });
+        expect(historical).toHaveBeenCalledWith('testnet', 1_746_057_600_000, undefined);
+        expect(chain).toBe(STORED);
+    });
+
+    it('flags tokens whose on-chain decimals differ from the registry', async () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const wbtc = { symbol: 'wBTC', ...tokenAmount(300_000_000n, 8), status: sourceStatus('ok') };
+        const tbtc = { symbol: 'tBTC', ...tokenAmount(300_000_000n, 8), status: sourceStatus('ok') };
+        const chain = await fetchChain(adapter(async () => ({ tokens: [wbtc, tbtc] })), {});
+        expect(chain.tokens.map((token) => token.registryDecimals)).toEqual([undefined, 18]);
+        expect(warn).toHaveBeenCalledWith('Testnet tBTC has 8 decimals on chain, 18 in the registry');
+        vi.restoreAllMocks();
+    });
+});
+
+describe('registryAdapters', () => {
+    const registry: TokenEntry[] = [
+        { chain: 'ethereum', symbol: 'wBTC', address: `0x${'1'.repeat(40)}`, decimals: 8, deployBlock: 6_766_284, status: 'active' },
+        { chain: 'solana', symbol: 'zBTC', mint: 'zBTCug3er3tLyffELcvDNrKkCymbPWysGcWihESYfLg', decimals: 8, status: 'active' },
+        { chain: 'base', symbol: 'cbBTC', address: `0x${'2'.repeat(40)}`, status: 'deprecated' },
+        { chain: 'unknown', symbol: 'xBTC', address: `0x${'3'.repeat(40)}`, status: 'active' },
+    ];
+
+    it('loads every registered chain with its tokens in the shape its adapter reads', () => {
+        const adapters = registryAdapters(registry);
+        expect(adapters.map((chain) => chain.name)).toEqual(CHAIN_NAMES);
+        const tokens = Object.fromEntries(adapters.map((chain) => [chain.name, chain.tokens]));
+        expect(tokens.ethereum).toEqual([{ symbol: 'wBTC', address: `0x${'1'.repeat(40)}`, decimals: 8, deployBlock: 6_766_284 }]);
+        expect(tokens.solana).toEqual([{ symbol: 'zBTC', mint: 'zBTCug3er3tLyffELcvDNrKkCymbPWysGcWihESYfLg', decimals: 8 }]);
+        expect(tokens.base.map((token) => token.symbol)).toEqual(['cbBTC']); // Deprecated tokens are still read
+        expect(tokens.arbitrum).toEqual([]);
+    });
+});
@@ -0,0 +1,189 @@
+import { CONFIG } from '../config';
+import { timed } from '../metrics';
+import { resolveQuorum } from '../quorum';
+import type { ChainAdapter, ChainSupply, EthToken, ReadPin, SolToken, TokenEntry, TokenSupply } from '../types';
+import { calculateTotal, errorReason, HistoricalReadError, sourceStatus } from '../utils';
+import { evmChain } from './evm';
+import { solanaChain } from './solana';
+
+// === Registry ===
+/** Every chain the tracker reads, in display order. Add a chain by appending an adapter; tokens come from the token registry. */
+export const CHAIN_ADAPTERS: ChainAdapter[] = [
+    evmChain({
+        name: 'ethereum',
+        label: 'Ethereum',
+        explorer: 'https://etherscan.io/token/',
+        rpc: {
+            primary: CONFIG.ETH_RPC,
+            fallback: CONFIG.ETH_RPC_FALLBACK,
+            quorum: [CONFIG.ETH_RPC, CONFIG.ETH_RPC_FALLBACK, 'https://ethereum-rpc.publicnode.com'],
+        },
+    }),
+    solanaChain({
+        name: 'solana',
+        label: 'Solana',
+        explorer: 'https://solscan.io/token/',
+        rpc: { primary: CONFIG.SOL_RPC, quorum: [CONFIG.SOL_RPC, 'https://solana-rpc.publicnode.com'] },
+    }),
+    evmChain({
+        name: 'arbitrum',
+        label: 'Arbitrum One',
+        explorer: 'https://arbiscan.io/token/',
+        rpc: { primary: 'https://arb1.arbitrum.io/rpc', fallback: 'https://arbitrum.llamarpc.com' },
+    }),
+    evmChain({
+        name: 'base',
+        label: 'Base',
+        explorer: 'https://basescan.org/token/',
+        rpc: { primary: 'https://mainnet.base.org', fallback: 'https://base.llamarpc.com' },
+    }),
+    evmChain({
+        name: 'bnb',
+        label: 'BNB Chain',
+        explorer: 'https://bscscan.com/token/',
+        rpc: { primary: 'https://bsc-dataseed.bnbchain.org', fallback: 'https://binance.llamarpc.com' },
+    }),
+    evmChain({
+        name: 'avalanche',
+        label: 'Avalanche C-Chain',
+        explorer: 'https://snowtrace.io/token/',
+        rpc: { primary: 'https://api.avax.network/ext/bc/C/rpc', fallback: 'https://avalanche-c-chain-rpc.publicnode.com' },
+    }),
+];
+
+export const CHAIN_NAMES = CHAIN_ADAPTERS.map((adapter) => adapter.name);
+
+/** Look up a registered adapter by name */
+export function getChain(name: string): ChainAdapter | undefined {
+    return CHAIN_ADAPTERS.find((adapter) => adapter.name === name);
+}
+
+function zeroSupplies(adapter: ChainAdapter, reason?: string): TokenSupply[] {
+    const status = reason ? sourceStatus('error', reason) : undefined;
+    return adapter.tokens.map(({ decimals, ...token }) => ({ ...token, supply: '0', ...(status ? { status } : {}) }));
+}
+
+/** Mark a stored reading as served in place of a failed live read */
+function asStale(chain: ChainSupply, reason: string): ChainSupply {
+    const asOf = chain.context?.timestamp ?? Date.now();
+    const stale = (token: TokenSupply): TokenSupply => ({ ...token, status: sourceStatus('stale', reason, asOf) });
+    return { ...chain, tokens: chain.tokens.map(stale), deprecated: chain.deprecated?.map(stale), error: reason };
+}
+
+/** Flag a chain whose total is missing an active token */
+function withPartial({ partial, ...chain }: ChainSupply): ChainSupply {
+    return chain.tokens.some((token) => token.status?.state === 'error') ? { ...chain, partial: true } : chain;
+}
+
+/** Flag live readings whose on-chain decimals differ from the registry's expected ones */
+function checkDecimals(adapter: ChainAdapter, tokens: TokenSupply[]): TokenSupply[] {
+    const expected = new Map(adapter.tokens.map((token) => [token.symbol, token.decimals]));
+    return tokens.map((token) => {
+        const registry = expected.get(token.symbol);
+        if (registry === undefined || token.decimals === undefined || token.decimals === registry) return token;
+        console.warn(`${adapter.label} ${token.symbol} has ${token.decimals} decimals on chain, ${registry} in the registry`);
+        return { ...token, registryDecimals: registry };
+    });
+}
+
+/** Registry entries for a chain, in the token shape its adapter reads */
+function registryTokens(adapter: ChainAdapter, registry: TokenEntry[]): Array<EthToken | SolToken> {
+    return registry
+        .filter((entry) => entry.chain === adapter.name)
+        .map((entry) =>
+            adapter.kind === 'solana'
+                ? { symbol: entry.symbol, mint: entry.mint, decimals: entry.decimals }
+                : { symbol: entry.symbol, address: entry.address, decimals: entry.decimals, deployBlock: entry.deployBlock }
+        );
+}
+
+/** Every registered adapter, loaded with its tokens from the registry */
+export function registryAdapters(registry: TokenEntry[]): ChainAdapter[] {
+    return CHAIN_ADAPTERS.map((base) => base.withTokens(registryTokens(base, registry)));
+}
+
+/** Options for a full read of every chain */
+export interface FetchOptions {
+    quorum?: boolean;
+    pins?: Record<string, ReadPin>; // per chain name
+    // Serves a past reading when the adapter cannot (see HistoricalReadError)
+    historical?: (chain: string, timestamp: number, slot?: number) => Promise<ChainSupply | null>;
+    // Serves the last good reading of an unpinned chain whose live read failed
+    lastGood?: (chain: string) => Promise<ChainSupply | null>;
+}
+
+/** Split an adapter's readings into active and deprecated tokens per the registry */
+function splitDeprecated(chain: ChainSupply, adapter: ChainAdapter, registry: TokenEntry[]): ChainSupply {
+    const deprecated = new Set(
+        registry.filter((entry) => entry.chain === adapter.name && entry.status === 'deprecated').map((entry) => entry.symbol)
+    );
+    if (!deprecated.size) return chain;
+    const tokens = chain.tokens.filter((token) => !deprecated.has(token.symbol));
+    return {
+        ...chain,
+        tokens,
+        total: calculateTotal(tokens),
+        deprecated: chain.tokens.filter((token) => deprecated.has(token.symbol)),
+    };
+}
+
+/** The last good reading of an unpinned chain, marked stale; null for pinned reads or when there is none */
+async function lastGoodChain(adapter: ChainAdapter, options: FetchOptions, pin: ReadPin | undefined, error: string): Promise<ChainSupply | null> {
+    if (pin || !options.lastGood) return null;
+    const stored = await options.lastGood(adapter.name);
+    return stored ? asStale(stored, error) : null;
+}
+
+/**
+ * Read one chain. A failed read (a thrown error, or every token in error) of an unpinned chain serves the last good
+ * reading marked stale rather than publishing zeros; pinned reads fall back to stored history instead.
+ */
+export async function fetchChain(adapter: ChainAdapter, options: FetchOptions): Promise<ChainSupply> {
+    const pin = options.pins?.[adapter.name];
+    try {
+        const { tokens, context } = await timed(
+            adapter.name,
+            () => adapter.fetchSupplies(pin),
+            (result) => result.tokens.some((token) => token.status?.state === 'error')
+        );
+        if (tokens.length && tokens.every((token) => token.status?.state === 'error')) {
+            const error = `Every token read failed: ${tokens[0].status.reason || 'unknown error'}`;
+            return (await lastGoodChain(adapter, options, pin, error)) ?? { label: adapter.label, tokens, total: calculateTotal(tokens), context, error };
+        }
+        return { label: adapter.label, tokens: checkDecimals(adapter, tokens), total: calculateTotal(tokens), context };
+    } catch (err) {
+        if (err instanceof HistoricalReadError && options.historical) {
+            const stored = await options.historical(adapter.name, err.timestamp, err.slot);
+            if (stored) return stored;
+        }
+        console.error(`${adapter.label} fetch failed:`, err);
+        const error = errorReason(err);
+        const tokens = zeroSupplies(adapter, error);
+        return (await lastGoodChain(adapter, options, pin, error)) ?? { label: adapter.label, tokens, total: calculateTotal(tokens), error };
+    }
+}
+
+/** Cross-check every quorum provider and publish the consensus supply */
+async function fetchChainQuorum(adapter: ChainAdapter, options: FetchOptions): Promise<ChainSupply> {
+    try {
+        const { readings, context } = await timed(adapter.name, () => adapter.fetchQuorum(options.pins?.[adapter.name]));
+        const { tokens, providers, disagreements } = resolveQuorum(zeroSupplies(adapter), readings);
+        if (disagreements.length) console.warn(`${adapter.label} providers disagree on:`, disagreements);
+        return { label: adapter.label, tokens: checkDecimals(adapter, tokens), total: calculateTotal(tokens), context, quorum: { providers, disagreements } };
+    } catch (err) {
+        if (!(err instanceof HistoricalReadError)) console.error(`${adapter.label} quorum fetch failed:`, err);
+        return fetchChain(adapter, options);
+    }
+}
+
+/** Fetch every registered chain; a failing chain reports zero supplies instead of failing the payload */
+export async function fetchAllChains(registry: TokenEntry[], options: FetchOptions = {}): Promise<Record<string, ChainSupply>> {
+    const results = await Promise.all(
+        registryAdapters(registry).map(async (adapter) => {
+            const chain = await (options.quorum ? fetchChainQuorum(adapter, options) : fetchChain(adapter, options));
+            // Snapshots already hold the split as it was when they were stored
+            return [adapter.name, withPartial(chain.context?.source === 'snapshot' ? chain : splitDeprecated(chain, adapter, registry))] as const;
+        })
+    );
+    return Object.fromEntries(results);
+}
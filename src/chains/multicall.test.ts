@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { aggregate3, decodeAggregate3, encodeAggregate3, MULTICALL3_ADDRESS, type Call3, type Call3Result } from './multicall';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+const WBTC = '0x2260fac5e5542a773aa44fbcfedf7c193bc2c599';
+const TOTAL_SUPPLY = '0x18160ddd';
+
+function word(value: bigint | number): string {
+    return BigInt(value).toString(16).padStart(64, '0');
+}
+
+/** ABI-encode `(bool, bytes)[]` the way Multicall3 returns it, independently of the decoder under test */
+function encodeResults(results: Call3Result[]): string {
+    const tuples = results.map(({ success, returnData }) => {
+        const data = returnData.slice(2);
+        return word(success ? 1 : 0) + word(0x40) + word(data.length / 2) + data.padEnd(Math.ceil(data.length / 64) * 64, '0');
+    });
+    let offset = results.length * 32;
+    const offsets = tuples.map((tuple) => {
+        const current = offset;
+        offset += tuple.length / 2;
+        return word(current);
+    });
+    return '0x' + word(0x20) + word(results.length) + offsets.join('') + tuples.join('');
+}
+
+/** Read `aggregate3` calldata back into calls, following the ABI offsets */
+function decodeCalls(calldata: string): Call3[] {
+    const data = calldata.slice(10); // selector
+    const read = (byte: number) => BigInt('0x' + data.slice(byte * 2, byte * 2 + 64));
+    const start = Number(read(0));
+    return Array.from({ length: Number(read(start)) }, (_, i) => {
+        const tuple = start + 32 + Number(read(start + 32 + i * 32));
+        const bytes = tuple + Number(read(tuple + 64));
+        const length = Number(read(bytes));
+        return {
+            target: '0x' + data.slice(tuple * 2 + 24, tuple * 2 + 64),
+            allowFailure: read(tuple + 32) === 1n,
+            callData: '0x' + data.slice((bytes + 32) * 2, (bytes + 32 + length) * 2),
+        };
+    });
+}
+
+/** `Error(string)` revert data, as a failed sub-call returns it */
+function revertData(message: string): string {
+    const hex = [...new TextEncoder().encode(message)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+    return '0x08c379a0' + word(0x20) + word(hex.length / 2) + hex.padEnd(Math.ceil(hex.length / 64) * 64, '0');
+}
+
+describe('encodeAggregate3', () => {
+    it('encodes a single call', () => {
+        const expected = ['0x82ad56cb', word(0x20), word(1), word(0x20), WBTC.slice(2).padStart(64, '0'), word(1), word(0x60), word(4), '18160ddd'.padEnd(64, '0')];
+        expect(encodeAggregate3([{ target: WBTC, callData: TOTAL_SUPPLY }])).toBe(expected.join(''));
+    });
+
+    it('round-trips calls with dynamic calldata of any length', () => {
+        const calls: Call3[] = [
+            { target: WBTC, callData: TOTAL_SUPPLY, allowFailure: true },
+            { target: `0x${'ab'.repeat(20)}`, callData: '0x70a08231' + word(0xdead), allowFailure: false },
+            { target: `0x${'01'.repeat(20)}`, callData: '0x', allowFailure: true },
+        ];
+        expect(decodeCalls(encodeAggregate3(calls))).toEqual(calls);
+    });
+});
+
+describe('decodeAggregate3', () => {
+    it('round-trips successful, failed and empty results', () => {
+        const results: Call3Result[] = [
+            { success: true, returnData: '0x' + word(2_100_000_000_000_000n) },
+            { success: false, returnData: revertData('Pausable: paused, and a reason longer than one word') },
+            { success: true, returnData: '0x' },
+        ];
+        expect(decodeAggregate3(encodeResults(results))).toEqual(results);
+        expect(decodeAggregate3(encodeResults([]))).toEqual([]);
+    });
+});
+
+describe('aggregate3', () => {
+    function stubRpc(result: unknown) {
+        const bodies: Array<{ params: [{ to: string; data: string }, string] }> = [];
+        vi.stubGlobal('fetch', async (_url: string, init: RequestInit) => {
+            bodies.push(JSON.parse(String(init.body)));
+            return new Response(JSON.stringify({ jsonrpc: '2.0', id: 'aggregate3', ...(result instanceof Error ? { error: { message: result.message } } : { result }) }));
+        });
+        return bodies;
+    }
+
+    it('calls Multicall3 at the block and keeps failed sub-calls', async () => {
+        const results: Call3Result[] = [
+            { success: true, returnData: '0x' + word(8) },
+            { success: false, returnData: revertData('nope') },
+        ];
+        const calls: Call3[] = [
+            { target: WBTC, callData: TOTAL_SUPPLY },
+            { target: WBTC, callData: '0x313ce567' },
+        ];
+        const bodies = stubRpc(encodeResults(results));
+        expect(await aggregate3('https://rpc.example/multicall', calls, '0x10')).toEqual(results);
+        expect(bodies[0].params).toEqual([{ to: MULTICALL3_ADDRESS, data: encodeAggregate3(calls) }, '0x10']);
+    });
+
+    it('throws on RPC errors, empty data and a result count mismatch', async () => {
+        const call: Call3 = { target: WBTC, callData: TOTAL_SUPPLY };
+        stubRpc(new Error('execution reverted'));
+        await expect(aggregate3('https://rpc.example/multicall', [call])).rejects.toThrow('aggregate3 failed: execution reverted');
+        stubRpc('0x');
+        await expect(aggregate3('https://rpc.example/multicall', [call])).rejects.toThrow('aggregate3 returned no data');
+        stubRpc(encodeResults([]));
+        await expect(aggregate3('https://rpc.example/multicall', [call])).rejects.toThrow('aggregate3 returned 0 results for 1 calls');
+    });
+});
@@ -0,0 +1,109 @@
+import type { JsonRpcResponse } from '../types';
+
+// === Multicall3 ===
+/** Multicall3 is deployed at the same address on every supported EVM chain */
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+const AGGREGATE3_SIG = '0x82ad56cb'; // aggregate3((address,bool,bytes)[])
+
+/** A single call inside an `aggregate3` batch */
+export interface Call3 {
+    target: string;
+    callData: string;
+    allowFailure?: boolean;
+}
+
+/** Result of a single call inside an `aggregate3` batch */
+export interface Call3Result {
+    success: boolean;
+    returnData: string; // 0x-prefixed hex
+}
+
+// === ABI Encoding ===
+function strip0x(hex: string): string {
+    return hex.startsWith('0x') ? hex.slice(2) : hex;
+}
+
+function encodeWord(value: bigint | number): string {
+    return BigInt(value).toString(16).padStart(64, '0');
+}
+
+function encodeBytes(hex: string): string {
+    const data = strip0x(hex);
+    const padded = data.padEnd(Math.ceil(data.length / 64) * 64, '0');
+    return encodeWord(data.length / 2) + padded;
+}
+
+/** ABI-encode calldata for `aggregate3(Call3[])` */
+export function encodeAggregate3(calls: Call3[]): string {
+    const tuples = calls.map(
+        (call) =>
+            strip0x(call.target).toLowerCase().padStart(64, '0') +
+            encodeWord(call.allowFailure === false ? 0 : 1) +
+            encodeWord(0x60) + // bytes offset, relative to tuple start
+            encodeBytes(call.callData)
+    );
+
+    let offset = calls.length * 32;
+    const offsets = tuples.map((tuple) => {
+        const current = offset;
+        offset += tuple.length / 2;
+        return encodeWord(current);
+    });
+
+    return AGGREGATE3_SIG + encodeWord(0x20) + encodeWord(calls.length) + offsets.join('') + tuples.join('');
+}
+
+/** ABI-decode the `(bool success, bytes returnData)[]` returned by `aggregate3` */
+export function decodeAggregate3(result: string): Call3Result[] {
+    const data = strip0x(result);
+    const readWord = (byteOffset: number): bigint => BigInt('0x' + data.slice(byteOffset * 2, byteOffset * 2 + 64));
+
+    const arrayStart = Number(readWord(0));
+    const length = Number(readWord(arrayStart));
+    const elementsStart = arrayStart + 32;
+
+    const results: Call3Result[] = [];
+    for (let i = 0; i < length; i++) {
+        const tupleStart = elementsStart + Number(readWord(elementsStart + i * 32));
+        const success = readWord(tupleStart) !== 0n;
+        const bytesStart = tupleStart + Number(readWord(tupleStart + 32));
+        const bytesLength = Number(readWord(bytesStart));
+        const returnData = data.slice((bytesStart + 32) * 2, (bytesStart + 32 + bytesLength) * 2);
+        results.push({ success, returnData: '0x' + returnData });
+    }
+    return results;
+}
+
+// === RPC ===
+/** Run a batch of calls through Multicall3 in a single `eth_call` */
+export async function aggregate3(rpcUrl: string, calls: Call3[], blockTag: string = 'latest'): Promise<Call3Result[]> {
+    const req = {
+        jsonrpc: '2.0',
+        id: 'aggregate3',
+        method: 'eth_call',
+        params: [{ to: MULTICALL3_ADDRESS, data: encodeAggregate3(calls) }, blockTag],
+    };
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), 5000);
+    try {
+        const resp = await fetch(rpcUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(req),
+            signal: controller.signal,
+        });
+        if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+        const res: JsonRpcResponse<unknown> = await resp.json();
+        if (res.error) throw new Error(`aggregate3 failed: ${res.error.message || JSON.stringify(res.error)}`);
+        if (typeof res.result !== 'string' || res.result === '0x') throw new Error('aggregate3 returned no data');
+
+        const results = decodeAggregate3(res.result);
+        if (results.length !== calls.length) {
+            throw new Error(`aggregate3 returned ${results.length} results for ${calls.length} calls`);
+        }
+        return results;
+    } finally {
+        clearTimeout(timeout);
+    }
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { decodeMintBurn } from './solana';
+
+const CBBTC = { symbol: 'cbBTC', mint: 'cbbtcf3aa214zXHbiAZQwf4122FBYbraNdFqgw4iMij', decimals: 8 };
+
+function instruction(type: string, info: object, program = 'spl-token') {
+    return { program, parsed: { type, info: { mint: CBBTC.mint, ...info } } };
+}
+
+function tx(instructions: object[], inner: object[] = []) {
+    return {
+        slot: 300_000_000,
+        blockTime: 1_700_000_000,
+        transaction: { message: { instructions } },
+        meta: { innerInstructions: inner.length ? [{ index: 0, instructions: inner }] : [], postTokenBalances: [] },
+    };
+}
+
+describe('decodeMintBurn', () => {
+    it('decodes top-level and inner mints and burns', () => {
+        const events = decodeMintBurn(
+            'solana',
+            CBBTC,
+            'sig1',
+            tx(
+                [instruction('mintTo', { amount: '150000000', account: 'dest' }), { program: 'system', parsed: { type: 'transfer', info: {} } }],
+                [instruction('burnChecked', { tokenAmount: { amount: '25000000', decimals: 8 }, account: 'src' }, 'spl-token-2022')]
+            )
+        );
+        expect(events.map(({ id, kind, amount, raw, account }) => ({ id, kind, amount, raw, account }))).toEqual([
+            { id: 'solana:sig1:0', kind: 'mint', amount: '1.5', raw: '150000000', account: 'dest' },
+            { id: 'solana:sig1:2', kind: 'burn', amount: '0.25', raw: '25000000', account: 'src' },
+        ]);
+        expect(events[0]).toMatchObject({ chain: 'solana', symbol: 'cbBTC', txHash: 'sig1', block: 300_000_000, timestamp: 1_700_000_000_000 });
+    });
+
+    it('ignores other mints, other instructions and missing transactions', () => {
+        const other = { program: 'spl-token', parsed: { type: 'mintTo', info: { mint: 'other', amount: '1' } } };
+        expect(decodeMintBurn('solana', CBBTC, 'sig', tx([other, instruction('transfer', { amount: '1' })]))).toEqual([]);
+        expect(decodeMintBurn('solana', CBBTC, 'sig', null)).toEqual([]);
+    });
+});
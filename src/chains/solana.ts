@@ -0,0 +1,346 @@
+import { CONFIG } from '../config';
+import { providerLabel, quorumProviders, readProvider } from '../quorum';
+import type { ChainAdapter, EventCursor, JsonRpcResponse, ProviderReading, ReadContext, ReadPin, RpcConfig, SolToken, SupplyEvent, TokenHolders, TokenSupply } from '../types';
+import { errorReason, formatUnits, HistoricalReadError, jsonRpcBatch, sourceStatus, tokenAmount, withRetry } from '../utils';
+import { decodeMint } from './spl';
+
+// === Solana Fetch ===
+const SLOT_MS = 400; // Approximate slot time, used when getBlockTime is unavailable
+const PIN_TOLERANCE = 60_000; // ms; timestamps this recent are read from the current state
+
+/** One JSON-RPC call; `T` is the result type of `method` */
+async function solRpc<T>(rpcUrl: string, method: string, params: unknown[]): Promise<T> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), 5000);
+    try {
+        const resp = await fetch(rpcUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+            signal: controller.signal,
+        });
+        if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+        const res: JsonRpcResponse<T> = await resp.json();
+        if (res.error || res.result == null) throw new Error(`${method} failed: ${res.error?.message || 'No result'}`);
+        return res.result;
+    } finally {
+        clearTimeout(timeout);
+    }
+}
+
+/**
+ * Solana RPC only serves current account state. Returns the `minContextSlot` for a pin at or ahead of
+ * the finalized slot, and throws HistoricalReadError for a pin in the past.
+ */
+async function checkPin(label: string, rpcUrl: string, pin?: ReadPin): Promise<number | undefined> {
+    if (pin?.slot === undefined && pin?.timestamp === undefined) return undefined;
+    if (pin.slot === undefined) {
+        if (pin.timestamp < Date.now() - PIN_TOLERANCE) throw new HistoricalReadError(label, pin.timestamp);
+        return undefined;
+    }
+
+    const current = await solRpc<number>(rpcUrl, 'getSlot', [{ commitment: 'finalized' }]);
+    if (pin.slot >= current) return pin.slot;
+    const blockTime = await solRpc<number>(rpcUrl, 'getBlockTime', [pin.slot]).catch((): number | null => null);
+    const timestamp = blockTime !== null ? blockTime * 1000 : Date.now() - (current - pin.slot) * SLOT_MS;
+    throw new HistoricalReadError(label, timestamp, pin.slot);
+}
+
+/** A base64-encoded account from `getMultipleAccounts`; `data` is `[payload, encoding]` */
+interface RawAccount {
+    data: [string, string];
+    owner: string;
+}
+
+type MintAccountsResponse = JsonRpcResponse<{ context?: { slot: number }; value: Array<RawAccount | null> }>;
+
+async function fetchMintAccounts(rpcUrl: string, tokens: SolToken[], config: Record<string, unknown> = {}): Promise<MintAccountsResponse> {
+    const mints = tokens.map((t: SolToken) => t.mint);
+    const req = {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'getMultipleAccounts',
+        params: [mints, { encoding: 'base64', ...config }],
+    };
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), 5000);
+    try {
+        const resp = await fetch(rpcUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(req),
+            signal: controller.signal,
+        });
+        if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+        return resp.json<MintAccountsResponse>();
+    } finally {
+        clearTimeout(timeout);
+    }
+}
+
+/** Supply fields of a base64 mint account; throws when the account is missing or not an initialized mint */
+function decodeMintSupply(acc: RawAccount | null): Pick<TokenSupply, 'supply' | 'raw' | 'decimals' | 'splMint'> {
+    if (!acc?.data) throw new Error('Mint account not found');
+    const data = Uint8Array.from(atob(acc.data[0]), (c) => c.charCodeAt(0));
+    const { supply, decimals, ...splMint } = decodeMint(acc.owner, data);
+    return { ...tokenAmount(supply, decimals), splMint };
+}
+
+async function fetchSolanaSupplies(
+    label: string,
+    rpc: RpcConfig,
+    tokens: SolToken[],
+    pin?: ReadPin
+): Promise<{ tokens: TokenSupply[]; context?: ReadContext }> {
+    const start = performance.now();
+    const minContextSlot = await checkPin(label, rpc.primary, pin);
+    const res = await withRetry(() =>
+        fetchMintAccounts(rpc.primary, tokens, { commitment: 'finalized', ...(minContextSlot !== undefined ? { minContextSlot } : {}) })
+    );
+
+    if (!res.result?.value) {
+        console.error('Solana RPC failed:', res.error || 'No result');
+        const status = sourceStatus('error', `getMultipleAccounts failed: ${res.error?.message || 'No result'}`);
+        return { tokens: tokens.map((token) => ({ symbol: token.symbol, supply: '0', mint: token.mint, status })) };
+    }
+
+    const accounts = res.result.value;
+    const supplies: TokenSupply[] = tokens.map((token: SolToken, idx: number) => {
+        try {
+            return { symbol: token.symbol, ...decodeMintSupply(accounts[idx]), mint: token.mint, status: sourceStatus('ok') };
+        } catch (err) {
+            console.error(`Failed to process ${token.symbol}:`, err);
+            return { symbol: token.symbol, supply: '0', mint: token.mint, status: sourceStatus('error', errorReason(err)) };
+        }
+    });
+
+    console.log(`Solana fetch took ${performance.now() - start}ms`);
+    return { tokens: supplies, context: { source: 'rpc', slot: res.result.context?.slot } };
+}
+
+/**
+ * Read every quorum provider at finalized commitment. Solana RPC cannot serve historical account
+ * state, so each provider answers at its own finalized slot (reported as `height`).
+ */
+async function fetchSolanaQuorum(
+    label: string,
+    rpc: RpcConfig,
+    tokens: SolToken[],
+    pin?: ReadPin
+): Promise<{ readings: ProviderReading[]; context?: ReadContext }> {
+    const minContextSlot = await checkPin(label, rpc.primary, pin);
+    const readings = await Promise.all(
+        quorumProviders(rpc).map((url) =>
+            readProvider(url, async () => {
+                const res = await fetchMintAccounts(url, tokens, {
+                    commitment: 'finalized',
+                    ...(minContextSlot !== undefined ? { minContextSlot } : {}),
+                });
+                if (!res.result?.value) throw new Error(res.error?.message || 'No result');
+                return {
+                    height: res.result.context?.slot ?? null,
+                    supplies: tokens.map((token, idx) => {
+                        try {
+                            return decodeMintSupply(res.result.value[idx]);
+                        } catch (err) {
+                            console.warn(`Failed to process ${token.symbol} at ${providerLabel(url)}:`, err);
+                            return null;
+                        }
+                    }),
+                };
+            })
+        )
+    );
+    const slots = readings.map((reading) => reading.height).filter((height) => height !== null);
+    return { readings, context: slots.length ? { source: 'rpc', slot: Math.min(...slots) } : undefined };
+}
+
+// === Mint/Burn Events ===
+const SIGNATURE_PAGE = 1000; // getSignaturesForAddress maximum
+const MAX_SIGNATURE_PAGES = 10; // Pages walked back to the cursor before the oldest are skipped
+const TOKEN_PROGRAMS = new Set(['spl-token', 'spl-token-2022']);
+const MINT_INSTRUCTIONS = new Set(['mintTo', 'mintToChecked']);
+const BURN_INSTRUCTIONS = new Set(['burn', 'burnChecked']);
+
+/** `getSignaturesForAddress` entry, the fields read here */
+interface SignatureInfo {
+    signature: string;
+    err: unknown;
+}
+
+/**
+ * Successful transactions touching `mint` after `until`, oldest first, at most EVENTS_SOL_MAX_TRANSACTIONS.
+ * Without `until` (first run) only the latest ones are taken.
+ */
+async function pendingSignatures(rpcUrl: string, mint: string, until?: string): Promise<{ signatures: SignatureInfo[]; last?: string }> {
+    const newestFirst: SignatureInfo[] = [];
+    let before: string | undefined;
+    let pages = 0;
+    do {
+        const page = await solRpc<SignatureInfo[]>(rpcUrl, 'getSignaturesForAddress', [
+            mint,
+            { commitment: 'finalized', limit: SIGNATURE_PAGE, ...(until ? { until } : {}), ...(before ? { before } : {}) },
+        ]);
+        newestFirst.push(...page);
+        before = page.length === SIGNATURE_PAGE ? page[page.length - 1].signature : undefined;
+    } while (until && before && ++pages < MAX_SIGNATURE_PAGES);
+    if (until && before) console.warn(`More than ${newestFirst.length} transactions for ${mint} since ${until}; skipping the older ones`);
+
+    const batch = until
+        ? newestFirst.reverse().slice(0, CONFIG.EVENTS_SOL_MAX_TRANSACTIONS)
+        : newestFirst.slice(0, CONFIG.EVENTS_SOL_MAX_TRANSACTIONS).reverse();
+    return { signatures: batch.filter((sig) => sig.err === null), last: batch[batch.length - 1]?.signature };
+}
+
+/** A jsonParsed instruction; only token program instructions carry `parsed` */
+interface ParsedInstruction {
+    program?: string;
+    parsed?: {
+        type: string;
+        info: { mint?: string; account?: string; amount?: string; tokenAmount?: { amount: string; decimals: number } };
+    };
+}
+
+/** `getTransaction` result with jsonParsed encoding, the fields read here */
+export interface ParsedTransaction {
+    slot: number;
+    blockTime?: number | null;
+    transaction?: { message?: { instructions: ParsedInstruction[] } };
+    meta?: {
+        innerInstructions?: Array<{ instructions: ParsedInstruction[] }>;
+        postTokenBalances?: Array<{ mint: string; uiTokenAmount?: { decimals: number } }>;
+    } | null;
+}
+
+/** MintTo/Burn instructions (top-level and inner) for `token` in a jsonParsed transaction */
+export function decodeMintBurn(chain: string, token: SolToken, signature: string, tx: ParsedTransaction | null): SupplyEvent[] {
+    const message = tx?.transaction?.message;
+    if (!message) return [];
+    const instructions = [
+        ...message.instructions,
+        ...(tx.meta?.innerInstructions || []).flatMap((inner) => inner.instructions),
+    ];
+    const balance = (tx.meta?.postTokenBalances || []).find((b) => b.mint === token.mint);
+    return instructions.flatMap((ix, index): SupplyEvent[] => {
+        const info = ix.parsed?.info;
+        if (!TOKEN_PROGRAMS.has(ix.program) || info?.mint !== token.mint) return [];
+        const kind = MINT_INSTRUCTIONS.has(ix.parsed.type) ? 'mint' : BURN_INSTRUCTIONS.has(ix.parsed.type) ? 'burn' : null;
+        if (!kind) return [];
+        const raw = BigInt(info.tokenAmount?.amount ?? info.amount);
+        const decimals = info.tokenAmount?.decimals ?? balance?.uiTokenAmount?.decimals ?? token.decimals ?? 8;
+        return [
+            {
+                id: `${chain}:${signature}:${index}`,
+                chain,
+                symbol: token.symbol,
+                kind,
+                amount: formatUnits(raw, decimals),
+                raw: raw.toString(),
+                decimals,
+                account: info.account ?? null,
+                txHash: signature,
+                block: tx.slot,
+                timestamp: (tx.blockTime ?? Math.floor(Date.now() / 1000)) * 1000,
+            },
+        ];
+    });
+}
+
+/**
+ * Mints and burns per mint since the signature in `cursor`. Mints are read one at a time; one that fails keeps
+ * its cursor and is retried on the next run.
+ */
+async function fetchSolanaEvents(
+    chain: string,
+    label: string,
+    rpc: RpcConfig,
+    tokens: SolToken[],
+    cursor: EventCursor | null
+): Promise<{ events: SupplyEvent[]; cursor: EventCursor }> {
+    const next: EventCursor = { ...cursor };
+    const events: SupplyEvent[] = [];
+    for (const token of tokens) {
+        try {
+            const { signatures, last } = await withRetry(() => pendingSignatures(rpc.primary, token.mint, cursor?.[token.mint]));
+            const txs = await withRetry(() =>
+                jsonRpcBatch<ParsedTransaction>(
+                    rpc.primary,
+                    signatures.map((sig) => ({
+                        method: 'getTransaction',
+                        params: [sig.signature, { encoding: 'jsonParsed', commitment: 'finalized', maxSupportedTransactionVersion: 0 }],
+                    }))
+                )
+            );
+            events.push(...txs.flatMap((tx, i) => decodeMintBurn(chain, token, signatures[i].signature, tx)));
+            if (last) next[token.mint] = last;
+        } catch (err) {
+            console.warn(`${label} event indexing failed for ${token.symbol}:`, err);
+        }
+    }
+    return { events: events.sort((a, b) => a.block - b.block), cursor: next };
+}
+
+// === Holders ===
+/**
+ * Largest holders of one mint. RPC only lists the 20 largest token accounts, so the result is never complete;
+ * accounts are grouped by owner so a holder with several accounts counts once.
+ */
+async function fetchMintHolders(rpcUrl: string, token: SolToken): Promise<TokenHolders> {
+    const [supply, largest] = await Promise.all([
+        withRetry(() => solRpc<{ value: { amount: string; decimals: number } }>(rpcUrl, 'getTokenSupply', [token.mint, { commitment: 'finalized' }])),
+        withRetry(() =>
+            solRpc<{ value: Array<{ address: string; amount: string }> }>(rpcUrl, 'getTokenLargestAccounts', [token.mint, { commitment: 'finalized' }])
+        ),
+    ]);
+    const accounts = largest.value.filter((account) => account.amount !== '0');
+    const parsed = accounts.length
+        ? await withRetry(() =>
+              solRpc<{ value: Array<{ data?: { parsed?: { info?: { owner?: string } } } } | null> }>(rpcUrl, 'getMultipleAccounts', [accounts.map((account) => account.address), { encoding: 'jsonParsed', commitment: 'finalized' }])
+          )
+        : { value: [] };
+
+    const balances = new Map<string, bigint>();
+    accounts.forEach((account, idx) => {
+        const owner: string = parsed.value[idx]?.data?.parsed?.info?.owner ?? account.address;
+        balances.set(owner, (balances.get(owner) ?? 0n) + BigInt(account.amount));
+    });
+    return {
+        symbol: token.symbol,
+        decimals: supply.value.decimals,
+        supply: supply.value.amount,
+        balances: Object.fromEntries([...balances].map(([owner, balance]) => [owner, balance.toString()])),
+        complete: false,
+        cursor: {},
+    };
+}
+
+/** Largest holders per mint; a mint that fails keeps its previous holders */
+async function fetchSolanaHolders(label: string, rpc: RpcConfig, tokens: SolToken[], previous: TokenHolders[] | null): Promise<TokenHolders[]> {
+    const holders: TokenHolders[] = [];
+    for (const token of tokens) {
+        try {
+            holders.push(await fetchMintHolders(rpc.primary, token));
+        } catch (err) {
+            console.warn(`${label} holder read failed for ${token.symbol}:`, err);
+            const kept = previous?.find((entry) => entry.symbol === token.symbol);
+            if (kept) holders.push(kept);
+        }
+    }
+    return holders;
+}
+
+/** Adapter for Solana reading SPL Token and Token-2022 mint accounts via `getMultipleAccounts` */
+export function solanaChain(config: { name: string; label: string; explorer: string; rpc: RpcConfig; tokens?: SolToken[] }): ChainAdapter<SolToken> {
+    const tokens = config.tokens || [];
+    return {
+        ...config,
+        kind: 'solana',
+        tokens,
+        withTokens: (next) => solanaChain({ ...config, tokens: next }),
+        fetchSupplies: (pin) => fetchSolanaSupplies(config.label, config.rpc, tokens, pin),
+        fetchQuorum: (pin) => fetchSolanaQuorum(config.label, config.rpc, tokens, pin),
+        fetchEvents: (cursor) => fetchSolanaEvents(config.name, config.label, config.rpc, tokens, cursor),
+        fetchHolders: (previous) => fetchSolanaHolders(config.label, config.rpc, tokens, previous),
+    };
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { decodeMint, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from './spl';
+
+/** The Token program id's key bytes, so its base58 form is known */
+const TOKEN_KEY = Uint8Array.from('06ddf6e1d765a193d9cbe146ceeb79ac1cb485ed5f5b37913a8cf5857eff00a9'.match(/../g), (byte) => parseInt(byte, 16));
+const DELEGATE_KEY = new Uint8Array(32).fill(7);
+const DELEGATE = 'US517G5965aydkZ46HS38QLi7UQiSojurfbQfKCELFx';
+
+/** An 82-byte mint: COption mint authority, u64 supply, decimals, initialized flag, COption freeze authority */
+function mint({ supply = 0n, decimals = 8, mintAuthority = null as Uint8Array | null, freezeAuthority = null as Uint8Array | null, initialized = true } = {}) {
+    const data = new Uint8Array(82);
+    const view = new DataView(data.buffer);
+    if (mintAuthority) {
+        view.setUint32(0, 1, true);
+        data.set(mintAuthority, 4);
+    }
+    view.setBigUint64(36, supply, true);
+    data[44] = decimals;
+    data[45] = initialized ? 1 : 0;
+    if (freezeAuthority) {
+        view.setUint32(46, 1, true);
+        data.set(freezeAuthority, 50);
+    }
+    return data;
+}
+
+/** A Token-2022 mint padded to 165 bytes, the mint account type byte, then `extensions` as TLV entries */
+function withExtensions(base: Uint8Array, extensions: Array<[type: number, value: Uint8Array]>, trailing = 0) {
+    const tlv = extensions.flatMap(([type, value]) => [type & 0xff, type >> 8, value.length & 0xff, value.length >> 8, ...value]);
+    const data = new Uint8Array(166 + tlv.length + trailing);
+    data.set(base);
+    data[165] = 1;
+    data.set(tlv, 166);
+    return data;
+}
+
+describe('decodeMint', () => {
+    it('decodes an SPL Token mint', () => {
+        expect(decodeMint(TOKEN_PROGRAM_ID, mint({ supply: 2n ** 40n + 5n, decimals: 8, mintAuthority: TOKEN_KEY }))).toEqual({
+            program: 'spl-token',
+            supply: 2n ** 40n + 5n,
+            decimals: 8,
+            mintAuthority: TOKEN_PROGRAM_ID,
+            freezeAuthority: null,
+            extensions: [],
+        });
+        const frozen = decodeMint(TOKEN_2022_PROGRAM_ID, mint({ freezeAuthority: DELEGATE_KEY }));
+        expect(frozen).toMatchObject({ program: 'token-2022', mintAuthority: null, freezeAuthority: DELEGATE, extensions: [] });
+    });
+
+    it('rejects accounts of other programs', () => {
+        expect(() => decodeMint('11111111111111111111111111111111', mint())).toThrow('not a token program');
+    });
+
+    it('rejects uninitialized mints and bad option tags', () => {
+        expect(() => decodeMint(TOKEN_PROGRAM_ID, mint({ initialized: false }))).toThrow('Mint is not initialized');
+        const data = mint();
+        data[0] = 2;
+        expect(() => decodeMint(TOKEN_PROGRAM_ID, data)).toThrow('Invalid mint authority option tag 2');
+    });
+
+    it('rejects truncated and malformed accounts', () => {
+        expect(() => decodeMint(TOKEN_PROGRAM_ID, mint().subarray(0, 81))).toThrow('Not a mint account (81 bytes)');
+        expect(() => decodeMint(TOKEN_2022_PROGRAM_ID, withExtensions(mint(), []).subarray(0, 165))).toThrow('Not a mint account (165 bytes)');
+        const truncated = withExtensions(mint(), [[12, DELEGATE_KEY]]);
+        expect(() => decodeMint(TOKEN_2022_PROGRAM_ID, truncated.subarray(0, truncated.length - 1))).toThrow('Truncated extension 12');
+        const padded = withExtensions(mint(), []);
+        padded[100] = 1;
+        expect(() => decodeMint(TOKEN_2022_PROGRAM_ID, padded)).toThrow('Malformed Token-2022 mint padding');
+        const token = withExtensions(mint(), []);
+        token[165] = 2; // Token account type
+        expect(() => decodeMint(TOKEN_2022_PROGRAM_ID, token)).toThrow('Not a mint account');
+    });
+
+    it('decodes Token-2022 extensions and their authorities', () => {
+        const data = withExtensions(
+            mint({ supply: 100n, decimals: 6 }),
+            [
+                [12, DELEGATE_KEY], // PermanentDelegate
+                [3, new Uint8Array(32)], // MintCloseAuthority, none set
+                [9, new Uint8Array(0)], // NonTransferable
+                [99, new Uint8Array(2)],
+            ],
+            8 // Uninitialized TLV padding
+        );
+        expect(decodeMint(TOKEN_2022_PROGRAM_ID, data)).toMatchObject({
+            program: 'token-2022',
+            supply: 100n,
+            decimals: 6,
+            extensions: [
+                { type: 'PermanentDelegate', authority: DELEGATE },
+                { type: 'MintCloseAuthority', authority: null },
+                { type: 'NonTransferable' },
+                { type: 'Unknown(99)' },
+            ],
+        });
+    });
+});
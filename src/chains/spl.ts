@@ -0,0 +1,136 @@
+import type { SplMint } from '../types';
+
+// === Programs ===
+export const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+export const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+
+// === Layout ===
+const MINT_SIZE = 82; // COption<Pubkey> mint authority, u64 supply, u8 decimals, bool initialized, COption<Pubkey> freeze authority
+const ACCOUNT_SIZE = 165; // Token-2022 pads a mint with extensions to the token-account size before its account type byte
+const ACCOUNT_TYPE_MINT = 1;
+
+/** Token-2022 mint extension types by TLV discriminator (account-only extensions never appear on a mint) */
+const EXTENSIONS: Record<number, string> = {
+    1: 'TransferFeeConfig',
+    3: 'MintCloseAuthority',
+    4: 'ConfidentialTransferMint',
+    6: 'DefaultAccountState',
+    9: 'NonTransferable',
+    10: 'InterestBearingConfig',
+    12: 'PermanentDelegate',
+    14: 'TransferHook',
+    16: 'ConfidentialTransferFeeConfig',
+    18: 'MetadataPointer',
+    19: 'TokenMetadata',
+    20: 'GroupPointer',
+    21: 'TokenGroup',
+    22: 'GroupMemberPointer',
+    23: 'TokenGroupMember',
+    24: 'ConfidentialMintBurn',
+    25: 'ScaledUiAmount',
+    26: 'Pausable',
+    28: 'PermissionedBurn',
+};
+
+/** Extensions whose value starts with the 32-byte authority (or delegate) they grant */
+const AUTHORITY_EXTENSIONS = new Set([1, 3, 4, 10, 12, 14, 16, 18, 19, 20, 21, 22, 25, 26, 28]);
+
+// === Encoding ===
+const BASE58 = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/** Base58 address of a 32-byte public key */
+export function encodeBase58(bytes: Uint8Array): string {
+    let value = bytes.reduce((n, byte) => (n << 8n) | BigInt(byte), 0n);
+    let out = '';
+    while (value > 0n) {
+        out = BASE58[Number(value % 58n)] + out;
+        value /= 58n;
+    }
+    for (let i = 0; i < bytes.length && bytes[i] === 0; i++) out = '1' + out;
+    return out;
+}
+
+function readU16(data: Uint8Array, offset: number): number {
+    return data[offset] | (data[offset + 1] << 8);
+}
+
+function readU32(data: Uint8Array, offset: number): number {
+    return (data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16) | (data[offset + 3] << 24)) >>> 0;
+}
+
+function readU64(data: Uint8Array, offset: number): bigint {
+    let value = 0n;
+    for (let i = 0; i < 8; i++) value |= BigInt(data[offset + i]) << (8n * BigInt(i));
+    return value;
+}
+
+/** `COption<Pubkey>`: a u32 tag followed by the key */
+function readOptionalKey(data: Uint8Array, offset: number, field: string): string | null {
+    const tag = readU32(data, offset);
+    if (tag > 1) throw new Error(`Invalid ${field} option tag ${tag}`);
+    return tag === 1 ? encodeBase58(data.subarray(offset + 4, offset + 36)) : null;
+}
+
+/** `OptionalNonZeroPubkey` used by extensions: all zeros means none */
+function readNonZeroKey(data: Uint8Array, offset: number): string | null {
+    const key = data.subarray(offset, offset + 32);
+    return key.some((byte) => byte !== 0) ? encodeBase58(key) : null;
+}
+
+// === Mint ===
+/** A decoded mint account */
+export interface DecodedMint extends SplMint {
+    supply: bigint; // base units
+    decimals: number;
+}
+
+/** Token-2022 TLV entries after the account type byte */
+function decodeExtensions(data: Uint8Array): SplMint['extensions'] {
+    const extensions: SplMint['extensions'] = [];
+    let offset = ACCOUNT_SIZE + 1;
+    while (offset + 4 <= data.length) {
+        const type = readU16(data, offset);
+        const length = readU16(data, offset + 2);
+        if (type === 0) break; // Uninitialized: the rest is padding
+        const start = offset + 4;
+        if (start + length > data.length) throw new Error(`Truncated extension ${type}`);
+        extensions.push({
+            type: EXTENSIONS[type] ?? `Unknown(${type})`,
+            ...(AUTHORITY_EXTENSIONS.has(type) && length >= 32 ? { authority: readNonZeroKey(data, start) } : {}),
+        });
+        offset = start + length;
+    }
+    return extensions;
+}
+
+/**
+ * Decode a mint account owned by the SPL Token or Token-2022 program. Throws when the owner is neither,
+ * the data is not a mint layout, or the mint is uninitialized.
+ */
+export function decodeMint(owner: string, data: Uint8Array): DecodedMint {
+    let program: SplMint['program'];
+    if (owner === TOKEN_PROGRAM_ID) {
+        program = 'spl-token';
+        if (data.length !== MINT_SIZE) throw new Error(`Not a mint account (${data.length} bytes)`);
+    } else if (owner === TOKEN_2022_PROGRAM_ID) {
+        program = 'token-2022';
+        if (data.length !== MINT_SIZE && (data.length <= ACCOUNT_SIZE || data[ACCOUNT_SIZE] !== ACCOUNT_TYPE_MINT)) {
+            throw new Error(`Not a mint account (${data.length} bytes)`);
+        }
+        if (data.length > MINT_SIZE && data.subarray(MINT_SIZE, ACCOUNT_SIZE).some((byte) => byte !== 0)) {
+            throw new Error('Malformed Token-2022 mint padding');
+        }
+    } else {
+        throw new Error(`Account is owned by ${owner}, not a token program`);
+    }
+    if (data[45] !== 1) throw new Error('Mint is not initialized');
+
+    return {
+        program,
+        supply: readU64(data, 36),
+        decimals: data[44],
+        mintAuthority: readOptionalKey(data, 0, 'mint authority'),
+        freezeAuthority: readOptionalKey(data, 46, 'freeze authority'),
+        extensions: data.length > MINT_SIZE ? decodeExtensions(data) : [],
+    };
+}
@@ -0,0 +1,44 @@
+// === Configuration ===
+/** Configuration constants */
+export const CONFIG = {
+    ETH_RPC: 'https://eth-mainnet.g.alchemy.com/v2/9MBCtERqR47MU430jVMJIGtK_mfVBxwf',
+    ETH_RPC_FALLBACK: 'https://eth.llamarpc.com',
+    SOL_RPC: 'https://api.mainnet-beta.solana.com',
+    BTC_API: 'https://api.blockchair.com/bitcoin/stats',
+    BTC_SUPPLY_BLOCKCHAIN_INFO: 'https://blockchain.info/q/totalbc',
+    BTC_SUPPLY_TOLERANCE: 100, // BTC; supply readings further than this from the consensus are flagged
+    BTC_ESPLORA_API: 'https://blockstream.info/api', // Custody balances; override with the BTC_ESPLORA_API variable
+    CACHE_TTL: 3600, // seconds
+    CACHE_STALE_TTL: 86400, // seconds past CACHE_TTL a payload is still served while it refreshes
+    CACHE_DEGRADED_TTL: 60, // seconds, CACHE_TTL for payloads where a chain read failed
+    RETRY_ATTEMPTS: 3,
+    RETRY_DELAY: 1000, // ms
+    QUORUM_MODE: false, // Cross-check all quorum providers; override per request with ?quorum=1 or ?quorum=0
+    RESERVES_MAX_ADDRESSES: 200, // Custody balance lookups per payload, across all issuers, to stay within the subrequest limit
+    RESERVES_CONCURRENCY: 10,
+    RESERVES_TOLERANCE: 0.001, // Ratio below 1 - tolerance is flagged as under-collateralized
+    WEBHOOK_ATTEMPTS: 4,
+    WEBHOOK_RETRY_DELAY: 2000, // ms, doubled after each failed attempt
+    STREAM_POLL_INTERVAL: 15, // seconds between /stream cache checks and heartbeats
+    STREAM_MAX_DURATION: 300, // seconds before /stream closes and the client reconnects
+    STREAM_RETRY: 5000, // ms, reconnect delay advertised to EventSource clients
+    BLOCK_SEARCH_SAMPLE: 10_000, // blocks below the head for the first `?at=` probe, which sets the average block time
+    BLOCK_SEARCH_STEPS: 12, // block probes per `?at=` search before giving up
+    EVENTS_BLOCK_RANGE: 2000, // blocks per eth_getLogs request
+    EVENTS_MAX_RANGES: 10, // eth_getLogs ranges per EVM chain per run; the rest is indexed on later runs
+    EVENTS_CONFIRMATIONS: 12, // blocks behind the head, so logs that may still be reorged are not indexed
+    EVENTS_INITIAL_BLOCKS: 7200, // first run on an EVM chain starts this far back (about a day on Ethereum)
+    EVENTS_SOL_MAX_TRANSACTIONS: 50, // transactions per Solana mint per run
+    HOLDERS_MAX_RANGES: 20, // eth_getLogs ranges per EVM chain per run for the holder balance index
+    HOLDERS_MAX_SPAN: 1_000_000, // blocks; quiet stretches are scanned in doubling ranges up to this
+    HOLDERS_TOP: 50, // largest holders kept per token
+    STAKING_APY: 7, // %, default Solana staking yield before commission
+    STAKING_COMMISSION: 5, // %, default validator commission
+    PROJECTION_DAYS: 730, // default horizon of /api/projection
+    PROJECTION_MAX_DAYS: 3650,
+    PRICE_API: 'https://api.coingecko.com/api/v3', // CoinGecko-compatible; override with the PRICE_API variable (e.g. a local stub)
+    PRICE_API_FALLBACK: 'https://api.coinbase.com/v2/exchange-rates?currency=BTC', // BTC and SOL only
+    PRICE_TTL: 300, // seconds prices are reused across payload builds in one isolate
+    PRICE_STALE_TTL: 86400, // seconds the last prices stand in when every provider fails
+    DEPEG_THRESHOLD: 0.02, // |price in BTC - 1| above this flags a depeg
+};
@@ -0,0 +1,41 @@
+import { OpenAPIRoute } from 'chanfana';
+import { z } from 'zod';
+import { bitcoinSupplySources, fetchBitcoinSupply } from '../bitcoin';
+import { CONFIG } from '../config';
+import { BitcoinSupplySchema, SourceStatusSchema } from '../schemas';
+import type { AppContext } from '../types';
+import { json } from '../utils';
+
+/** `GET /api/v1/btc`: mined bitcoin supply */
+export class BtcFetch extends OpenAPIRoute {
+    schema = {
+        tags: ['Bitcoin'],
+        summary: 'Currently mined BTC',
+        responses: {
+            '200': {
+                description: 'Consensus of the supply sources; "0" with an `error` status when every source is unavailable',
+                content: {
+                    'application/json': {
+                        schema: BitcoinSupplySchema.extend({
+                            currentlyMintedBTC: z.string().describe('Mined BTC, formatted with thousands separators'),
+                            status: SourceStatusSchema,
+                            lastUpdated: z.string(),
+                        }),
+                    },
+                },
+            },
+        },
+    };
+
+    async handle(c: AppContext) {
+        const { value, status, supply } = await fetchBitcoinSupply(bitcoinSupplySources(c.env.BTC_ESPLORA_API || CONFIG.BTC_ESPLORA_API));
+        return json(
+            { currentlyMintedBTC: value, ...supply, status, lastUpdated: new Date().toLocaleString('en-US', { timeZone: 'UTC' }) },
+            200,
+            {
+                'Cache-Control': status.state === 'ok' ? `public, max-age=${CONFIG.CACHE_TTL}, s-maxage=${CONFIG.CACHE_TTL}` : 'no-store',
+                'X-Data-Status': status.state === 'ok' ? 'ok' : 'degraded',
+            }
+        );
+    }
+}
@@ -0,0 +1,35 @@
+import { OpenAPIRoute } from 'chanfana';
+import { z } from 'zod';
+import { cachedPayload, cacheHeaders } from '../cache';
+import { CatchUpProjectionSchema, ErrorSchema } from '../schemas';
+import type { AppContext } from '../types';
+import { json } from '../utils';
+
+/** `GET /api/v1/catch-up`: observed net mint/burn rates and the projected Solana–Ethereum parity date */
+export class CatchUpFetch extends OpenAPIRoute {
+    schema = {
+        tags: ['Supply'],
+        summary: 'Net mint/burn rates and days until Solana matches Ethereum',
+        request: {
+            query: z.object({
+                fresh: z.enum(['1']).optional().describe('Bypass the edge cache (requires the admin bearer token)'),
+            }),
+        },
+        responses: {
+            '200': {
+                description: 'Rates over 7, 30 and 90 days from stored snapshots; the range spans the windows that converge',
+                content: { 'application/json': { schema: CatchUpProjectionSchema } },
+            },
+            '503': { description: 'Projection unavailable', content: { 'application/json': { schema: ErrorSchema } } },
+        },
+    };
+
+    async handle(c: AppContext) {
+        await this.getValidatedData<typeof this.schema>();
+        const result = await cachedPayload(c.req.raw, c.env, c.executionCtx);
+        if ('error' in result) return json({ error: result.error }, 400);
+        const { catchUp } = result.payload;
+        if (!catchUp) return json({ error: 'Projection unavailable' }, 503, { 'Cache-Control': 'no-store' });
+        return json(catchUp, 200, cacheHeaders(result));
+    }
+}
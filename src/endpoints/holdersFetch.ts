@@ -0,0 +1,48 @@
+import { OpenAPIRoute } from 'chanfana';
+import { z } from 'zod';
+import { CHAIN_NAMES } from '../chains';
+import { CONFIG } from '../config';
+import { holderStore } from '../holders';
+import { ErrorSchema, HolderSummarySchema } from '../schemas';
+import type { AppContext } from '../types';
+import { json } from '../utils';
+
+/** `GET /api/v1/holders`: top holders and concentration per token, from the last indexing run */
+export class HoldersFetch extends OpenAPIRoute {
+    schema = {
+        tags: ['Holders'],
+        summary: 'Top holders, top-10 share and HHI per token',
+        request: {
+            query: z.object({
+                chain: z.string().optional().describe(`One of: ${CHAIN_NAMES.join(', ')}`),
+                symbol: z.string().optional().describe('Token symbol, case-insensitive'),
+                limit: z.string().regex(/^\d+$/).optional().describe(`Top holders listed per token (default 10, at most ${CONFIG.HOLDERS_TOP})`),
+            }),
+        },
+        responses: {
+            '200': {
+                description: 'Holder concentration per token; labeled holders carry their address book entry',
+                content: { 'application/json': { schema: HolderSummarySchema } },
+            },
+            '400': { description: 'Unknown chain', content: { 'application/json': { schema: ErrorSchema } } },
+            '503': { description: 'Holders not indexed yet', content: { 'application/json': { schema: ErrorSchema } } },
+        },
+    };
+
+    async handle(c: AppContext) {
+        const { query } = await this.getValidatedData<typeof this.schema>();
+        if (query.chain && !CHAIN_NAMES.includes(query.chain)) {
+            return json({ error: `Unknown chain "${query.chain}", expected one of: ${CHAIN_NAMES.join(', ')}` }, 400);
+        }
+        const summary = await holderStore(c.env).summary();
+        if (!summary) return json({ error: 'Holders not indexed yet' }, 503, { 'Cache-Control': 'no-store' });
+
+        const limit = query.limit ? Math.min(Number(query.limit), CONFIG.HOLDERS_TOP) : 10;
+        const tokens = summary.tokens
+            .filter((token) => (!query.chain || token.chain === query.chain) && (!query.symbol || token.symbol.toLowerCase() === query.symbol.toLowerCase()))
+            .map((token) => ({ ...token, top: token.top.slice(0, limit) }));
+        return json({ updatedAt: summary.updatedAt, tokens }, 200, {
+            'Cache-Control': `public, max-age=${CONFIG.CACHE_TTL}, s-maxage=${CONFIG.CACHE_TTL}`,
+        });
+    }
+}
@@ -0,0 +1,33 @@
+import { OpenAPIRoute } from 'chanfana';
+import { cachedPayload, cacheHeaders } from '../cache';
+import { ErrorSchema, StakingProjectionSchema, StakingQuerySchema } from '../schemas';
+import { parseStakingParams, projectStaking, stakingDefaults } from '../staking';
+import type { AppContext } from '../types';
+import { json } from '../utils';
+
+/** `GET /api/projection`: day-by-day Ethereum and Solana supply with SOL staking rewards swapped to BTC */
+export class ProjectionFetch extends OpenAPIRoute {
+    schema = {
+        tags: ['Supply'],
+        summary: 'Staking and yield projection of both chains, day by day',
+        request: { query: StakingQuerySchema },
+        responses: {
+            '200': {
+                description: 'Starts from the current totals; unset rates default to the observed catch-up basis window',
+                content: { 'application/json': { schema: StakingProjectionSchema } },
+            },
+            '400': { description: 'Invalid parameter', content: { 'application/json': { schema: ErrorSchema } } },
+        },
+    };
+
+    async handle(c: AppContext) {
+        const { query } = await this.getValidatedData<typeof this.schema>();
+        const result = await cachedPayload(c.req.raw, c.env, c.executionCtx);
+        if ('error' in result) return json({ error: result.error }, 400);
+        const { payload } = result;
+        const params = parseStakingParams(query, stakingDefaults(payload));
+        if ('error' in params) return json({ error: params.error }, 400);
+        const projection = projectStaking(parseFloat(payload.ethereumTotal) || 0, parseFloat(payload.solanaTotal) || 0, params);
+        return json(projection, 200, cacheHeaders(result));
+    }
+}
@@ -0,0 +1,45 @@
+import { OpenAPIRoute } from 'chanfana';
+import { z } from 'zod';
+import { cachedPayload, cacheHeaders } from '../cache';
+import { CHAIN_NAMES } from '../chains';
+import { exportResponse, negotiateFormat, supplyTable } from '../export';
+import { ChainSupplySchema, ErrorSchema, ReadQuerySchema, SupplyExportContent } from '../schemas';
+import type { AppContext } from '../types';
+import { json } from '../utils';
+
+/** `GET /api/v1/supply/{chain}`: supplies and total for one chain */
+export class SupplyFetch extends OpenAPIRoute {
+    schema = {
+        tags: ['Supply'],
+        summary: 'Wrapped BTC supply on one chain',
+        request: {
+            params: z.object({ chain: z.string().describe(`One of: ${CHAIN_NAMES.join(', ')}`) }),
+            query: ReadQuerySchema,
+        },
+        responses: {
+            '200': {
+                description: 'Chain supplies; CSV and NDJSON give one row per token',
+                content: { 'application/json': { schema: ChainSupplySchema }, ...SupplyExportContent },
+            },
+            '400': { description: 'Invalid read pin', content: { 'application/json': { schema: ErrorSchema } } },
+            '404': { description: 'Unknown chain', content: { 'application/json': { schema: ErrorSchema } } },
+        },
+    };
+
+    async handle(c: AppContext) {
+        const { params } = await this.getValidatedData<typeof this.schema>();
+        if (!CHAIN_NAMES.includes(params.chain)) {
+            return json({ error: `Unknown chain "${params.chain}", expected one of: ${CHAIN_NAMES.join(', ')}` }, 404);
+        }
+        const result = await cachedPayload(c.req.raw, c.env, c.executionCtx);
+        if ('error' in result) return json({ error: result.error }, 400);
+        const { payload } = result;
+        return exportResponse(
+            negotiateFormat(c.req.raw) || 'json',
+            payload.chains[params.chain],
+            () => supplyTable(payload, [params.chain]),
+            `wbtc-supply-${params.chain}`,
+            cacheHeaders(result)
+        );
+    }
+}
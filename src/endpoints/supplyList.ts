@@ -0,0 +1,30 @@
+import { OpenAPIRoute } from 'chanfana';
+import { cachedPayload, cacheHeaders } from '../cache';
+import { exportResponse, negotiateFormat, supplyTable } from '../export';
+import { ApiPayloadSchema, ErrorSchema, ReadQuerySchema, SupplyExportContent } from '../schemas';
+import type { AppContext } from '../types';
+import { json } from '../utils';
+
+/** `GET /api/v1/supply`: the full payload across every chain */
+export class SupplyList extends OpenAPIRoute {
+    schema = {
+        tags: ['Supply'],
+        summary: 'Wrapped BTC supply on every tracked chain',
+        request: { query: ReadQuerySchema },
+        responses: {
+            '200': {
+                description: 'Supplies, totals and reserves; CSV and NDJSON give one row per token',
+                content: { 'application/json': { schema: ApiPayloadSchema }, ...SupplyExportContent },
+            },
+            '400': { description: 'Invalid read pin', content: { 'application/json': { schema: ErrorSchema } } },
+        },
+    };
+
+    async handle(c: AppContext) {
+        await this.getValidatedData<typeof this.schema>();
+        const result = await cachedPayload(c.req.raw, c.env, c.executionCtx);
+        if ('error' in result) return json({ error: result.error }, 400);
+        const { payload } = result;
+        return exportResponse(negotiateFormat(c.req.raw) || 'json', payload, () => supplyTable(payload), 'wbtc-supply', cacheHeaders(result));
+    }
+}
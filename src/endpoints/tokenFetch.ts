@@ -0,0 +1,67 @@
+import { OpenAPIRoute } from 'chanfana';
+import { z } from 'zod';
+import { cachedPayload, cacheHeaders } from '../cache';
+import { exportResponse, negotiateFormat, supplyTable } from '../export';
+import { ErrorSchema, ReadQuerySchema, SupplyExportContent, TokenReportSchema } from '../schemas';
+import type { AppContext, ApiPayload, TokenReport } from '../types';
+import { calculateTotal, json } from '../utils';
+
+/** Collect every deployment of `symbol` (case-insensitive) across chains */
+function tokenReport(payload: ApiPayload, symbol: string): TokenReport | null {
+    const wanted = symbol.toLowerCase();
+    const chains: TokenReport['chains'] = [];
+    for (const [chain, supply] of Object.entries(payload.chains)) {
+        for (const token of supply.tokens) {
+            if (token.symbol.toLowerCase() === wanted) chains.push({ ...token, chain, deprecated: false });
+        }
+        for (const token of supply.deprecated || []) {
+            if (token.symbol.toLowerCase() === wanted) chains.push({ ...token, chain, deprecated: true });
+        }
+    }
+    if (!chains.length) return null;
+    const active = chains.filter((token) => !token.deprecated);
+    const partial = active.some((token) => token.status?.state === 'error');
+    return {
+        symbol: chains[0].symbol,
+        total: calculateTotal(active),
+        ...(partial ? { partial } : {}),
+        chains,
+    };
+}
+
+/** `GET /api/v1/tokens/{symbol}`: one token on every chain it is tracked on */
+export class TokenFetch extends OpenAPIRoute {
+    schema = {
+        tags: ['Tokens'],
+        summary: 'Supply of one wrapped BTC token across chains',
+        request: {
+            params: z.object({ symbol: z.string().describe('Token symbol, case-insensitive, e.g. cbBTC') }),
+            query: ReadQuerySchema,
+        },
+        responses: {
+            '200': {
+                description: 'Per-chain supplies and total; CSV and NDJSON give one row per chain',
+                content: { 'application/json': { schema: TokenReportSchema }, ...SupplyExportContent },
+            },
+            '400': { description: 'Invalid read pin', content: { 'application/json': { schema: ErrorSchema } } },
+            '404': { description: 'Token not tracked', content: { 'application/json': { schema: ErrorSchema } } },
+        },
+    };
+
+    async handle(c: AppContext) {
+        const { params } = await this.getValidatedData<typeof this.schema>();
+        const result = await cachedPayload(c.req.raw, c.env, c.executionCtx);
+        if ('error' in result) return json({ error: result.error }, 400);
+
+        const { payload } = result;
+        const report = tokenReport(payload, params.symbol);
+        if (!report) return json({ error: `Token "${params.symbol}" is not tracked` }, 404);
+        return exportResponse(
+            negotiateFormat(c.req.raw) || 'json',
+            report,
+            () => supplyTable(payload, Object.keys(payload.chains), report.symbol),
+            `wbtc-${report.symbol}`,
+            cacheHeaders(result)
+        );
+    }
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { handleEvents, memoryEventStore } from './events';
+import type { SupplyEvent } from './types';
+
+const START = Date.parse('2025-05-01T00:00:00Z');
+
+function event(timestamp: number, block: number, index: number): SupplyEvent {
+    return {
+        id: `ethereum:0x${block}:${index}`,
+        chain: 'ethereum',
+        symbol: 'wBTC',
+        kind: 'mint',
+        amount: '1',
+        raw: '100000000',
+        decimals: 8,
+        account: '0xabc',
+        txHash: `0x${block}`,
+        block,
+        timestamp,
+    };
+}
+
+async function page(store: ReturnType<typeof memoryEventStore>, query: string) {
+    const resp = await handleEvents(new Request(`https://example.com/events?${query}`), store);
+    const text = await resp.text();
+    return { status: resp.status, headers: resp.headers, body: query.includes('format=csv') ? text : JSON.parse(text) };
+}
+
+describe('handleEvents', () => {
+    it('pages through events sharing a timestamp without repeating or skipping any', async () => {
+        const store = memoryEventStore();
+        // Ten events in one block (including logs 2 and 10, which sort apart as text) and two in the next second
+        const events = [...Array.from({ length: 10 }, (_, i) => event(START, 100, i + 1)), event(START + 1000, 101, 0), event(START + 1000, 101, 1)];
+        await store.append([...events].reverse());
+
+        const range = `since=${START}&until=${START + 60_000}`;
+        const seen: string[] = [];
+        let query = `${range}&limit=4`;
+        for (let pages = 0; pages < 10; pages++) {
+            const { body } = await page(store, query);
+            seen.push(...body.events.map((e: SupplyEvent) => e.id));
+            if (!body.truncated) {
+                expect(body.cursor).toBeNull();
+                break;
+            }
+            query = `${range}&limit=4&cursor=${body.cursor}`;
+        }
+        expect(seen).toEqual(events.map((e) => e.id));
+    });
+
+    it('starts from the cursor when no since is given and rejects a bad cursor', async () => {
+        const store = memoryEventStore();
+        await store.append([event(START, 100, 0), event(START, 100, 1), event(START + 1000, 101, 0)]);
+        const first = await page(store, `since=${START}&until=${START + 60_000}&limit=1&format=csv`);
+        const cursor = first.headers.get('X-Next-Cursor');
+        expect(cursor).toBeTruthy();
+
+        const rest = await page(store, `until=${START + 60_000}&cursor=${cursor}`);
+        expect(rest.body.events.map((e: SupplyEvent) => e.id)).toEqual(['ethereum:0x100:1', 'ethereum:0x101:0']);
+        expect((await page(store, 'cursor=not-a-cursor')).status).toBe(400);
+    });
+});
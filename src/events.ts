@@ -0,0 +1,212 @@
+import { CHAIN_NAMES, registryAdapters } from './chains';
+import { EXPORT_FORMATS, exportResponse, negotiateFormat, type Table } from './export';
+import { parseTimestamp } from './history';
+import { timed } from './metrics';
+import { loadRegistry } from './registry';
+import type { EventCursor, SupplyEvent } from './types';
+import { json } from './utils';
+
+// === Configuration ===
+const EVENTS_CONFIG = {
+    KEY_PREFIX: 'events:', // one key per UTC day of event time
+    CURSOR_PREFIX: 'cursor:', // one key per chain
+    DEFAULT_RANGE: 7 * 24 * 60 * 60 * 1000, // ms
+    MAX_RANGE_DAYS: 92,
+    DEFAULT_LIMIT: 500,
+    MAX_LIMIT: 5000,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const EVENT_COLUMNS = ['timestamp', 'chain', 'symbol', 'kind', 'amount', 'raw', 'decimals', 'account', 'txHash', 'block'];
+
+// === Stores ===
+/** Storage for indexed events and the per-chain cursors indexing resumes from */
+export interface EventStore {
+    append(events: SupplyEvent[]): Promise<void>; // Events already stored (same `id`) are skipped
+    range(from: number, to: number): Promise<SupplyEvent[]>;
+    cursor(chain: string): Promise<EventCursor | null>;
+    setCursor(chain: string, cursor: EventCursor): Promise<void>;
+}
+
+function dayKey(timestamp: number): string {
+    return EVENTS_CONFIG.KEY_PREFIX + new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function dayKeys(from: number, to: number): string[] {
+    const keys: string[] = [];
+    for (let day = Math.floor(from / DAY_MS) * DAY_MS; day <= to; day += DAY_MS) {
+        keys.push(dayKey(day));
+    }
+    return keys;
+}
+
+/** Group events by day key */
+function byDay(events: SupplyEvent[]): Map<string, SupplyEvent[]> {
+    const days = new Map<string, SupplyEvent[]>();
+    for (const event of events) {
+        const key = dayKey(event.timestamp);
+        days.set(key, [...(days.get(key) || []), event]);
+    }
+    return days;
+}
+
+/** `existing` plus the events in `added` it does not already hold */
+function merge(existing: SupplyEvent[], added: SupplyEvent[]): SupplyEvent[] {
+    const ids = new Set(existing.map((event) => event.id));
+    return [...existing, ...added.filter((event) => !ids.has(event.id))];
+}
+
+/** Position of an event in `/events` order, handed out as an opaque `cursor` to page on from */
+type PageCursor = Pick<SupplyEvent, 'timestamp' | 'block' | 'id'>;
+
+/** Oldest first; events sharing a timestamp are ordered by block, then id, so pages split between them cleanly */
+function compareEvents(a: PageCursor, b: PageCursor): number {
+    return a.timestamp - b.timestamp || a.block - b.block || a.id.localeCompare(b.id, 'en', { numeric: true });
+}
+
+function inRange(events: SupplyEvent[], from: number, to: number): SupplyEvent[] {
+    return events.filter((e) => e.timestamp >= from && e.timestamp <= to).sort(compareEvents);
+}
+
+/** Event store backed by a KV namespace, one key per UTC day */
+export function kvEventStore(kv: KVNamespace): EventStore {
+    return {
+        async append(events) {
+            for (const [key, added] of byDay(events)) {
+                const existing = (await kv.get<SupplyEvent[]>(key, 'json')) || [];
+                await kv.put(key, JSON.stringify(merge(existing, added)));
+            }
+        },
+        async range(from, to) {
+            const days = await Promise.all(dayKeys(from, to).map((key) => kv.get<SupplyEvent[]>(key, 'json')));
+            return inRange(days.flatMap((day) => day || []), from, to);
+        },
+        async cursor(chain) {
+            return kv.get<EventCursor>(EVENTS_CONFIG.CURSOR_PREFIX + chain, 'json');
+        },
+        async setCursor(chain, cursor) {
+            await kv.put(EVENTS_CONFIG.CURSOR_PREFIX + chain, JSON.stringify(cursor));
+        },
+    };
+}
+
+/** In-memory event store, used when no KV binding is configured (local development) */
+export function memoryEventStore(): EventStore {
+    const days = new Map<string, SupplyEvent[]>();
+    const cursors = new Map<string, EventCursor>();
+    return {
+        async append(events) {
+            for (const [key, added] of byDay(events)) days.set(key, merge(days.get(key) || [], added));
+        },
+        async range(from, to) {
+            return inRange(dayKeys(from, to).flatMap((key) => days.get(key) || []), from, to);
+        },
+        async cursor(chain) {
+            return cursors.get(chain) ?? null;
+        },
+        async setCursor(chain, cursor) {
+            cursors.set(chain, cursor);
+        },
+    };
+}
+
+/** Fallback store for `wrangler dev` without a SUPPLY_EVENTS binding */
+const localEvents = memoryEventStore();
+
+export function eventStore(env: Env): EventStore {
+    return env.SUPPLY_EVENTS ? kvEventStore(env.SUPPLY_EVENTS) : localEvents;
+}
+
+// === Indexing ===
+/**
+ * Index new mints and burns on every chain, resuming from each chain's cursor. Chains are indexed one after
+ * another to stay within the subrequest limit; a chain that fails keeps its cursor for the next run.
+ */
+export async function indexSupplyEvents(env: Env, store: EventStore = eventStore(env)): Promise<void> {
+    for (const adapter of registryAdapters(await loadRegistry(env))) {
+        try {
+            const cursor = await store.cursor(adapter.name);
+            const result = await timed(`${adapter.name}-events`, () => adapter.fetchEvents(cursor));
+            await store.append(result.events);
+            await store.setCursor(adapter.name, result.cursor);
+            if (result.events.length) console.log(`Indexed ${result.events.length} ${adapter.label} mint/burn events`);
+        } catch (err) {
+            console.error(`${adapter.label} event indexing failed:`, err);
+        }
+    }
+}
+
+// === Handler ===
+function encodeCursor({ timestamp, block, id }: SupplyEvent): string {
+    return btoa(JSON.stringify([timestamp, block, id])).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/** Cursor from `?cursor=`; null when it is not one we handed out */
+function decodeCursor(value: string): PageCursor | null {
+    try {
+        const [timestamp, block, id] = JSON.parse(atob(value.replace(/-/g, '+').replace(/_/g, '/')));
+        return Number.isFinite(timestamp) && Number.isFinite(block) && typeof id === 'string' ? { timestamp, block, id } : null;
+    } catch {
+        return null;
+    }
+}
+
+function eventTable(events: SupplyEvent[]): Table {
+    return { columns: EVENT_COLUMNS, rows: events.map(({ id, ...event }) => ({ ...event, timestamp: new Date(event.timestamp).toISOString() })) };
+}
+
+/**
+ * Handle `/events?symbol=&chain=&since=&until=&limit=&cursor=&format=`: indexed mints and burns, oldest first.
+ * A truncated page carries a `cursor`; passing it back returns the events strictly after the last one served.
+ */
+export async function handleEvents(request: Request, store: EventStore): Promise<Response> {
+    const params = new URL(request.url).searchParams;
+    const chain = params.get('chain') || undefined;
+    const symbol = params.get('symbol') || undefined;
+
+    if (chain && !CHAIN_NAMES.includes(chain)) {
+        return json({ error: `Unknown chain "${chain}", expected one of: ${CHAIN_NAMES.join(', ')}` }, 400);
+    }
+    const after = params.has('cursor') ? decodeCursor(params.get('cursor')) : null;
+    if (params.has('cursor') && !after) return json({ error: 'Invalid cursor' }, 400);
+    const until = params.has('until') ? parseTimestamp(params.get('until')) : Date.now();
+    const since = params.has('since') ? parseTimestamp(params.get('since')) : (after?.timestamp ?? until - EVENTS_CONFIG.DEFAULT_RANGE);
+    if (since === null || until === null || since > until) {
+        return json({ error: 'Invalid time range' }, 400);
+    }
+    if (until - since > EVENTS_CONFIG.MAX_RANGE_DAYS * DAY_MS) {
+        return json({ error: `Time range exceeds ${EVENTS_CONFIG.MAX_RANGE_DAYS} days` }, 400);
+    }
+    const limit = params.has('limit') ? Number(params.get('limit')) : EVENTS_CONFIG.DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > EVENTS_CONFIG.MAX_LIMIT) {
+        return json({ error: `Invalid limit, expected 1-${EVENTS_CONFIG.MAX_LIMIT}` }, 400);
+    }
+
+    const format = negotiateFormat(request);
+    if (!format) return json({ error: `Invalid format, expected one of: ${EXPORT_FORMATS.join(', ')}` }, 400);
+
+    const matching = (await store.range(after ? Math.max(since, after.timestamp) : since, until)).filter(
+        (event) =>
+            (!chain || event.chain === chain) &&
+            (!symbol || event.symbol.toLowerCase() === symbol.toLowerCase()) &&
+            (!after || compareEvents(event, after) > 0)
+    );
+    const events = matching.slice(0, limit);
+    const truncated = matching.length > events.length;
+    const cursor = truncated ? encodeCursor(events[events.length - 1]) : null;
+    return exportResponse(
+        format,
+        {
+            since: new Date(since).toISOString(),
+            until: new Date(until).toISOString(),
+            count: events.length,
+            truncated,
+            cursor,
+            events,
+        },
+        () => eventTable(events),
+        ['wbtc-events', chain, symbol].filter(Boolean).join('-'),
+        cursor ? { 'X-Next-Cursor': cursor } : {}
+    );
+}
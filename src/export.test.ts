@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv } from './export';
+
+describe('toCsv', () => {
+    it('quotes and prefixes text a spreadsheet would run as a formula', () => {
+        const values = ['=HYPERLINK("https://evil.test","x")', '+1', '-2', '@SUM(A1)', '\tcmd', '\rcmd'];
+        const csv = toCsv({ columns: ['symbol'], rows: values.map((symbol) => ({ symbol })) });
+        expect(csv.split('\r\n').slice(1, -1)).toEqual([
+            `"'=HYPERLINK(""https://evil.test"",""x"")"`,
+            `"'+1"`,
+            `"'-2"`,
+            `"'@SUM(A1)"`,
+            `"'\tcmd"`,
+            `"'\rcmd"`,
+        ]);
+    });
+
+    it('leaves numbers, booleans and plain text as they are', () => {
+        const csv = toCsv({ columns: ['a', 'b', 'c', 'd', 'e'], rows: [{ a: -1.5, b: false, c: 'wBTC', d: 'a, "b"', e: null }] });
+        expect(csv.split('\r\n')[1]).toBe('-1.5,false,wBTC,"a, ""b""",');
+    });
+});
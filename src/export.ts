@@ -0,0 +1,124 @@
+import type { HistorySeries } from './history';
+import type { ApiPayload } from './types';
+import { json } from './utils';
+
+// === Formats ===
+export type ExportFormat = 'json' | 'csv' | 'ndjson';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'csv', 'ndjson'];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+    json: 'application/json; charset=utf-8',
+    csv: 'text/csv; charset=utf-8',
+    ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+/** Format from `?format=`, else the `Accept` header, else JSON; null for an unknown `?format=` */
+export function negotiateFormat(request: Request): ExportFormat | null {
+    const param = new URL(request.url).searchParams.get('format');
+    if (param) return EXPORT_FORMATS.includes(param as ExportFormat) ? (param as ExportFormat) : null;
+    const accept = request.headers.get('Accept') || '';
+    if (accept.includes('text/csv')) return 'csv';
+    if (accept.includes('ndjson')) return 'ndjson'; // application/x-ndjson or application/ndjson
+    return 'json';
+}
+
+// === Rows ===
+type Row = Record<string, string | number | boolean | null>;
+
+/** Rows plus their column order, so an empty export still has a CSV header */
+export interface Table {
+    columns: string[];
+    rows: Row[];
+}
+
+const SUPPLY_COLUMNS = ['chain', 'symbol', 'address', 'mint', 'supply', 'shareOfChain', 'shareOfMintedBTC', 'deprecated', 'status'];
+const HISTORY_COLUMNS = ['chain', 'symbol', 'timestamp', 'open', 'close', 'min', 'max', 'samples'];
+
+/** Share of `total`, rounded to 8 places; null when the total is zero */
+function share(value: string, total: number): number | null {
+    return total > 0 ? Number(((parseFloat(value) || 0) / total).toFixed(8)) : null;
+}
+
+/** One row per token; deprecated tokens have no share of their chain total since they are not in it */
+export function supplyTable(payload: ApiPayload, chains: string[] = Object.keys(payload.chains), symbol?: string): Table {
+    const minted = parseFloat((payload.bitcoinSupply?.btc ?? payload.currentlyMintedBTC).replace(/,/g, '')) || 0;
+    const rows = chains.flatMap((chain) => {
+        const supply = payload.chains[chain];
+        if (!supply) return [];
+        const total = parseFloat(supply.total) || 0;
+        const tokens = [
+            ...supply.tokens.map((token) => ({ token, deprecated: false })),
+            ...(supply.deprecated || []).map((token) => ({ token, deprecated: true })),
+        ];
+        return tokens
+            .filter(({ token }) => !symbol || token.symbol.toLowerCase() === symbol.toLowerCase())
+            .map(({ token, deprecated }) => ({
+                chain,
+                symbol: token.symbol,
+                address: token.address ?? null,
+                mint: token.mint ?? null,
+                supply: token.supply,
+                shareOfChain: deprecated ? null : share(token.supply, total),
+                shareOfMintedBTC: share(token.supply, minted),
+                deprecated,
+                status: token.status?.state ?? null,
+            }));
+    });
+    return { columns: SUPPLY_COLUMNS, rows };
+}
+
+/** One row per bucket of every series */
+export function historyTable(series: HistorySeries[]): Table {
+    const rows = series.flatMap(({ chain, symbol, points }) => points.map((point) => ({ chain, symbol, ...point })));
+    return { columns: HISTORY_COLUMNS, rows };
+}
+
+// === Encoding ===
+/** Leading characters that make a spreadsheet read a cell as a formula */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Quote a cell where needed. Text cells (symbols and labels come from the admin-editable registry) that a
+ * spreadsheet would run as a formula are prefixed with `'` and quoted; numbers are ours and left as they are.
+ */
+function csvCell(value: Row[string]): string {
+    if (value === null) return '';
+    if (typeof value === 'string' && FORMULA_PREFIX.test(value)) return `"'${value.replace(/"/g, '""')}"`;
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** CSV with a header row */
+export function toCsv({ columns, rows }: Table): string {
+    return [columns.join(','), ...rows.map((row) => columns.map((column) => csvCell(row[column] ?? null)).join(','))].join('\r\n') + '\r\n';
+}
+
+export function toNdjson(rows: Row[]): string {
+    return rows.map((row) => JSON.stringify(row)).join('\n') + (rows.length ? '\n' : '');
+}
+
+/**
+ * Respond in the negotiated format: `body` as-is for JSON, `table` for CSV/NDJSON as a download
+ * named `<name>-<UTC timestamp>.<ext>`.
+ */
+export function exportResponse(
+    format: ExportFormat,
+    body: unknown,
+    table: () => Table,
+    name: string,
+    headers: Record<string, string> = {}
+): Response {
+    if (format === 'json') return json(body, 200, { Vary: 'Accept', ...headers });
+    const stamp = new Date().toISOString().slice(0, 16).replace(/[-:]/g, '');
+    const filename = `${name.replace(/[^\w.-]+/g, '_')}-${stamp}Z.${format}`;
+    return new Response(format === 'csv' ? toCsv(table()) : toNdjson(table().rows), {
+        headers: {
+            'Content-Type': CONTENT_TYPES[format],
+            'Content-Disposition': `attachment; filename="${filename}"`,
+            'Access-Control-Allow-Origin': '*',
+            Vary: 'Accept',
+            ...headers,
+        },
+    });
+}
@@ -0,0 +1,252 @@
+import { describe, expect, it } from 'vitest';
+import {
+    bucketSeries,
+    handleHistory,
+    kvHistoryStore,
+    memoryHistoryStore,
+    parseInterval,
+    mintedAt,
+    previousSnapshot,
+    recordSnapshot,
+    rollUp,
+    snapshotAt,
+    toSnapshot,
+    type HistorySeries,
+    type HistoryStore,
+    type Snapshot,
+} from './history';
+import type { ApiPayload } from './types';
+import { sourceStatus } from './utils';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const START = Date.parse('2025-01-01T00:00:00Z');
+
+/** KVNamespace over a Map that counts reads, with the real 1000-key list pages */
+function fakeKv() {
+    const data = new Map<string, string>();
+    const stats = { gets: 0, lists: 0, bytes: 0 };
+    const kv = {
+        async get(name: string, type?: string) {
+            stats.gets++;
+            const value = data.get(name);
+            if (value === undefined) return null;
+            stats.bytes += value.length;
+            return type === 'json' ? JSON.parse(value) : value;
+        },
+        async put(name: string, value: string) {
+            data.set(name, value);
+        },
+        async list({ prefix = '', cursor }: { prefix?: string; cursor?: string }) {
+            stats.lists++;
+            const names = [...data.keys()].filter((name) => name.startsWith(prefix)).sort();
+            const offset = Number(cursor || 0);
+            const page = names.slice(offset, offset + 1000);
+            const done = offset + page.length >= names.length;
+            return { keys: page.map((name) => ({ name })), list_complete: done, ...(done ? {} : { cursor: String(offset + 1000) }) };
+        },
+    };
+    return { kv: kv as unknown as KVNamespace, data, stats };
+}
+
+/** Snapshot of six chains with a few tokens each, growing by a satoshi an hour */
+function snapshot(timestamp: number): Snapshot {
+    const hour = Math.round((timestamp - START) / HOUR);
+    const supply = (base: number) => (base + hour / 1e8).toFixed(8);
+    const chains: Snapshot['chains'] = {};
+    for (const [chain, symbols] of Object.entries({
+        ethereum: ['wBTC', 'cbBTC', 'tBTCv2', 'FBTC'],
+        solana: ['cbBTC', 'tBTC', 'zBTC'],
+        arbitrum: ['wBTC', 'tBTC'],
+        base: ['cbBTC', 'tBTC'],
+        bnb: ['BTCB'],
+        avalanche: ['wBTC.e', 'BTC.b'],
+    })) {
+        const supplies = Object.fromEntries(symbols.map((symbol, i) => [symbol, supply(10_000 * (i + 1))]));
+        chains[chain] = { total: supply(symbols.reduce((sum, _, i) => sum + 10_000 * (i + 1), 0)), supplies };
+    }
+    return { timestamp, chains, currentlyMintedBTC: '19,800,000' };
+}
+
+async function history(store: HistoryStore, query: string): Promise<{ status: number; body: { error?: string; omittedDays?: number; series?: HistorySeries[] } }> {
+    const resp = await handleHistory(new Request(`https://example.com/history?${query}`), store);
+    return { status: resp.status, body: await resp.json() };
+}
+
+describe('bucketSeries', () => {
+    it('keeps open, close, min, max and the sample count per bucket', () => {
+        const samples = [
+            { timestamp: START, value: '2' },
+            { timestamp: START + 10 * 60 * 1000, value: '5' },
+            { timestamp: START + 20 * 60 * 1000, value: '1' },
+            { timestamp: START + 50 * 60 * 1000, value: '3' },
+            { timestamp: START + HOUR, value: '4' },
+        ];
+        expect(bucketSeries(samples, HOUR)).toEqual([
+            { timestamp: '2025-01-01T00:00:00.000Z', open: '2', close: '3', min: '1', max: '5', samples: 4 },
+            { timestamp: '2025-01-01T01:00:00.000Z', open: '4', close: '4', min: '4', max: '4', samples: 1 },
+        ]);
+    });
+
+    it('compares min and max exactly where floats cannot', () => {
+        const samples = [
+            { timestamp: START, value: '99999999.99999998' },
+            { timestamp: START + 10 * 60 * 1000, value: '99999999.99999999' },
+            { timestamp: START + 20 * 60 * 1000, value: '99999999.99999997' },
+        ];
+        expect(bucketSeries(samples, HOUR)[0]).toMatchObject({ min: '99999999.99999997', max: '99999999.99999999' });
+    });
+
+    it('parses intervals', () => {
+        expect(parseInterval('15m')).toBe(15 * 60 * 1000);
+        expect(parseInterval('1w')).toBe(7 * DAY);
+        expect(parseInterval('0h')).toBeNull();
+        expect(parseInterval('1y')).toBeNull();
+    });
+});
+
+describe('toSnapshot', () => {
+    it('keeps totals and live supplies only', () => {
+        const payload = {
+            chains: {
+                ethereum: {
+                    label: 'Ethereum',
+                    total: '3.00000000',
+                    partial: true,
+                    tokens: [
+                        { symbol: 'wBTC', supply: '3', raw: '300000000', decimals: 8, address: '0x1', status: sourceStatus('ok') },
+                        { symbol: 'cbBTC', supply: '0', status: sourceStatus('error', 'HTTP 500') },
+                    ],
+                    context: { source: 'rpc', blockNumber: 123 },
+                },
+                solana: { label: 'Solana', total: '0.00000000', tokens: [{ symbol: 'cbBTC', supply: '0' }], error: 'timeout' },
+            },
+            currentlyMintedBTC: '19,800,000',
+            bitcoinSupply: { sats: '1980000012345678', btc: '19800000.12345678', source: 'blockchair', readings: [] },
+        } as unknown as ApiPayload;
+        expect(toSnapshot(payload, START)).toEqual({
+            timestamp: START,
+            chains: {
+                ethereum: { total: '3.00000000', supplies: { wBTC: '3' }, partial: true, block: 123 },
+                solana: { total: '0.00000000', supplies: {}, error: true },
+            },
+            currentlyMintedBTC: '19,800,000',
+            mintedSats: '1980000012345678',
+        });
+    });
+});
+
+describe('kvHistoryStore', () => {
+    it('keeps both snapshots of overlapping cron runs', async () => {
+        const { kv, data } = fakeKv();
+        const store = kvHistoryStore(kv);
+        await Promise.all([store.append(snapshot(START)), store.append(snapshot(START + HOUR))]);
+        expect([...data.keys()].sort()).toEqual([`snapshots:2025-01-01:${START}`, `snapshots:2025-01-01:${START + HOUR}`]);
+        expect((await store.range(START, START + HOUR)).map((s) => s.timestamp)).toEqual([START, START + HOUR]);
+    });
+
+    it('reads snapshots stored in the one-key-per-day layout', async () => {
+        const { kv } = fakeKv();
+        const full = {
+            timestamp: START + HOUR,
+            chains: { ethereum: { label: 'Ethereum', total: '1.00000000', tokens: [{ symbol: 'wBTC', supply: '1' }] } },
+            currentlyMintedBTC: '19,800,000',
+        };
+        const legacy = {
+            timestamp: START,
+            ethereum: [{ symbol: 'wBTC', supply: '0.5' }],
+            solana: [],
+            ethereumTotal: '0.50000000',
+            solanaTotal: '0.00000000',
+            currentlyMintedBTC: '19,800,000',
+        };
+        await kv.put('snapshots:2025-01-01', JSON.stringify([legacy, full]));
+        const store = kvHistoryStore(kv);
+        await store.append(snapshot(START + 2 * HOUR));
+
+        const snapshots = await store.range(START, START + DAY);
+        expect(snapshots.map((s) => s.chains.ethereum.supplies.wBTC)).toEqual(['0.5', '1', '10000.00000002']);
+        expect((await previousSnapshot(store, START + 2 * HOUR))?.timestamp).toBe(START + HOUR);
+    });
+
+    it('finds the latest reading with a single snapshot read', async () => {
+        const { kv, stats } = fakeKv();
+        const store = kvHistoryStore(kv);
+        for (let hour = 0; hour < 48; hour++) await store.append(snapshot(START + hour * HOUR));
+        stats.gets = 0;
+
+        const stored = await snapshotAt(store, 'solana', START + 47 * HOUR);
+        expect(stored).toMatchObject({ label: 'Solana', context: { source: 'snapshot', timestamp: START + 47 * HOUR } });
+        expect(stored.tokens.map((token) => token.symbol)).toEqual(['cbBTC', 'tBTC', 'zBTC']);
+        expect(stats.gets).toBe(1);
+    });
+
+    it('serves the exact stored mined supply, skipping snapshots stored without it', async () => {
+        const store = kvHistoryStore(fakeKv().kv);
+        await store.append({ ...snapshot(START), mintedSats: '1980000012345678' });
+        await store.append(snapshot(START + HOUR));
+        expect(await mintedAt(store, START + 2 * HOUR)).toEqual({ sats: '1980000012345678', timestamp: START });
+    });
+});
+
+describe('handleHistory', () => {
+    it('rejects bad and oversized ranges', async () => {
+        const store = memoryHistoryStore();
+        expect((await history(store, 'from=2025-02-01&to=2025-01-01')).status).toBe(400);
+        expect((await history(store, 'from=2024-01-01&to=2025-01-03&interval=1d')).status).toBe(400);
+        expect((await history(store, 'from=2025-01-01&to=2025-01-31&interval=6h')).body.error).toMatch(/whole-day interval/);
+        expect((await history(store, 'from=2025-01-01&to=2025-01-15&interval=6h')).status).toBe(200);
+        expect((await history(store, 'chain=dogecoin')).status).toBe(400);
+        expect((await history(store, 'interval=5x')).status).toBe(400);
+    });
+
+    it('serves daily buckets from rollups the same as from hourly snapshots', async () => {
+        const hourly = memoryHistoryStore();
+        const rolled = memoryHistoryStore();
+        for (let hour = 0; hour < 3 * 24 + 6; hour++) {
+            await hourly.append(snapshot(START + hour * HOUR));
+            await recordSnapshot(rolled, snapshot(START + hour * HOUR));
+        }
+        expect(await rolled.rolledUp(START, START + 4 * DAY)).toEqual([START, START + DAY, START + 2 * DAY]);
+
+        const query = `chain=ethereum&symbol=WBTC&from=${START}&to=${START + 4 * DAY}&interval=1d`;
+        const expected = (await history(hourly, query)).body.series;
+        expect(expected[0].symbol).toBe('wBTC');
+        expect(expected[0].points).toHaveLength(4);
+        expect(expected[0].points[3]).toMatchObject({ open: '10000.00000072', close: '10000.00000077', samples: 6 });
+        expect((await history(rolled, query)).body.series).toEqual(expected);
+    });
+
+    it('reads a year of history from daily rollups in a bounded number of small reads', async () => {
+        const { kv, stats } = fakeKv();
+        const store = kvHistoryStore(kv);
+        const days = 366;
+        for (let hour = 0; hour < days * 24; hour++) await store.append(snapshot(START + hour * HOUR));
+        for (let day = 0; day < days - 1; day++) {
+            const from = START + day * DAY;
+            await store.putRollup(rollUp(from, await store.range(from, from + DAY - 1)));
+        }
+        Object.assign(stats, { gets: 0, lists: 0, bytes: 0 });
+
+        const { status, body } = await history(store, `from=${START}&to=${START + days * DAY - 1}&interval=1d`);
+        expect(status).toBe(200);
+        expect(body.series).toHaveLength(6);
+        expect(body.series[0].points).toHaveLength(days);
+        expect(body.series[0].points.at(-1).samples).toBe(24); // the last day has no rollup yet and is read hourly
+        expect(stats.gets).toBeLessThanOrEqual(days + 24);
+        expect(stats.lists).toBeLessThanOrEqual(4);
+        expect(stats.bytes).toBeLessThan(1_500_000);
+    });
+
+    it('counts the days without a rollup it leaves out', async () => {
+        const store = memoryHistoryStore();
+        const days = 20;
+        for (let hour = 0; hour < days * 24; hour += 6) await store.append(snapshot(START + hour * HOUR));
+
+        const { body } = await history(store, `chain=ethereum&from=${START}&to=${START + days * DAY - 1}&interval=1d`);
+        expect(body.series[0].points).toHaveLength(14);
+        expect(body.series[0].points[0].timestamp).toBe(new Date(START + (days - 14) * DAY).toISOString());
+        expect(body.omittedDays).toBe(days - 14);
+        expect((await history(store, `chain=ethereum&from=${START + 10 * DAY}&to=${START + days * DAY - 1}&interval=1d`)).body).not.toHaveProperty('omittedDays');
+    });
+});
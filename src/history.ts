@@ -0,0 +1,477 @@
+import { CHAIN_NAMES, getChain } from './chains';
+import { EXPORT_FORMATS, exportResponse, historyTable, negotiateFormat } from './export';
+import type { ApiPayload, ChainSupply, TokenSupply } from './types';
+import { BTC_DECIMALS, json, parseUnits } from './utils';
+
+// === Configuration ===
+/** History configuration constants */
+const HISTORY_CONFIG = {
+    KEY_PREFIX: 'snapshots:', // snapshots:<day>:<timestamp>, one key per snapshot
+    ROLLUP_PREFIX: 'rollups:', // rollups:<day>, one key per complete UTC day
+    DEFAULT_RANGE: 7 * 24 * 60 * 60 * 1000, // ms
+    MAX_RANGE_DAYS: 366,
+    MAX_HOURLY_DAYS: 14, // longest range served from hourly snapshots; longer ones need whole-day intervals
+    ROLLUP_BACKFILL: 7, // missing daily rollups built per cron run
+    DEFAULT_INTERVAL: '1h',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const INTERVAL_UNITS: Record<string, number> = {
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: DAY_MS,
+    w: 7 * DAY_MS,
+};
+
+// === Types ===
+/** A chain's reading as stored in a snapshot: only what the series, alerts and fallbacks read */
+export interface ChainSnapshot {
+    total: string;
+    supplies: Record<string, string>; // Active tokens read live, by symbol; failed and stale tokens are left out
+    deprecated?: Record<string, string>;
+    error?: boolean; // The live read failed, so no token readings are kept
+    partial?: boolean; // `total` is missing an active token that failed to read
+    block?: number;
+    slot?: number;
+}
+
+/** Point-in-time reading of every chain */
+export interface Snapshot {
+    timestamp: number; // ms since epoch
+    chains: Record<string, ChainSnapshot>;
+    currentlyMintedBTC: string;
+    mintedSats?: string; // Exact mined supply; absent in snapshots stored before it existed
+}
+
+/** Snapshot shape written before snapshots were compacted: the full payload chains */
+interface FullSnapshot {
+    timestamp: number;
+    chains: Record<string, ChainSupply>;
+    currentlyMintedBTC: string;
+}
+
+/** Snapshot shape written before the chain registry existed */
+interface LegacySnapshot {
+    timestamp: number;
+    ethereum: TokenSupply[];
+    solana: TokenSupply[];
+    ethereumTotal: string;
+    solanaTotal: string;
+    currentlyMintedBTC: string;
+}
+
+type StoredSnapshot = Snapshot | FullSnapshot | LegacySnapshot;
+
+/** One bucket of a time series */
+export interface HistoryPoint {
+    timestamp: string; // bucket start, ISO 8601
+    open: string;
+    close: string;
+    min: string;
+    max: string;
+    samples: number;
+}
+
+/** Bucketed series for a single chain/symbol pair */
+export interface HistorySeries {
+    chain: string;
+    symbol: string; // 'TOTAL' for chain totals
+    points: HistoryPoint[];
+}
+
+/** One UTC day of snapshots folded into a point per series */
+export interface DailyRollup {
+    day: number; // ms since epoch of 00:00 UTC
+    chains: Record<string, Record<string, HistoryPoint>>; // chain -> symbol ('TOTAL' for the chain total) -> point
+}
+
+/** Storage backend for snapshots and their daily rollups */
+export interface HistoryStore {
+    append(snapshot: Snapshot): Promise<void>;
+    range(from: number, to: number): Promise<Snapshot[]>;
+    // Newest snapshot from the day up to `to` that `match` accepts, reading as few snapshots as possible
+    latest(to: number, match: (snapshot: Snapshot) => boolean): Promise<Snapshot | undefined>;
+    rolledUp(from: number, to: number): Promise<number[]>; // days with a rollup, without reading them
+    rollups(from: number, to: number): Promise<DailyRollup[]>;
+    putRollup(rollup: DailyRollup): Promise<void>;
+}
+
+// === Snapshots ===
+/** Live token supplies by symbol */
+function liveSupplies(tokens: TokenSupply[] = []): Record<string, string> {
+    return Object.fromEntries(
+        tokens.filter((token) => token.status?.state !== 'error' && token.status?.state !== 'stale').map((token) => [token.symbol, token.supply])
+    );
+}
+
+function compactChain(chain: ChainSupply): ChainSnapshot {
+    const error = !!chain.error || chain.context?.source === 'snapshot';
+    return {
+        total: chain.total,
+        supplies: error ? {} : liveSupplies(chain.tokens),
+        ...(chain.deprecated?.length && !error ? { deprecated: liveSupplies(chain.deprecated) } : {}),
+        ...(error ? { error: true } : {}),
+        ...(chain.partial ? { partial: true } : {}),
+        ...(chain.context?.blockNumber !== undefined ? { block: chain.context.blockNumber } : {}),
+        ...(chain.context?.slot !== undefined ? { slot: chain.context.slot } : {}),
+    };
+}
+
+/** Rebuild a payload chain from its stored reading, as served in place of a live read */
+function expandChain(name: string, chain: ChainSnapshot, timestamp: number): ChainSupply {
+    const tokens = (supplies: Record<string, string>) => Object.entries(supplies).map(([symbol, supply]) => ({ symbol, supply }));
+    return {
+        label: getChain(name)?.label ?? name,
+        tokens: tokens(chain.supplies),
+        total: chain.total,
+        ...(chain.deprecated ? { deprecated: tokens(chain.deprecated) } : {}),
+        ...(chain.partial ? { partial: true } : {}),
+        context: { source: 'snapshot', blockNumber: chain.block, slot: chain.slot, timestamp },
+    };
+}
+
+function normalize(snapshot: StoredSnapshot): Snapshot {
+    if (!('chains' in snapshot)) {
+        return {
+            timestamp: snapshot.timestamp,
+            chains: {
+                ethereum: compactChain({ label: 'Ethereum', tokens: snapshot.ethereum, total: snapshot.ethereumTotal }),
+                solana: compactChain({ label: 'Solana', tokens: snapshot.solana, total: snapshot.solanaTotal }),
+            },
+            currentlyMintedBTC: snapshot.currentlyMintedBTC,
+        };
+    }
+    const chains: Record<string, ChainSnapshot | ChainSupply> = snapshot.chains;
+    return {
+        ...snapshot,
+        chains: Object.fromEntries(
+            Object.entries(chains).map(([name, chain]) => [name, 'supplies' in chain ? chain : compactChain(chain)])
+        ),
+    };
+}
+
+function inRange(snapshots: StoredSnapshot[], from: number, to: number): Snapshot[] {
+    return snapshots
+        .filter((s) => s.timestamp >= from && s.timestamp <= to)
+        .map(normalize)
+        .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/** Build a snapshot from a freshly computed payload */
+export function toSnapshot(payload: ApiPayload, timestamp: number = Date.now()): Snapshot {
+    return {
+        timestamp,
+        chains: Object.fromEntries(Object.entries(payload.chains).map(([name, chain]) => [name, compactChain(chain)])),
+        currentlyMintedBTC: payload.currentlyMintedBTC,
+        mintedSats: payload.bitcoinSupply.sats,
+    };
+}
+
+/** Fold one UTC day of snapshots into a rollup; an empty day still gets one so it is not rebuilt */
+export function rollUp(day: number, snapshots: Snapshot[]): DailyRollup {
+    const chains: DailyRollup['chains'] = {};
+    for (const [chain, symbols] of Object.entries(seriesSamples(snapshots))) {
+        chains[chain] = Object.fromEntries(
+            Object.entries(symbols).map(([symbol, samples]) => [symbol, bucketSeries(samples, DAY_MS)[0]])
+        );
+    }
+    return { day, chains };
+}
+
+// === Stores ===
+function dayStart(timestamp: number): number {
+    return Math.floor(timestamp / DAY_MS) * DAY_MS;
+}
+
+function dateOf(timestamp: number): string {
+    return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function daysIn(from: number, to: number): number[] {
+    const days: number[] = [];
+    for (let day = dayStart(from); day <= to; day += DAY_MS) days.push(day);
+    return days;
+}
+
+/** Every key under `prefix`, following list cursors */
+async function listKeys(kv: KVNamespace, prefix: string): Promise<string[]> {
+    const names: string[] = [];
+    let cursor: string | undefined;
+    do {
+        const page = await kv.list({ prefix, cursor });
+        names.push(...page.keys.map((key) => key.name));
+        cursor = !page.list_complete && 'cursor' in page ? page.cursor : undefined;
+    } while (cursor);
+    return names;
+}
+
+/** Snapshot keys of the days `from`..`to`, newest first. Day keys of the old one-array-per-day layout sort as the end of their day. */
+async function snapshotKeys(kv: KVNamespace, from: number, to: number): Promise<string[]> {
+    const names = (await Promise.all(daysIn(from, to).map((day) => listKeys(kv, HISTORY_CONFIG.KEY_PREFIX + dateOf(day))))).flat();
+    const parsed = names.map((name) => {
+        const [date, timestamp] = name.slice(HISTORY_CONFIG.KEY_PREFIX.length).split(':');
+        return { name, legacy: !timestamp, at: timestamp ? Number(timestamp) : Date.parse(date) + DAY_MS - 1 };
+    });
+    return parsed
+        .filter((key) => key.legacy || (key.at >= from && key.at <= to))
+        .sort((a, b) => b.at - a.at)
+        .map((key) => key.name);
+}
+
+/**
+ * Snapshot store backed by a KV namespace. Each snapshot gets its own key, so overlapping or retried cron runs
+ * cannot overwrite each other; ranges are listed by day prefix. Complete days also get a rollup key that long
+ * ranges read instead of the hourly snapshots.
+ */
+export function kvHistoryStore(kv: KVNamespace): HistoryStore {
+    const read = async (name: string) => [(await kv.get<StoredSnapshot | StoredSnapshot[]>(name, 'json')) || []].flat();
+    const rolledUp = async (from: number, to: number) => {
+        const years = [...new Set(daysIn(from, to).map((day) => dateOf(day).slice(0, 4)))];
+        const names = (await Promise.all(years.map((year) => listKeys(kv, HISTORY_CONFIG.ROLLUP_PREFIX + year)))).flat();
+        return names
+            .map((name) => Date.parse(name.slice(HISTORY_CONFIG.ROLLUP_PREFIX.length)))
+            .filter((day) => day >= dayStart(from) && day <= to);
+    };
+    return {
+        async append(snapshot) {
+            await kv.put(`${HISTORY_CONFIG.KEY_PREFIX}${dateOf(snapshot.timestamp)}:${snapshot.timestamp}`, JSON.stringify(snapshot));
+        },
+        async range(from, to) {
+            const stored = await Promise.all((await snapshotKeys(kv, from, to)).map(read));
+            return inRange(stored.flat(), from, to);
+        },
+        async latest(to, match) {
+            const from = to - DAY_MS;
+            for (const name of await snapshotKeys(kv, from, to)) {
+                const found = inRange(await read(name), from, to).reverse().find(match);
+                if (found) return found;
+            }
+            return undefined;
+        },
+        rolledUp,
+        async rollups(from, to) {
+            const days = await rolledUp(from, to);
+            const rollups = await Promise.all(days.map((day) => kv.get<DailyRollup>(HISTORY_CONFIG.ROLLUP_PREFIX + dateOf(day), 'json')));
+            return rollups.filter(Boolean).sort((a, b) => a.day - b.day);
+        },
+        async putRollup(rollup) {
+            await kv.put(HISTORY_CONFIG.ROLLUP_PREFIX + dateOf(rollup.day), JSON.stringify(rollup));
+        },
+    };
+}
+
+/** In-memory snapshot store, used when no KV binding is configured (local development) */
+export function memoryHistoryStore(): HistoryStore {
+    const snapshots = new Map<number, Snapshot>();
+    const rollups = new Map<number, DailyRollup>();
+    const range = async (from: number, to: number) => inRange([...snapshots.values()], from, to);
+    return {
+        async append(snapshot) {
+            snapshots.set(snapshot.timestamp, snapshot);
+        },
+        range,
+        async latest(to, match) {
+            return (await range(to - DAY_MS, to)).reverse().find(match);
+        },
+        async rolledUp(from, to) {
+            return [...rollups.keys()].filter((day) => day >= dayStart(from) && day <= to);
+        },
+        async rollups(from, to) {
+            return [...rollups.values()].filter((rollup) => rollup.day >= dayStart(from) && rollup.day <= to).sort((a, b) => a.day - b.day);
+        },
+        async putRollup(rollup) {
+            rollups.set(rollup.day, rollup);
+        },
+    };
+}
+
+/**
+ * Store a cron snapshot, then roll up complete days that have no rollup yet, newest first and at most
+ * ROLLUP_BACKFILL per run, so history written before rollups existed is covered within a few days.
+ */
+export async function recordSnapshot(store: HistoryStore, snapshot: Snapshot): Promise<void> {
+    await store.append(snapshot);
+    const today = dayStart(snapshot.timestamp);
+    const oldest = today - HISTORY_CONFIG.MAX_RANGE_DAYS * DAY_MS;
+    const done = new Set(await store.rolledUp(oldest, today - 1));
+    let built = 0;
+    for (let day = today - DAY_MS; day >= oldest && built < HISTORY_CONFIG.ROLLUP_BACKFILL; day -= DAY_MS) {
+        if (done.has(day)) continue;
+        await store.putRollup(rollUp(day, await store.range(day, day + DAY_MS - 1)));
+        built++;
+    }
+}
+
+/** Latest stored reading of a chain at or before `timestamp` (and `slot`, when given), searching back one day */
+export async function snapshotAt(store: HistoryStore, chain: string, timestamp: number, slot?: number): Promise<ChainSupply | null> {
+    const snapshot = await store.latest(timestamp, (s) => {
+        const supply = s.chains[chain];
+        return !!supply && !supply.error && !(slot !== undefined && supply.slot !== undefined && supply.slot > slot);
+    });
+    return snapshot ? expandChain(chain, snapshot.chains[chain], snapshot.timestamp) : null;
+}
+
+/** Latest snapshot stored before `timestamp`, searching back one day */
+export async function previousSnapshot(store: HistoryStore, timestamp: number): Promise<Snapshot | undefined> {
+    return store.latest(timestamp - 1, () => true);
+}
+
+/** Latest stored non-zero mined BTC supply, in satoshis, at or before `timestamp`, searching back one day */
+export async function mintedAt(store: HistoryStore, timestamp: number): Promise<{ sats: string; timestamp: number } | null> {
+    const last = await store.latest(timestamp, (s) => !!s.mintedSats && s.mintedSats !== '0');
+    return last ? { sats: last.mintedSats, timestamp: last.timestamp } : null;
+}
+
+// === Series ===
+/** Parse an interval such as `15m`, `1h`, `1d` or `1w` into milliseconds */
+export function parseInterval(value: string): number | null {
+    const match = /^(\d+)([mhdw])$/.exec(value.trim());
+    if (!match) return null;
+    const ms = Number(match[1]) * INTERVAL_UNITS[match[2]];
+    return ms > 0 ? ms : null;
+}
+
+/** Parse an ISO 8601 date or a unix timestamp (seconds or milliseconds) */
+export function parseTimestamp(value: string): number | null {
+    if (/^\d+$/.test(value)) {
+        const n = Number(value);
+        return n < 1e12 ? n * 1000 : n;
+    }
+    const ms = Date.parse(value);
+    return Number.isNaN(ms) ? null : ms;
+}
+
+type Sample = { timestamp: number; value: string };
+
+/** Merge time-ordered points (single samples or daily rollups) into fixed-width buckets */
+function mergePoints(points: HistoryPoint[], intervalMs: number): HistoryPoint[] {
+    const buckets = new Map<number, HistoryPoint>();
+    for (const point of points) {
+        const start = Math.floor(Date.parse(point.timestamp) / intervalMs) * intervalMs;
+        const bucket = buckets.get(start);
+        if (!bucket) {
+            buckets.set(start, { ...point, timestamp: new Date(start).toISOString() });
+            continue;
+        }
+        bucket.close = point.close;
+        // Compared in sats: floats cannot tell apart supplies that differ past their 15th or so digit
+        if (parseUnits(point.min, BTC_DECIMALS) < parseUnits(bucket.min, BTC_DECIMALS)) bucket.min = point.min;
+        if (parseUnits(point.max, BTC_DECIMALS) > parseUnits(bucket.max, BTC_DECIMALS)) bucket.max = point.max;
+        bucket.samples += point.samples;
+    }
+    return [...buckets.values()];
+}
+
+function samplePoint({ timestamp, value }: Sample): HistoryPoint {
+    return { timestamp: new Date(timestamp).toISOString(), open: value, close: value, min: value, max: value, samples: 1 };
+}
+
+/** Group time-ordered samples into fixed-width buckets */
+export function bucketSeries(samples: Sample[], intervalMs: number): HistoryPoint[] {
+    return mergePoints(samples.map(samplePoint), intervalMs);
+}
+
+/** Per chain, time-ordered samples of its total ('TOTAL') and of each live token supply; failed chain reads are skipped */
+function seriesSamples(snapshots: Snapshot[]): Record<string, Record<string, Sample[]>> {
+    const series: Record<string, Record<string, Sample[]>> = {};
+    for (const snapshot of snapshots) {
+        for (const [chain, supply] of Object.entries(snapshot.chains)) {
+            if (supply.error) continue;
+            const symbols = (series[chain] ??= {});
+            for (const [symbol, value] of [['TOTAL', supply.total], ...Object.entries(supply.supplies)]) {
+                (symbols[symbol] ??= []).push({ timestamp: snapshot.timestamp, value });
+            }
+        }
+    }
+    return series;
+}
+
+/** Extract per-token (or per-chain total) series from daily rollups and the snapshots of the days they do not cover */
+export function extractSeries(
+    snapshots: Snapshot[],
+    intervalMs: number,
+    chain?: string,
+    symbol?: string,
+    rollups: DailyRollup[] = []
+): HistorySeries[] {
+    const samples = seriesSamples(snapshots);
+    const chains = chain ? [chain] : CHAIN_NAMES;
+    const pick = (symbols: string[]) => symbols.find((s) => (symbol ? s.toLowerCase() === symbol.toLowerCase() : s === 'TOTAL'));
+    return chains
+        .map((c) => {
+            let label = symbol ? symbol : 'TOTAL';
+            const daily = rollups.flatMap((rollup) => {
+                const key = pick(Object.keys(rollup.chains[c] || {}));
+                if (!key) return [];
+                label = key;
+                return [rollup.chains[c][key]];
+            });
+            const key = pick(Object.keys(samples[c] || {}));
+            if (key) label = key;
+            const hourly = key ? samples[c][key].map(samplePoint) : [];
+            const points = [...daily, ...hourly].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+            return { chain: c, symbol: label, points: mergePoints(points, intervalMs) };
+        })
+        .filter((series) => series.points.length > 0);
+}
+
+/**
+ * Snapshots of the days in `from`..`to` without a rollup, at most MAX_HOURLY_DAYS of the most recent; `omitted` counts
+ * the older uncovered days left out
+ */
+async function uncoveredSnapshots(
+    store: HistoryStore,
+    from: number,
+    to: number,
+    rollups: DailyRollup[]
+): Promise<{ snapshots: Snapshot[]; omitted: number }> {
+    const covered = new Set(rollups.map((rollup) => rollup.day));
+    const uncovered = daysIn(from, to).filter((day) => !covered.has(day));
+    const days = uncovered.slice(-HISTORY_CONFIG.MAX_HOURLY_DAYS);
+    const spans = await Promise.all(days.map((day) => store.range(Math.max(from, day), Math.min(to, day + DAY_MS - 1))));
+    return { snapshots: spans.flat(), omitted: uncovered.length - days.length };
+}
+
+// === Handler ===
+/** Handle `/history?symbol=&chain=&from=&to=&interval=&format=` */
+export async function handleHistory(request: Request, store: HistoryStore): Promise<Response> {
+    const params = new URL(request.url).searchParams;
+    const chain = params.get('chain') || undefined;
+    const symbol = params.get('symbol') || undefined;
+    const interval = params.get('interval') || HISTORY_CONFIG.DEFAULT_INTERVAL;
+
+    if (chain && !CHAIN_NAMES.includes(chain)) {
+        return json({ error: `Unknown chain "${chain}", expected one of: ${CHAIN_NAMES.join(', ')}` }, 400);
+    }
+    const intervalMs = parseInterval(interval);
+    if (!intervalMs) {
+        return json({ error: `Invalid interval "${interval}", expected e.g. 15m, 1h, 1d or 1w` }, 400);
+    }
+    const to = params.has('to') ? parseTimestamp(params.get('to')) : Date.now();
+    const from = params.has('from') ? parseTimestamp(params.get('from')) : to - HISTORY_CONFIG.DEFAULT_RANGE;
+    if (from === null || to === null || from > to) {
+        return json({ error: 'Invalid time range' }, 400);
+    }
+    if (to - from > HISTORY_CONFIG.MAX_RANGE_DAYS * DAY_MS) {
+        return json({ error: `Time range exceeds ${HISTORY_CONFIG.MAX_RANGE_DAYS} days` }, 400);
+    }
+    // Whole-day intervals are served from daily rollups; finer ones read every snapshot, so their range is shorter
+    const daily = intervalMs % DAY_MS === 0;
+    if (!daily && to - from > HISTORY_CONFIG.MAX_HOURLY_DAYS * DAY_MS) {
+        return json({ error: `Ranges over ${HISTORY_CONFIG.MAX_HOURLY_DAYS} days need a whole-day interval such as 1d or 1w` }, 400);
+    }
+
+    const format = negotiateFormat(request);
+    if (!format) return json({ error: `Invalid format, expected one of: ${EXPORT_FORMATS.join(', ')}` }, 400);
+
+    const rollups = daily ? await store.rollups(from, to) : [];
+    const { snapshots, omitted } = daily ? await uncoveredSnapshots(store, from, to, rollups) : { snapshots: await store.range(from, to), omitted: 0 };
+    const series = extractSeries(snapshots, intervalMs, chain, symbol, rollups);
+    return exportResponse(
+        format,
+        { from: new Date(from).toISOString(), to: new Date(to).toISOString(), interval, ...(omitted ? { omittedDays: omitted } : {}), series },
+        () => historyTable(series),
+        ['wbtc-history', chain, symbol].filter(Boolean).join('-')
+    );
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { holderConcentration } from './holders';
+import type { TokenHolders } from './types';
+import { sourceStatus, tokenAmount } from './utils';
+
+const BTC = 100_000_000n;
+
+/** An EVM index part way through its backfill: two holders with 30 BTC between them, as of block 19,000,000 */
+const INDEX: TokenHolders = {
+    symbol: 'wBTC',
+    decimals: 8,
+    supply: String(30n * BTC),
+    balances: { '0xaa': String(20n * BTC), '0xbb': String(10n * BTC) },
+    complete: false,
+    cursor: { block: '19000000', span: '2000' },
+};
+
+describe('holderConcentration', () => {
+    it('takes shares of the live supply and reports the indexed block', () => {
+        const live = { symbol: 'wBTC', ...tokenAmount(100n * BTC, 8), status: sourceStatus('ok') };
+        const summary = holderConcentration('ethereum', INDEX, {}, live);
+        expect(summary.supply).toBe('100');
+        expect(summary.coverage).toBe(0.3);
+        expect(summary.top.map((holder) => holder.share)).toEqual([0.2, 0.1]);
+        expect(summary.hhi).toBe(500);
+        expect(summary.block).toBe(19_000_000);
+    });
+
+    it("falls back to the index's own supply without a good reading", () => {
+        const failed = { symbol: 'wBTC', supply: '0', raw: '0', status: sourceStatus('error', 'HTTP 500') };
+        for (const live of [undefined, failed]) {
+            const summary = holderConcentration('ethereum', INDEX, {}, live);
+            expect(summary.supply).toBe('30');
+            expect(summary.coverage).toBe(1);
+        }
+    });
+
+    it('leaves out the block for indexes without one', () => {
+        expect(holderConcentration('solana', { ...INDEX, cursor: {} }, {})).not.toHaveProperty('block');
+    });
+});
@@ -0,0 +1,186 @@
+import { registryAdapters } from './chains';
+import { CONFIG } from './config';
+import { timed } from './metrics';
+import { loadRegistry } from './registry';
+import type { AddressCategory, AddressLabel, ApiPayload, HolderConcentration, HolderSummary, TokenHolders, TokenSupply } from './types';
+import { formatUnits } from './utils';
+
+// === Configuration ===
+const HOLDERS_CONFIG = {
+    INDEX_PREFIX: 'holders:index:', // one key per chain: TokenHolders[]
+    SUMMARY_KEY: 'holders:summary',
+    TOP_N: 10, // holders counted in top10Share
+};
+
+const ADDRESS_CATEGORIES: AddressCategory[] = ['bridge', 'exchange', 'lending', 'dex', 'custody', 'other'];
+
+// === Address Book ===
+/**
+ * Well-known holders per chain. EVM addresses are lowercase to match the balance index. Deployments can add or
+ * relabel entries through the ADDRESS_BOOK variable.
+ */
+export const ADDRESS_BOOK: Record<string, Record<string, AddressLabel>> = {
+    ethereum: {
+        '0x28c6c06298d514db089934071355e5743bf21d60': { label: 'Binance 14', category: 'exchange' },
+        '0xf977814e90da44bfa03b6295a0616a897441acec': { label: 'Binance 8', category: 'exchange' },
+        '0x9ff58f4ffb29fa2266ab25e75e2a8b3503311656': { label: 'Aave v2 (aWBTC)', category: 'lending' },
+        '0x5ee5bf7ae06d1be5997a1a72006fe6c607ec6de8': { label: 'Aave v3 (aEthWBTC)', category: 'lending' },
+        '0xccf4429db6322d5c611ee964527d42e5d685dd6a': { label: 'Compound (cWBTC2)', category: 'lending' },
+        '0xbbbbbbbbbb9cc5e90e3b3af64bdaf62c37eeffcb': { label: 'Morpho Blue', category: 'lending' },
+        '0x3ee18b2214aff97000d974cf647e7c347e8fa585': { label: 'Wormhole Token Bridge', category: 'bridge' },
+        '0xa3a7b6f88361f48403514059f1f16c8e78d60eec': { label: 'Arbitrum ERC-20 Gateway', category: 'bridge' },
+        '0x3154cf16ccdb4c6d922629664174b904d80f2c35': { label: 'Base Bridge', category: 'bridge' },
+        '0x99c9fc46f92e8a1c0dec1b1747d010903e884be1': { label: 'Optimism Gateway', category: 'bridge' },
+        '0x40ec5b33f54e0e8a33a975908c5ba1c14e5bbbdf': { label: 'Polygon ERC-20 Predicate', category: 'bridge' },
+        '0xcbcdf9626bc03e24f779434178a73a0b4bad62ed': { label: 'Uniswap v3 WBTC/ETH 0.3%', category: 'dex' },
+        '0xd51a44d3fae010294c616388b506acda1bfaae46': { label: 'Curve tricrypto2', category: 'dex' },
+    },
+};
+
+/** Normalize an address for book lookups: EVM addresses are case-insensitive, Solana's base58 is not */
+function bookKey(address: string): string {
+    return address.startsWith('0x') ? address.toLowerCase() : address;
+}
+
+/** Merge `{ "<chain>": { "<address>": { "label": "...", "category": "..." } } }` from ADDRESS_BOOK into the built-in book */
+export function loadAddressBook(bookJson?: string): Record<string, Record<string, AddressLabel>> {
+    if (!bookJson) return ADDRESS_BOOK;
+    let extra: Record<string, unknown>;
+    try {
+        extra = JSON.parse(bookJson);
+    } catch (err) {
+        console.error('Invalid ADDRESS_BOOK:', err);
+        return ADDRESS_BOOK;
+    }
+    const book = Object.fromEntries(Object.entries(ADDRESS_BOOK).map(([chain, entries]) => [chain, { ...entries }]));
+    for (const [chain, entries] of Object.entries(extra)) {
+        if (!entries || typeof entries !== 'object') continue;
+        for (const [address, entry] of Object.entries(entries as Record<string, { label?: unknown; category?: unknown }>)) {
+            if (typeof entry?.label !== 'string') continue;
+            const category = ADDRESS_CATEGORIES.find((known) => known === entry.category) ?? 'other';
+            book[chain] = { ...book[chain], [bookKey(address)]: { label: entry.label, category } };
+        }
+    }
+    return book;
+}
+
+// === Concentration ===
+function shareOf(balance: bigint, supply: bigint): number {
+    return supply > 0n ? Number((balance * 1_000_000n) / supply) / 1_000_000 : 0;
+}
+
+/**
+ * Concentration of one token's known holders. Shares are of the token's live supply (`live`, the latest reading),
+ * else of `holders.supply`, so when the holder list is incomplete (Solana, or an EVM index still backfilling)
+ * `coverage` is below 1 and `hhi` is a lower bound.
+ */
+export function holderConcentration(
+    chain: string,
+    holders: TokenHolders,
+    book: Record<string, Record<string, AddressLabel>>,
+    live?: TokenSupply,
+    top: number = CONFIG.HOLDERS_TOP
+): HolderConcentration {
+    const supply = live?.raw && live.status?.state !== 'error' ? BigInt(live.raw) : BigInt(holders.supply);
+    const ranked = Object.entries(holders.balances)
+        .map(([address, balance]) => ({ address, balance: BigInt(balance) }))
+        .filter((holder) => holder.balance > 0n)
+        .sort((a, b) => (b.balance > a.balance ? 1 : b.balance < a.balance ? -1 : 0));
+    const sum = (list: typeof ranked) => list.reduce((total, holder) => total + holder.balance, 0n);
+    const hhi = ranked.reduce((total, holder) => total + (shareOf(holder.balance, supply) * 100) ** 2, 0);
+
+    return {
+        chain,
+        symbol: holders.symbol,
+        supply: formatUnits(supply, holders.decimals),
+        holders: ranked.length,
+        complete: holders.complete,
+        ...(holders.cursor.block ? { block: Number(holders.cursor.block) } : {}),
+        coverage: shareOf(sum(ranked), supply),
+        top10Share: shareOf(sum(ranked.slice(0, HOLDERS_CONFIG.TOP_N)), supply),
+        hhi: Math.round(hhi * 100) / 100,
+        top: ranked.slice(0, top).map((holder) => ({
+            address: holder.address,
+            balance: formatUnits(holder.balance, holders.decimals),
+            share: shareOf(holder.balance, supply),
+            ...book[chain]?.[bookKey(holder.address)],
+        })),
+    };
+}
+
+// === Stores ===
+/** Storage for the per-chain balance indexes and the concentration summary built from them */
+export interface HolderStore {
+    index(chain: string): Promise<TokenHolders[] | null>;
+    setIndex(chain: string, holders: TokenHolders[]): Promise<void>;
+    summary(): Promise<HolderSummary | null>;
+    setSummary(summary: HolderSummary): Promise<void>;
+}
+
+/** Holder store backed by a KV namespace; the summary is kept apart so reads do not load full indexes */
+export function kvHolderStore(kv: KVNamespace): HolderStore {
+    return {
+        async index(chain) {
+            return kv.get<TokenHolders[]>(HOLDERS_CONFIG.INDEX_PREFIX + chain, 'json');
+        },
+        async setIndex(chain, holders) {
+            await kv.put(HOLDERS_CONFIG.INDEX_PREFIX + chain, JSON.stringify(holders));
+        },
+        async summary() {
+            return kv.get<HolderSummary>(HOLDERS_CONFIG.SUMMARY_KEY, 'json');
+        },
+        async setSummary(summary) {
+            await kv.put(HOLDERS_CONFIG.SUMMARY_KEY, JSON.stringify(summary));
+        },
+    };
+}
+
+/** In-memory holder store, used when no KV binding is configured (local development) */
+export function memoryHolderStore(): HolderStore {
+    const indexes = new Map<string, TokenHolders[]>();
+    let latest: HolderSummary | null = null;
+    return {
+        async index(chain) {
+            return indexes.get(chain) ?? null;
+        },
+        async setIndex(chain, holders) {
+            indexes.set(chain, holders);
+        },
+        async summary() {
+            return latest;
+        },
+        async setSummary(summary) {
+            latest = summary;
+        },
+    };
+}
+
+/** Fallback store for `wrangler dev` without a HOLDER_INDEX binding */
+const localHolders = memoryHolderStore();
+
+export function holderStore(env: Env): HolderStore {
+    return env.HOLDER_INDEX ? kvHolderStore(env.HOLDER_INDEX) : localHolders;
+}
+
+// === Indexing ===
+/**
+ * Update every chain's holder index and rebuild the summary, taking shares of the supplies in `payload`. Chains are
+ * indexed one after another to stay within the subrequest limit; a chain that fails keeps its previous index and
+ * summary entries.
+ */
+export async function indexHolders(env: Env, payload?: ApiPayload, store: HolderStore = holderStore(env)): Promise<void> {
+    const book = loadAddressBook(env.ADDRESS_BOOK);
+    const tokens: HolderConcentration[] = [];
+    for (const adapter of registryAdapters(await loadRegistry(env))) {
+        let holders = await store.index(adapter.name);
+        try {
+            holders = await timed(`${adapter.name}-holders`, () => adapter.fetchHolders(holders));
+            await store.setIndex(adapter.name, holders);
+        } catch (err) {
+            console.error(`${adapter.label} holder indexing failed:`, err);
+        }
+        const live = payload?.chains[adapter.name]?.tokens;
+        tokens.push(...(holders || []).map((entry) => holderConcentration(adapter.name, entry, book, live?.find((token) => token.symbol === entry.symbol))));
+    }
+    await store.setSummary({ updatedAt: new Date().toISOString(), tokens });
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { escapeHtml, html, jsonScript, raw, safeUrl } from './html';
+
+describe('escapeHtml', () => {
+    it('escapes markup and both quote styles', () => {
+        expect(escapeHtml(`<a href="x" title='y'>Tom & Jerry</a>`)).toBe('&lt;a href=&quot;x&quot; title=&#39;y&#39;&gt;Tom &amp; Jerry&lt;/a&gt;');
+        expect(escapeHtml('&amp;')).toBe('&amp;amp;');
+        expect(escapeHtml(42)).toBe('42');
+    });
+});
+
+describe('html', () => {
+    it('escapes interpolations but passes nested templates and trusted markup through', () => {
+        const name = '<img src=x onerror=alert(1)>';
+        const out = html`<td title="${name}">${[html`<b>${name}</b>`, raw('&nbsp;'), null, undefined, false, 0]}</td>`;
+        expect(out.value).toBe(
+            '<td title="&lt;img src=x onerror=alert(1)&gt;"><b>&lt;img src=x onerror=alert(1)&gt;</b>&nbsp;0</td>'
+        );
+    });
+});
+
+describe('jsonScript', () => {
+    it('cannot close its script element or break out through line separators', () => {
+        const value = { note: '</script><script>alert(1)</script>', amp: 'a & b', lines: 'a\u2028b\u2029c' };
+        const out = jsonScript(value).value;
+        expect(out).not.toMatch(/[<>&\u2028\u2029]/);
+        expect(out).toContain('\\u003c/script\\u003e');
+        expect(out).toContain('a \\u0026 b');
+        expect(out).toContain('a\\u2028b\\u2029c');
+        expect(JSON.parse(out)).toEqual(value);
+    });
+
+    it('renders undefined as null', () => {
+        expect(jsonScript(undefined).value).toBe('null');
+    });
+});
+
+describe('safeUrl', () => {
+    it('keeps http(s) URLs and same-origin paths', () => {
+        for (const url of ['https://etherscan.io/token/0x1', 'HTTP://example.com', '/assets/logo.svg']) expect(safeUrl(url)).toBe(url);
+    });
+
+    it('replaces script, data and protocol-relative URLs', () => {
+        for (const url of ['javascript:alert(1)', 'JavaScript:alert(1)', ' javascript:alert(1)', 'data:text/html,<b>', '//evil.example', 'mailto:a@b']) {
+            expect(safeUrl(url)).toBe('#');
+        }
+    });
+});
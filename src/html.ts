@@ -0,0 +1,74 @@
+// === Safe Templating ===
+/** Markup that is already escaped or trusted, inserted into `html` templates as-is */
+export class SafeHtml {
+    constructor(readonly value: string) {}
+
+    toString(): string {
+        return this.value;
+    }
+}
+
+const ENTITIES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+/** Escape text for an element body or a quoted attribute value */
+export function escapeHtml(value: unknown): string {
+    return String(value).replace(/[&<>"']/g, (ch) => ENTITIES[ch]);
+}
+
+type Value = SafeHtml | string | number | boolean | null | undefined | Value[];
+
+function render(value: Value): string {
+    if (value === null || value === undefined || value === false) return '';
+    if (value instanceof SafeHtml) return value.value;
+    if (Array.isArray(value)) return value.map(render).join('');
+    return escapeHtml(value);
+}
+
+/**
+ * Tagged template that escapes every interpolation for text and quoted-attribute contexts.
+ * `SafeHtml` values (including nested `html` results) pass through; arrays are joined; null, undefined and false render nothing.
+ * Attribute values must be quoted in the template.
+ */
+export function html(strings: TemplateStringsArray, ...values: Value[]): SafeHtml {
+    return new SafeHtml(strings.reduce((out, chunk, i) => out + chunk + (i < values.length ? render(values[i]) : ''), ''));
+}
+
+/** Trusted markup, e.g. a fixed string with entities; never pass upstream data here */
+export function raw(markup: string): SafeHtml {
+    return new SafeHtml(markup);
+}
+
+/** URL for an href/src attribute: http(s) or same-origin paths only, anything else becomes `#` */
+export function safeUrl(url: string): string {
+    return /^(https?:\/\/|\/(?!\/))/i.test(url) ? url : '#';
+}
+
+/**
+ * JSON for the body of a `<script type="application/json">` element. `<`, `>`, `&` and the JS line separators are
+ * \u-escaped so the data can neither close the element nor be read as markup.
+ */
+export function jsonScript(value: unknown): SafeHtml {
+    return new SafeHtml(
+        JSON.stringify(value ?? null).replace(/[<>&\u2028\u2029]/g, (ch) => `\\u${ch.charCodeAt(0).toString(16).padStart(4, '0')}`)
+    );
+}
+
+// === Content Security Policy ===
+/** Random per-response nonce for `script-src` */
+export function createNonce(): string {
+    return btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(16))));
+}
+
+/** Strict policy for server-rendered pages: only nonce-bearing scripts, same-origin styles and connections */
+export function contentSecurityPolicy(nonce: string): string {
+    return [
+        "default-src 'none'",
+        `script-src 'nonce-${nonce}'`,
+        "style-src 'self'",
+        "img-src 'self' data:",
+        "connect-src 'self'",
+        "base-uri 'none'",
+        "form-action 'none'",
+        "frame-ancestors 'none'",
+    ].join('; ');
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import worker from './index';
+
+const ENV = {} as Env;
+const CTX = { waitUntil: () => {}, passThroughOnException: () => {} } as unknown as ExecutionContext;
+
+async function get(path: string): Promise<Response> {
+    return worker.fetch(new Request(`https://example.com${path}`), ENV, CTX);
+}
+
+describe('router', () => {
+    it('describes every API route in the OpenAPI document', async () => {
+        const resp = await get('/openapi.json');
+        expect(resp.status).toBe(200);
+        const { paths } = await resp.json<{ paths: Record<string, unknown> }>();
+        expect(Object.keys(paths)).toEqual(
+            expect.arrayContaining(['/api/v1/supply', '/api/v1/supply/{chain}', '/api/v1/tokens/{symbol}', '/api/v1/btc', '/api/v1/holders'])
+        );
+    });
+
+    it('answers unknown paths with a JSON 404', async () => {
+        const resp = await get('/api/v2/supply');
+        expect(resp.status).toBe(404);
+        expect(await resp.json()).toEqual({ error: 'No route for GET /api/v2/supply, see /docs' });
+    });
+
+    it('rejects unknown chains and invalid read pins before reading any upstream', async () => {
+        const chain = await get('/api/v1/supply/nowhere');
+        expect(chain.status).toBe(404);
+        expect((await chain.json<{ error: string }>()).error).toMatch(/^Unknown chain "nowhere"/);
+
+        const pin = await get('/api/v1/supply?ethBlock=latest');
+        expect(pin.status).toBe(400);
+        expect(await pin.json()).toMatchObject({ success: false, errors: [{ path: ['query', 'ethBlock'] }] }); // Rejected by the route schema
+    });
+
+    it('reports holders as not indexed until the first cron run', async () => {
+        const resp = await get('/api/v1/holders');
+        expect(resp.status).toBe(503);
+        expect(resp.headers.get('Cache-Control')).toBe('no-store');
+    });
+});
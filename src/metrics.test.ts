@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { recordFetch, renderMetrics, timed } from './metrics';
+import type { ApiPayload } from './types';
+import { sourceStatus, tokenAmount } from './utils';
+
+function payload(): ApiPayload {
+    return {
+        chains: {
+            ethereum: {
+                label: 'Ethereum',
+                total: '1,234.5',
+                tokens: [
+                    { symbol: 'wBTC', address: '0xabc', ...tokenAmount(123_450_000_000n, 8), status: sourceStatus('ok') },
+                    { symbol: 'cbBTC', address: '0xdef', supply: '0', status: sourceStatus('error', 'HTTP 502') },
+                ],
+                partial: true,
+            },
+        },
+        grandTotal: '1,234.5',
+        netUniqueBTC: '1,234.5',
+        currentlyMintedBTC: '19,800,000',
+        solBtcPrice: 0.0015,
+        prices: { assets: {}, source: null, status: sourceStatus('error') },
+    } as unknown as ApiPayload;
+}
+
+/** Sample lines of a rendered exposition, without the HELP and TYPE comments */
+function samples(text: string): string[] {
+    return text.split('\n').filter((line) => line && !line.startsWith('#'));
+}
+
+describe('renderMetrics', () => {
+    it('exposes token, chain and payload gauges with failed reads as not ok', () => {
+        const lines = samples(renderMetrics(payload()));
+        expect(lines).toEqual(
+            expect.arrayContaining([
+                'wbtc_token_supply_btc{chain="ethereum",symbol="wBTC",address="0xabc"} 1234.5',
+                'wbtc_token_read_ok{chain="ethereum",symbol="wBTC",address="0xabc"} 1',
+                'wbtc_token_read_ok{chain="ethereum",symbol="cbBTC",address="0xdef"} 0',
+                'wbtc_chain_total_btc{chain="ethereum"} 1234.5',
+                'wbtc_chain_partial{chain="ethereum"} 1',
+                'btc_mined_supply_btc 19800000',
+                'sol_btc_price 0.0015',
+            ])
+        );
+        expect(lines.some((line) => line.startsWith('btc_price'))).toBe(false); // No BTC price was read
+    });
+
+    it('counts upstream fetches, failures and thrown errors', async () => {
+        recordFetch('esplora', 250, true);
+        await timed('esplora', async () => ({ error: 'HTTP 500' }), (result) => !!result.error);
+        await expect(
+            timed('esplora', async () => {
+                throw new Error('timeout');
+            })
+        ).rejects.toThrow('timeout');
+
+        const lines = samples(renderMetrics(payload()));
+        expect(lines).toContain('wbtc_upstream_fetch_duration_seconds_count{upstream="esplora"} 3');
+        expect(lines).toContain('wbtc_upstream_fetch_errors_total{upstream="esplora"} 2');
+    });
+
+    it('escapes label values', () => {
+        recordFetch('rpc "a"\\b\nc', 1, true);
+        expect(renderMetrics(payload())).toContain('{upstream="rpc \\"a\\"\\\\b\\nc"}');
+    });
+
+    it('names counter families without _total and ends with EOF in OpenMetrics', () => {
+        recordFetch('solana', 1, false);
+        const text = renderMetrics(payload(), true);
+        expect(text).toContain('# TYPE wbtc_upstream_fetch_errors counter\n');
+        expect(text).toContain('\nwbtc_upstream_fetch_errors_total{upstream="solana"} 1\n');
+        expect(text.endsWith('# EOF\n')).toBe(true);
+        expect(renderMetrics(payload())).toContain('# TYPE wbtc_upstream_fetch_errors_total counter\n');
+    });
+});
@@ -0,0 +1,170 @@
+import type { ApiPayload } from './types';
+
+// === Upstream Counters ===
+/** Fetch counters for one upstream, kept per isolate (Prometheus `rate()` handles the resets) */
+interface UpstreamStats {
+    requests: number;
+    errors: number;
+    durationSum: number; // seconds
+}
+
+const upstreams = new Map<string, UpstreamStats>();
+
+/** Record one upstream fetch */
+export function recordFetch(upstream: string, ms: number, ok: boolean): void {
+    const stats = upstreams.get(upstream) || { requests: 0, errors: 0, durationSum: 0 };
+    stats.requests++;
+    if (!ok) stats.errors++;
+    stats.durationSum += ms / 1000;
+    upstreams.set(upstream, stats);
+}
+
+/** Run `fn` and record its latency and outcome against `upstream` */
+export async function timed<T>(upstream: string, fn: () => Promise<T>, failed: (result: T) => boolean = () => false): Promise<T> {
+    const start = performance.now();
+    try {
+        const result = await fn();
+        recordFetch(upstream, performance.now() - start, !failed(result));
+        return result;
+    } catch (err) {
+        recordFetch(upstream, performance.now() - start, false);
+        throw err;
+    }
+}
+
+// === Exposition ===
+type Labels = Record<string, string | undefined>;
+
+interface Family {
+    name: string;
+    type: 'gauge' | 'counter' | 'summary';
+    help: string;
+    samples: Array<{ suffix?: string; labels: Labels; value: number }>;
+}
+
+function escapeLabel(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+    const pairs = Object.entries(labels)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+    return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+/** Parse a decimal string that may carry thousands separators */
+function amount(value: string): number {
+    return parseFloat(value.replace(/,/g, '')) || 0;
+}
+
+/** Render in the Prometheus text format, or OpenMetrics when `openMetrics` is set */
+function render(families: Family[], openMetrics: boolean): string {
+    const lines: string[] = [];
+    for (const family of families) {
+        // OpenMetrics names the counter family without its `_total` sample suffix
+        const name = openMetrics && family.type === 'counter' ? family.name.replace(/_total$/, '') : family.name;
+        lines.push(`# HELP ${name} ${family.help}`, `# TYPE ${name} ${family.type}`);
+        for (const sample of family.samples) {
+            lines.push(`${family.name}${sample.suffix || ''}${formatLabels(sample.labels)} ${sample.value}`);
+        }
+    }
+    if (openMetrics) lines.push('# EOF');
+    return lines.join('\n') + '\n';
+}
+
+/** Supply gauges from a payload plus this isolate's upstream counters */
+export function renderMetrics(payload: ApiPayload, openMetrics: boolean = false): string {
+    const tokens: Family['samples'] = [];
+    const tokenOk: Family['samples'] = [];
+    const pegs: Family['samples'] = [];
+    for (const [chain, supply] of Object.entries(payload.chains)) {
+        for (const token of [...supply.tokens, ...(supply.deprecated || [])]) {
+            const labels = { chain, symbol: token.symbol, address: token.address, mint: token.mint };
+            tokens.push({ labels, value: amount(token.supply) });
+            const state = token.status?.state;
+            tokenOk.push({ labels, value: state === 'error' || state === 'stale' ? 0 : 1 });
+            if (token.peg) pegs.push({ labels, value: token.peg.deviation });
+        }
+    }
+    const chains = Object.entries(payload.chains);
+    const stats = [...upstreams.entries()];
+
+    return render(
+        [
+            { name: 'wbtc_token_supply_btc', type: 'gauge', help: 'Wrapped BTC token supply.', samples: tokens },
+            {
+                name: 'wbtc_token_read_ok',
+                type: 'gauge',
+                help: '1 when the token supply was read live, 0 when it is stale or failed.',
+                samples: tokenOk,
+            },
+            {
+                name: 'wbtc_chain_total_btc',
+                type: 'gauge',
+                help: 'Sum of active token supplies on a chain.',
+                samples: chains.map(([chain, supply]) => ({ labels: { chain }, value: amount(supply.total) })),
+            },
+            {
+                name: 'wbtc_chain_partial',
+                type: 'gauge',
+                help: '1 when a chain total is missing a token that failed to read.',
+                samples: chains.map(([chain, supply]) => ({ labels: { chain }, value: supply.partial ? 1 : 0 })),
+            },
+            {
+                name: 'wbtc_grand_total_btc',
+                type: 'gauge',
+                help: 'Raw sum of every tracked token.',
+                samples: [{ labels: {}, value: amount(payload.grandTotal) }],
+            },
+            {
+                name: 'wbtc_net_unique_btc',
+                type: 'gauge',
+                help: 'Grand total minus bridged supply counted on its source chain.',
+                samples: [{ labels: {}, value: amount(payload.netUniqueBTC) }],
+            },
+            {
+                name: 'btc_mined_supply_btc',
+                type: 'gauge',
+                help: 'Currently mined BTC.',
+                samples: [{ labels: {}, value: amount(payload.bitcoinSupply?.btc ?? payload.currentlyMintedBTC) }],
+            },
+            {
+                name: 'sol_btc_price',
+                type: 'gauge',
+                help: 'SOL price in BTC.',
+                samples: [{ labels: {}, value: payload.solBtcPrice }],
+            },
+            {
+                name: 'btc_price',
+                type: 'gauge',
+                help: 'BTC price in each fiat currency.',
+                samples: (['usd', 'eur'] as const)
+                    .filter((currency) => payload.prices?.assets.bitcoin?.[currency])
+                    .map((currency) => ({ labels: { currency }, value: payload.prices.assets.bitcoin[currency] })),
+            },
+            {
+                name: 'wbtc_token_peg_deviation',
+                type: 'gauge',
+                help: 'Token market price in BTC minus 1.',
+                samples: pegs,
+            },
+            {
+                name: 'wbtc_upstream_fetch_duration_seconds',
+                type: 'summary',
+                help: 'Upstream fetch latency.',
+                samples: stats.flatMap(([upstream, s]) => [
+                    { suffix: '_sum', labels: { upstream }, value: Number(s.durationSum.toFixed(6)) },
+                    { suffix: '_count', labels: { upstream }, value: s.requests },
+                ]),
+            },
+            {
+                name: 'wbtc_upstream_fetch_errors_total',
+                type: 'counter',
+                help: 'Failed upstream fetches.',
+                samples: stats.map(([upstream, s]) => ({ labels: { upstream }, value: s.errors })),
+            },
+        ],
+        openMetrics
+    );
+}
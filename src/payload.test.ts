@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fetchBitcoinSupply } from './bitcoin';
+import { cacheHeaders } from './cache';
+import { fetchAllChains } from './chains';
+import { buildPayload, historyStore } from './payload';
+import { fetchPrices } from './prices';
+import type { ChainSupply, PriceSnapshot, SourceStatus } from './types';
+import { calculateTotal, formatBtc, sourceStatus, tokenAmount } from './utils';
+
+vi.mock('./bitcoin', async (importOriginal) => ({ ...(await importOriginal<typeof import('./bitcoin')>()), fetchBitcoinSupply: vi.fn() }));
+vi.mock('./chains', async (importOriginal) => ({ ...(await importOriginal<typeof import('./chains')>()), fetchAllChains: vi.fn() }));
+vi.mock('./prices', async (importOriginal) => ({ ...(await importOriginal<typeof import('./prices')>()), fetchPrices: vi.fn() }));
+
+const ENV = {} as Env;
+const BTC = 100_000_000n;
+const MINTED = 19_800_000n * BTC;
+
+function chains(status: SourceStatus = sourceStatus('ok'), partial = false): Record<string, ChainSupply> {
+    const tokens = [{ symbol: 'wBTC', ...tokenAmount(100n * BTC, 8), status }];
+    return { ethereum: { label: 'Ethereum', tokens, total: calculateTotal(tokens), ...(partial ? { partial } : {}) } };
+}
+
+function prices(solBtc?: number): PriceSnapshot {
+    const assets = { bitcoin: { usd: 100_000, eur: 90_000, btc: 1 }, ...(solBtc ? { solana: { usd: solBtc * 100_000, eur: solBtc * 90_000, btc: solBtc } } : {}) };
+    return { assets, source: 'test', status: sourceStatus(solBtc ? 'ok' : 'error', solBtc ? undefined : 'HTTP 429') };
+}
+
+function minted(sats: bigint | null) {
+    const status = sats === null ? sourceStatus('error', 'No Bitcoin supply source responded') : sourceStatus('ok');
+    return { value: formatBtc(sats ?? 0n), status, supply: { sats: String(sats ?? 0n), btc: '0', source: sats === null ? null : 'test', readings: [] } };
+}
+
+beforeEach(() => {
+    vi.mocked(fetchAllChains).mockResolvedValue(chains());
+    vi.mocked(fetchBitcoinSupply).mockResolvedValue(minted(MINTED));
+    vi.mocked(fetchPrices).mockResolvedValue(prices(0.0015));
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('buildPayload', () => {
+    it('is ok when every source read live', async () => {
+        const payload = await buildPayload(ENV);
+        expect(payload).toMatchObject({ dataStatus: 'ok', partial: false, solBtcPrice: 0.0015, solBtcPriceStatus: { state: 'ok' } });
+    });
+
+    it('marks the built-in SOL price as a fallback and the payload as degraded', async () => {
+        vi.mocked(fetchPrices).mockResolvedValue(prices());
+        const payload = await buildPayload(ENV);
+        expect(payload.solBtcPrice).toBe(0.002);
+        expect(payload.solBtcPriceStatus).toMatchObject({ state: 'fallback', reason: 'Built-in estimate; HTTP 429' });
+        expect(payload.dataStatus).toBe('degraded');
+    });
+
+    it('reports a stale token as degraded and a total missing a token as partial', async () => {
+        vi.mocked(fetchAllChains).mockResolvedValue(chains(sourceStatus('stale', 'HTTP 502')));
+        expect((await buildPayload(ENV)).dataStatus).toBe('degraded');
+
+        vi.mocked(fetchAllChains).mockResolvedValue(chains(sourceStatus('error', 'HTTP 502'), true));
+        const payload = await buildPayload(ENV);
+        expect(payload).toMatchObject({ dataStatus: 'partial', partial: true });
+        expect(cacheHeaders({ payload, status: 'MISS', builtAt: Date.now(), age: 0, ttl: 60 })['X-Data-Status']).toBe('partial');
+    });
+
+    it('publishes the last stored BTC supply as stale when every source fails', async () => {
+        vi.mocked(fetchBitcoinSupply).mockResolvedValue(minted(null));
+        const failed = await buildPayload(ENV, { lastGood: async () => null });
+        expect(failed).toMatchObject({ currentlyMintedBTC: '0', currentlyMintedBTCStatus: { state: 'error' }, dataStatus: 'degraded' });
+
+        const storedAt = Date.now() - 60_000;
+        await historyStore(ENV).append({ timestamp: storedAt, chains: {}, currentlyMintedBTC: formatBtc(MINTED), mintedSats: MINTED.toString() });
+        const stale = await buildPayload(ENV, { lastGood: async () => null });
+        expect(stale.currentlyMintedBTC).toBe(formatBtc(MINTED));
+        expect(stale.currentlyMintedBTCStatus).toEqual({
+            state: 'stale',
+            reason: 'No Bitcoin supply source responded',
+            asOf: new Date(storedAt).toISOString(),
+        });
+        expect(stale.bitcoinSupply).toMatchObject({ sats: MINTED.toString(), btc: '19800000', source: 'snapshot' });
+    });
+});
@@ -0,0 +1,145 @@
+import { bitcoinSupplySources, fetchBitcoinSupply } from './bitcoin';
+import { deduplicate } from './bridges';
+import { projectCatchUp } from './catchup';
+import { CHAIN_NAMES, fetchAllChains, type FetchOptions } from './chains';
+import { CONFIG } from './config';
+import { kvHistoryStore, memoryHistoryStore, mintedAt, parseTimestamp, snapshotAt, type HistoryStore } from './history';
+import { annotatePrices, fetchPrices, priceProviders, registryPriceIds, totalValue, valueBtc } from './prices';
+import { loadRegistry } from './registry';
+import { annotateReserves, computeReserves, esploraSource, loadIssuers } from './reserves';
+import type { ApiPayload, ChainSupply, DataStatus, PriceSnapshot, ReadPin, SourceStatus } from './types';
+import { formatBtc, formatUnits, sourceStatus } from './utils';
+
+// === Payload ===
+/** Fetch every upstream and assemble the API payload */
+export async function buildPayload(env: Env, options: FetchOptions = {}): Promise<ApiPayload> {
+    const registry = await loadRegistry(env);
+    const [chains, btcSupply, prices] = await Promise.all([
+        fetchAllChains(registry, options),
+        fetchBitcoinSupply(bitcoinSupplySources(env.BTC_ESPLORA_API || CONFIG.BTC_ESPLORA_API)),
+        fetchPrices(priceProviders(env.PRICE_API), registryPriceIds(registry)),
+    ]);
+
+    // Custody balances are only available for the present, so pinned reads skip the reserves check
+    const pinned = Object.keys(options.pins || {}).length > 0;
+    const reserves = pinned
+        ? []
+        : await computeReserves(chains, loadIssuers(env.CUSTODY_ADDRESSES), esploraSource(env.BTC_ESPLORA_API || CONFIG.BTC_ESPLORA_API));
+    annotateReserves(chains, reserves);
+
+    // Prices are only available for the present, so pinned reads are valued at today's prices
+    const depegs = annotatePrices(chains, registry, prices);
+    if (depegs.length) console.warn('Depegged tokens:', depegs);
+    const solBtcPrice = solPrice(prices);
+    const deduplication = deduplicate(chains);
+
+    // Publish the last stored figure rather than a zero when the BTC supply upstream is down
+    let minted = btcSupply;
+    if (btcSupply.status.state === 'error' && options.lastGood) {
+        const stored = await mintedAt(historyStore(env), Date.now());
+        if (stored) {
+            const sats = BigInt(stored.sats);
+            minted = {
+                value: formatBtc(sats),
+                status: sourceStatus('stale', btcSupply.status.reason, stored.timestamp),
+                supply: { ...btcSupply.supply, sats: stored.sats, btc: formatUnits(sats, 8), source: 'snapshot' },
+            };
+        }
+    }
+
+    const partial = Object.values(chains).some((chain) => chain.partial);
+    // Rates compare against the present, so pinned reads have no projection
+    const catchUp = pinned
+        ? null
+        : await projectCatchUp(historyStore(env), chains).catch((err) => {
+              console.error('Catch-up projection failed:', err);
+              return null;
+          });
+
+    return {
+        chains,
+        ethereum: chains.ethereum?.tokens || [],
+        solana: chains.solana?.tokens || [],
+        ethereumTotal: chains.ethereum?.total || '0.00000000',
+        solanaTotal: chains.solana?.total || '0.00000000',
+        grandTotal: deduplication.rawTotal,
+        netUniqueBTC: deduplication.netUniqueBTC,
+        deduplication,
+        currentlyMintedBTC: minted.value,
+        currentlyMintedBTCStatus: minted.status,
+        bitcoinSupply: minted.supply,
+        lastUpdated: new Date().toLocaleString('en-US', { timeZone: 'UTC' }),
+        solBtcPrice: solBtcPrice.value, // Added to payload
+        solBtcPriceStatus: solBtcPrice.status,
+        prices,
+        grandTotalValue: totalValue(chains),
+        netUniqueValue: valueBtc(deduplication.netUniqueBTC, prices),
+        depegs,
+        partial,
+        dataStatus: partial ? 'partial' : dataStatus([minted.status, prices.status, ...Object.values(chains).flatMap(chainStatuses)]),
+        reserves,
+        catchUp,
+    };
+}
+
+/** SOL/BTC for the staking maths, with a built-in estimate when no provider priced SOL */
+function solPrice(prices: PriceSnapshot): { value: number; status: SourceStatus } {
+    const price = prices.assets.solana?.btc;
+    if (price) return { value: price, status: prices.status };
+    // Fallback price (~$100/SOL ÷ $50,000/BTC, rough estimate for April 2025)
+    return { value: 0.002, status: sourceStatus('fallback', `Built-in estimate; ${prices.status.reason || 'no SOL price'}`) };
+}
+
+function chainStatuses(chain: ChainSupply): SourceStatus[] {
+    return [...chain.tokens, ...(chain.deprecated || [])].map((token) => token.status).filter(Boolean);
+}
+
+/** `degraded` when any source is not `ok` */
+function dataStatus(statuses: SourceStatus[]): DataStatus {
+    return statuses.every((status) => status.state === 'ok') ? 'ok' : 'degraded';
+}
+
+/** Parse `?ethBlock=`, `?solSlot=` and `?at=` into per-chain read pins */
+function parsePins(params: URLSearchParams): { pins: Record<string, ReadPin> } | { error: string } {
+    const pins: Record<string, ReadPin> = {};
+    if (params.has('at')) {
+        const timestamp = parseTimestamp(params.get('at'));
+        if (timestamp === null) return { error: 'Invalid at, expected an ISO 8601 date or unix timestamp' };
+        for (const name of CHAIN_NAMES) pins[name] = { timestamp };
+    }
+    if (params.has('ethBlock')) {
+        const block = Number(params.get('ethBlock'));
+        if (!Number.isSafeInteger(block) || block < 0) return { error: 'Invalid ethBlock, expected a block number' };
+        pins.ethereum = { block };
+    }
+    if (params.has('solSlot')) {
+        const slot = Number(params.get('solSlot'));
+        if (!Number.isSafeInteger(slot) || slot < 0) return { error: 'Invalid solSlot, expected a slot number' };
+        pins.solana = { slot };
+    }
+    return { pins };
+}
+
+// === History ===
+/** Fallback store for `wrangler dev` without a SUPPLY_HISTORY binding */
+const localHistory = memoryHistoryStore();
+
+export function historyStore(env: Env): HistoryStore {
+    return env.SUPPLY_HISTORY ? kvHistoryStore(env.SUPPLY_HISTORY) : localHistory;
+}
+
+// === Request Options ===
+/** Read options from a request's `?quorum=`, `?ethBlock=`, `?solSlot=` and `?at=` parameters */
+export function readOptions(env: Env, params: URLSearchParams): { options: FetchOptions } | { error: string } {
+    const parsed = parsePins(params);
+    if ('error' in parsed) return parsed;
+    const store = historyStore(env);
+    return {
+        options: {
+            quorum: params.has('quorum') ? params.get('quorum') !== '0' : CONFIG.QUORUM_MODE,
+            pins: parsed.pins,
+            historical: (chain, timestamp, slot) => snapshotAt(store, chain, timestamp, slot),
+            lastGood: (chain) => snapshotAt(store, chain, Date.now()),
+        },
+    };
+}
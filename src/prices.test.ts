@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CONFIG } from './config';
+import { annotatePrices, fetchPrices, type PriceProvider } from './prices';
+import type { ChainSupply, PriceSnapshot, TokenEntry, Valuation } from './types';
+import { sourceStatus, tokenAmount } from './utils';
+
+const BTC_USD = 100_000;
+
+function valuation(btc: number): Valuation {
+    return { usd: btc * BTC_USD, eur: btc * 90_000, btc };
+}
+
+function snapshot(assets: Record<string, number>): PriceSnapshot {
+    return { assets: Object.fromEntries(Object.entries(assets).map(([id, btc]) => [id, valuation(btc)])), source: 'test', status: sourceStatus('ok') };
+}
+
+const REGISTRY: TokenEntry[] = [
+    { chain: 'ethereum', symbol: 'wBTC', address: `0x${'1'.repeat(40)}`, status: 'active', priceId: 'wrapped-bitcoin' },
+    { chain: 'ethereum', symbol: 'tBTCv2', address: `0x${'2'.repeat(40)}`, status: 'active', priceId: 'tbtc' },
+    { chain: 'ethereum', symbol: 'FBTC', address: `0x${'3'.repeat(40)}`, status: 'active' },
+    { chain: 'ethereum', symbol: 'renBTC', address: `0x${'4'.repeat(40)}`, status: 'deprecated', priceId: 'renbtc' },
+];
+
+function ethereum(): Record<string, ChainSupply> {
+    const token = (symbol: string) => ({ symbol, ...tokenAmount(200_000_000n, 8), status: sourceStatus('ok') });
+    return { ethereum: { label: 'Ethereum', total: '6.00000000', tokens: ['wBTC', 'tBTCv2', 'FBTC'].map(token), deprecated: [token('renBTC')] } };
+}
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('annotatePrices', () => {
+    it('flags active tokens whose market strays past the depeg threshold', () => {
+        const chains = ethereum();
+        const depegs = annotatePrices(chains, REGISTRY, snapshot({ bitcoin: 1, 'wrapped-bitcoin': 0.995, tbtc: 0.97, renbtc: 0.2 }));
+        expect(depegs).toEqual([{ chain: 'ethereum', symbol: 'tBTCv2', deviation: -0.03 }]);
+
+        const [wbtc, tbtc, fbtc] = chains.ethereum.tokens;
+        expect(wbtc.peg).toEqual({ priceBtc: 0.995, deviation: -0.005, depegged: false });
+        expect(tbtc.peg).toEqual({ priceBtc: 0.97, deviation: -0.03, depegged: true });
+        expect(fbtc.peg).toBeUndefined(); // no market of its own
+        expect(chains.ethereum.deprecated[0].peg).toMatchObject({ depegged: true }); // flagged, but not reported
+    });
+
+    it('does not flag a deviation at the threshold or a token with no market price', () => {
+        const chains = ethereum();
+        const depegs = annotatePrices(chains, REGISTRY, snapshot({ bitcoin: 1, 'wrapped-bitcoin': 1 + CONFIG.DEPEG_THRESHOLD }));
+        expect(depegs).toEqual([]);
+        expect(chains.ethereum.tokens[0].peg.depegged).toBe(false);
+        expect(chains.ethereum.tokens[1].peg).toBeUndefined();
+    });
+
+    it('values tokens at their own market, else at the BTC price', () => {
+        const chains = ethereum();
+        annotatePrices(chains, REGISTRY, snapshot({ bitcoin: 1, tbtc: 0.97 }));
+        expect(chains.ethereum.tokens.map((token) => token.value.btc)).toEqual([2, 1.94, 2]);
+        expect(chains.ethereum.value).toEqual({ usd: 594_000, eur: 534_600, btc: 5.94 }); // deprecated tokens are left out
+    });
+});
+
+describe('fetchPrices', () => {
+    function provider(name: string, prices: Record<string, Record<string, unknown>> | Error): PriceProvider & { calls: string[][] } {
+        const calls: string[][] = [];
+        return {
+            name,
+            calls,
+            async getPrices(ids) {
+                calls.push(ids);
+                if (prices instanceof Error) throw prices;
+                return prices;
+            },
+        };
+    }
+
+    it('asks later providers only for what earlier ones missed', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const first = provider('first', { bitcoin: { usd: BTC_USD, eur: 90_000, btc: 1 }, tbtc: { usd: 0, btc: 'n/a' } });
+        const second = provider('second', { solana: { usd: 200, btc: 0.002 }, tbtc: { usd: 97_000, btc: 0.97 } });
+        const prices = await fetchPrices([first, second], ['tbtc'], 1_000_000);
+        expect(second.calls).toEqual([['solana', 'tbtc']]);
+        expect(prices.assets.tbtc).toEqual({ usd: 97_000, eur: null, btc: 0.97 });
+        expect(prices.source).toBe('first');
+        expect(prices.status.state).toBe('fallback');
+    });
+
+    it('serves the last good prices as stale when every provider fails, then gives up', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const up = provider('primary', { bitcoin: { usd: BTC_USD, btc: 1 }, solana: { usd: 200, btc: 0.002 } });
+        const down = provider('primary', new Error('HTTP 429'));
+        const now = 2_000_000_000;
+        expect((await fetchPrices([up], [], now)).status.state).toBe('ok');
+
+        const stale = await fetchPrices([down], [], now + (CONFIG.PRICE_TTL + 1) * 1000);
+        expect(stale.status).toMatchObject({ state: 'stale', reason: 'primary: HTTP 429' });
+        expect(stale.assets.bitcoin.usd).toBe(BTC_USD);
+
+        const expired = await fetchPrices([down], [], now + (CONFIG.PRICE_TTL + CONFIG.PRICE_STALE_TTL + 1) * 1000);
+        expect(expired).toMatchObject({ assets: {}, source: null, status: { state: 'error' } });
+    });
+});
@@ -0,0 +1,203 @@
+import { CONFIG } from './config';
+import { timed } from './metrics';
+import type { ChainSupply, Currency, PegStatus, PriceSnapshot, SourceStatus, TokenEntry, TokenSupply, Valuation } from './types';
+import { errorReason, sourceStatus, withRetry } from './utils';
+
+// === Providers ===
+export const CURRENCIES: Currency[] = ['usd', 'eur', 'btc'];
+
+/** Assets every snapshot asks for: BTC values supplies without their own market, SOL feeds the staking maths */
+const BASE_ASSETS = ['bitcoin', 'solana'];
+
+/** Pluggable source of prices by CoinGecko coin id */
+export interface PriceProvider {
+    name: string;
+    getPrices(ids: string[]): Promise<Record<string, Partial<Record<Currency, unknown>>>>; // Ids it cannot price are left out
+}
+
+/** GET JSON with the usual timeout and retries; `T` is the shape the API promises, checked by the caller */
+async function fetchJson<T>(url: string): Promise<T> {
+    return withRetry(async () => {
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), 5000);
+        try {
+            const resp = await fetch(url, { headers: { Accept: 'application/json' }, signal: controller.signal });
+            if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+            return resp.json<T>();
+        } finally {
+            clearTimeout(timeout);
+        }
+    });
+}
+
+/** CoinGecko `simple/price`, or any API (such as a local stub) answering in its shape */
+export function coingeckoProvider(baseUrl: string = CONFIG.PRICE_API): PriceProvider {
+    return {
+        name: baseUrl === CONFIG.PRICE_API ? 'coingecko' : new URL(baseUrl).host,
+        async getPrices(ids) {
+            const query = new URLSearchParams({ ids: ids.join(','), vs_currencies: CURRENCIES.join(',') });
+            return fetchJson<Record<string, Partial<Record<Currency, unknown>>>>(`${baseUrl.replace(/\/$/, '')}/simple/price?${query}`);
+        },
+    };
+}
+
+/** Coinbase exchange rates from BTC: prices bitcoin and solana only */
+export function coinbaseProvider(url: string = CONFIG.PRICE_API_FALLBACK): PriceProvider {
+    return {
+        name: 'coinbase',
+        async getPrices() {
+            const rates = (await fetchJson<{ data?: { rates?: Record<string, unknown> } }>(url)).data?.rates;
+            const usd = Number(rates?.USD);
+            const eur = Number(rates?.EUR);
+            const solPerBtc = Number(rates?.SOL);
+            return {
+                bitcoin: { usd, eur, btc: 1 },
+                ...(solPerBtc > 0 ? { solana: { usd: usd / solPerBtc, eur: eur / solPerBtc, btc: 1 / solPerBtc } } : {}),
+            };
+        },
+    };
+}
+
+/** Default providers in order of preference; a configured PRICE_API is the only one, so a stub fully controls prices */
+export function priceProviders(priceApi?: string): PriceProvider[] {
+    return priceApi ? [coingeckoProvider(priceApi)] : [coingeckoProvider(), coinbaseProvider()];
+}
+
+// === Prices ===
+/** Last snapshot that priced bitcoin, reused for PRICE_TTL and served stale after that when every provider fails */
+let lastGood: { key: string; at: number; snapshot: PriceSnapshot } | null = null;
+
+/** Keep positive finite prices; null when the provider priced none of the currencies */
+function toValuation(prices: Partial<Record<Currency, unknown>> | undefined): Valuation | null {
+    const valuation = Object.fromEntries(
+        CURRENCIES.map((currency) => {
+            const value = Number(prices?.[currency]);
+            return [currency, Number.isFinite(value) && value > 0 ? value : null];
+        })
+    ) as Valuation;
+    return CURRENCIES.some((currency) => valuation[currency] !== null) ? valuation : null;
+}
+
+/**
+ * Price `ids` plus bitcoin and solana, asking each provider in turn for what the earlier ones missed. `ok` when the
+ * first provider priced both base assets, `fallback` when a later one had to step in; when no provider prices
+ * bitcoin the last good snapshot is served as `stale` for up to PRICE_STALE_TTL, else the snapshot is empty (`error`).
+ */
+export async function fetchPrices(providers: PriceProvider[], ids: string[] = [], now: number = Date.now()): Promise<PriceSnapshot> {
+    const wanted = [...new Set([...BASE_ASSETS, ...ids])].sort();
+    const key = `${providers.map((provider) => provider.name).join(',')}|${wanted.join(',')}`;
+    if (lastGood?.key === key && now - lastGood.at < CONFIG.PRICE_TTL * 1000) return lastGood.snapshot;
+
+    const assets: Record<string, Valuation> = {};
+    const failures: string[] = [];
+    let source: string | null = null;
+    let fallback = false; // A provider after the first priced something
+    for (const [index, provider] of providers.entries()) {
+        const missing = wanted.filter((id) => !assets[id]);
+        if (!missing.length) break;
+        try {
+            const prices = await timed(provider.name, () => provider.getPrices(missing));
+            for (const id of missing) {
+                const valuation = toValuation(prices?.[id]);
+                if (!valuation) continue;
+                assets[id] = valuation;
+                fallback ||= index > 0;
+            }
+            if (assets.bitcoin && !source) source = provider.name;
+        } catch (err) {
+            console.error(`Failed to fetch prices from ${provider.name}:`, err);
+            failures.push(`${provider.name}: ${errorReason(err)}`);
+        }
+    }
+
+    if (!assets.bitcoin) {
+        const reason = failures.join('; ') || 'No provider priced bitcoin';
+        if (lastGood && now - lastGood.at < (CONFIG.PRICE_TTL + CONFIG.PRICE_STALE_TTL) * 1000) {
+            return { ...lastGood.snapshot, status: sourceStatus('stale', reason, lastGood.at) };
+        }
+        return { assets, source: null, status: sourceStatus('error', reason) };
+    }
+    assets.bitcoin.btc = 1; // Whatever the provider says
+
+    const missing = wanted.filter((id) => !assets[id]);
+    if (missing.length) console.warn('No price for:', missing.join(', '));
+    const status: SourceStatus =
+        fallback || !assets.solana
+            ? sourceStatus('fallback', [...failures, ...(assets.solana ? [] : ['No SOL price'])].join('; ') || 'Priced by a fallback provider')
+            : sourceStatus('ok');
+
+    const snapshot = { assets, source, status };
+    lastGood = { key, at: now, snapshot };
+    return snapshot;
+}
+
+// === Valuation ===
+function round(value: number, currency: Currency): number {
+    return Number(value.toFixed(currency === 'btc' ? 8 : 2));
+}
+
+/** Value an amount of BTC at `price` (one unit in each currency); without a BTC price it is worth itself in BTC only */
+function valueAt(amount: number, price: Valuation | undefined): Valuation {
+    const unit = price ?? { usd: null, eur: null, btc: 1 };
+    return Object.fromEntries(
+        CURRENCIES.map((currency) => [currency, unit[currency] === null ? null : round(amount * unit[currency], currency)])
+    ) as Valuation;
+}
+
+/** Per-currency sum; null where any part is unpriced */
+function sumValues(values: Valuation[]): Valuation {
+    return Object.fromEntries(
+        CURRENCIES.map((currency) => [
+            currency,
+            values.some((value) => value[currency] === null) ? null : round(values.reduce((sum, value) => sum + value[currency], 0), currency),
+        ])
+    ) as Valuation;
+}
+
+function pegOf(price: Valuation | undefined): PegStatus | undefined {
+    if (!price?.btc) return undefined;
+    const deviation = Number((price.btc - 1).toFixed(6));
+    return { priceBtc: price.btc, deviation, depegged: Math.abs(deviation) > CONFIG.DEPEG_THRESHOLD };
+}
+
+/** CoinGecko ids of every registry token with its own market */
+export function registryPriceIds(registry: TokenEntry[]): string[] {
+    return [...new Set(registry.map((entry) => entry.priceId).filter(Boolean))];
+}
+
+/**
+ * Value every token (at its own market price when the registry gives a `priceId`, else at the BTC price) and chain
+ * total, and attach peg status to priced tokens. Returns the active tokens that have lost their peg.
+ */
+export function annotatePrices(
+    chains: Record<string, ChainSupply>,
+    registry: TokenEntry[],
+    prices: PriceSnapshot
+): Array<{ chain: string; symbol: string; deviation: number }> {
+    const depegs: Array<{ chain: string; symbol: string; deviation: number }> = [];
+    for (const [name, chain] of Object.entries(chains)) {
+        const annotate = (token: TokenSupply) => {
+            const priceId = registry.find((entry) => entry.chain === name && entry.symbol === token.symbol)?.priceId;
+            const market = priceId ? prices.assets[priceId] : undefined;
+            token.value = valueAt(parseFloat(token.supply) || 0, market ?? prices.assets.bitcoin);
+            token.peg = pegOf(market);
+        };
+        chain.tokens.forEach(annotate);
+        chain.deprecated?.forEach(annotate);
+        chain.value = sumValues(chain.tokens.map((token) => token.value));
+        for (const token of chain.tokens) {
+            if (token.peg?.depegged) depegs.push({ chain: name, symbol: token.symbol, deviation: token.peg.deviation });
+        }
+    }
+    return depegs;
+}
+
+/** Value an amount of BTC (such as the net unique total) at the BTC price */
+export function valueBtc(amount: string, prices: PriceSnapshot): Valuation {
+    return valueAt(parseFloat(amount) || 0, prices.assets.bitcoin);
+}
+
+/** Sum of chain values, matching the raw grand total */
+export function totalValue(chains: Record<string, ChainSupply>): Valuation {
+    return sumValues(Object.values(chains).map((chain) => chain.value ?? { usd: null, eur: null, btc: null }));
+}
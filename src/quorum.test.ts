@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { providerLabel, quorumProviders, readProvider, resolveQuorum } from './quorum';
+import type { ProviderReading, TokenSupply } from './types';
+import { tokenAmount } from './utils';
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+const TOKENS: TokenSupply[] = [
+    { symbol: 'wBTC', supply: '0' },
+    { symbol: 'cbBTC', supply: '0' },
+];
+
+function reading(provider: string, supplies: ProviderReading['supplies'], error?: string): ProviderReading {
+    return { provider, latencyMs: 10, height: supplies ? 100 : null, supplies, ...(error ? { error } : {}) };
+}
+
+describe('resolveQuorum', () => {
+    it('publishes the majority supply and flags the providers that disagree', () => {
+        const [a, b] = [tokenAmount(100n, 8), tokenAmount(90n, 8)];
+        const { tokens, providers, disagreements } = resolveQuorum(TOKENS, [
+            reading('one.example', [a, a]),
+            reading('two.example', [a, b]),
+            reading('three.example', [b, a]),
+        ]);
+        expect(tokens.map((token) => [token.supply, token.confidence, token.status.state])).toEqual([
+            [a.supply, 0.67, 'ok'],
+            [a.supply, 0.67, 'ok'],
+        ]);
+        expect(tokens[0].sources.map((source) => source.agrees)).toEqual([true, true, false]);
+        expect(providers.map((provider) => provider.agreement)).toEqual([1, 0.5, 0.5]);
+        expect(disagreements).toEqual(['wBTC', 'cbBTC']);
+    });
+
+    it('keeps failed providers in the report and errors tokens no provider could read', () => {
+        const a = tokenAmount(100n, 8);
+        const { tokens, providers } = resolveQuorum(TOKENS, [reading('one.example', [a, null]), reading('two.example', null, 'HTTP 429')]);
+        expect(tokens[0]).toMatchObject({ supply: a.supply, confidence: 0.5 });
+        expect(tokens[1]).toMatchObject({ supply: '0', confidence: 0, status: { state: 'error', reason: 'No provider returned a supply' } });
+        expect(providers[1]).toMatchObject({ provider: 'two.example', ok: false, height: null, agreement: 0, error: 'HTTP 429' });
+    });
+});
+
+describe('readProvider', () => {
+    it('turns a failed read into an empty reading with the error, labeled by host only', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const result = await readProvider('https://rpc.example/v2/secret-key', async () => {
+            throw new Error('HTTP 503');
+        });
+        expect(result).toMatchObject({ provider: 'rpc.example', height: null, supplies: null, error: 'HTTP 503' });
+        expect(providerLabel('not a url')).toBe('unknown');
+    });
+
+    it('cross-checks the primary and fallback when no quorum list is set', () => {
+        expect(quorumProviders({ primary: 'https://a.example', fallback: 'https://b.example' })).toEqual(['https://a.example', 'https://b.example']);
+        expect(quorumProviders({ primary: 'https://a.example', quorum: ['https://c.example'] })).toEqual(['https://c.example']);
+    });
+});
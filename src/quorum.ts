@@ -0,0 +1,92 @@
+import type { ProviderReading, ProviderReport, RpcConfig, TokenSupply } from './types';
+import { sourceStatus } from './utils';
+
+// === Quorum ===
+/** Providers to cross-check for a chain */
+export function quorumProviders(rpc: RpcConfig): string[] {
+    return rpc.quorum?.length ? rpc.quorum : [rpc.primary, ...(rpc.fallback ? [rpc.fallback] : [])];
+}
+
+/** Public label for a provider: the host only, since RPC URLs may embed API keys */
+export function providerLabel(rpcUrl: string): string {
+    try {
+        return new URL(rpcUrl).host;
+    } catch {
+        return 'unknown';
+    }
+}
+
+/** Run one provider's read and record its latency; failures become an empty reading */
+export async function readProvider(
+    rpcUrl: string,
+    read: () => Promise<{ height: number | null; supplies: ProviderReading['supplies'] }>
+): Promise<ProviderReading> {
+    const start = performance.now();
+    try {
+        const { height, supplies } = await read();
+        return { provider: providerLabel(rpcUrl), latencyMs: Math.round(performance.now() - start), height, supplies };
+    } catch (err) {
+        console.warn(`Quorum read failed at ${providerLabel(rpcUrl)}:`, err);
+        return {
+            provider: providerLabel(rpcUrl),
+            latencyMs: Math.round(performance.now() - start),
+            height: null,
+            supplies: null,
+            error: err instanceof Error ? err.message : String(err),
+        };
+    }
+}
+
+/** Most common non-null value; ties go to the earliest provider in the list */
+function consensus(values: Array<string | null>): string | null {
+    const counts = new Map<string, number>();
+    for (const value of values) {
+        if (value !== null) counts.set(value, (counts.get(value) || 0) + 1);
+    }
+    let best: string | null = null;
+    for (const [value, count] of counts) {
+        if (best === null || count > counts.get(best)) best = value;
+    }
+    return best;
+}
+
+/** Combine provider readings into consensus supplies, per-token sources and per-provider agreement */
+export function resolveQuorum(
+    tokens: TokenSupply[],
+    readings: ProviderReading[]
+): { tokens: TokenSupply[]; providers: ProviderReport[]; disagreements: string[] } {
+    const agreed = readings.map(() => 0);
+    const disagreements: string[] = [];
+
+    const resolved = tokens.map((token, idx) => {
+        const amounts = readings.map((reading) => reading.supplies?.[idx] ?? null);
+        const values = amounts.map((amount) => amount?.supply ?? null);
+        const supply = consensus(values);
+        const winning = amounts.find((amount) => amount !== null && amount.supply === supply);
+        const sources = readings.map((reading, r) => {
+            const agrees = supply !== null && values[r] === supply;
+            if (agrees) agreed[r]++;
+            return { provider: reading.provider, supply: values[r], agrees };
+        });
+        const agreeing = sources.filter((source) => source.agrees).length;
+        if (agreeing < readings.length) disagreements.push(token.symbol);
+        return {
+            ...token,
+            ...(winning ?? { supply: '0' }),
+            status: supply === null ? sourceStatus('error', 'No provider returned a supply') : sourceStatus('ok'),
+            confidence: readings.length ? Math.round((agreeing / readings.length) * 100) / 100 : 0,
+            sources,
+        };
+    });
+
+    const providers = readings.map((reading, r) => ({
+        provider: reading.provider,
+        latencyMs: reading.latencyMs,
+        height: reading.height,
+        ok: reading.supplies !== null,
+        agreement: tokens.length ? Math.round((agreed[r] / tokens.length) * 100) / 100 : 0,
+        ...(reading.error ? { error: reading.error } : {}),
+    }));
+
+    return { tokens: resolved, providers, disagreements };
+}
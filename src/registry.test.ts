@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_REGISTRY, RegistrySchema } from './registry';
+
+const WBTC = { chain: 'ethereum', symbol: 'wBTC', address: '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599', decimals: 8, deployBlock: 6_766_284 };
+const ZBTC = { chain: 'solana', symbol: 'zBTC', mint: 'zBTCug3er3tLyffELcvDNrKkCymbPWysGcWihESYfLg' };
+
+function issues(registry: unknown[]): string[] {
+    const result = RegistrySchema.safeParse(registry);
+    return result.success ? [] : result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`);
+}
+
+describe('RegistrySchema', () => {
+    it('accepts the bundled registry and fills in defaults', () => {
+        expect(DEFAULT_REGISTRY.length).toBeGreaterThan(0);
+        expect(RegistrySchema.parse([WBTC, ZBTC])).toEqual([
+            { ...WBTC, status: 'active' },
+            { ...ZBTC, status: 'active' },
+        ]);
+    });
+
+    it('rejects entries that do not fit their chain', () => {
+        expect(issues([{ ...WBTC, chain: 'dogecoin' }])).toEqual(['0.chain: Unknown chain "dogecoin"']);
+        expect(issues([{ chain: 'ethereum', symbol: 'wBTC' }])).toEqual(['0.address: Ethereum tokens need an address']);
+        expect(issues([{ ...ZBTC, deployBlock: 1 }])).toEqual(['0.deployBlock: Only EVM tokens have a deployBlock']);
+        expect(issues([{ ...WBTC, deployBlock: -1 }])).toHaveLength(1);
+        expect(issues([{ ...WBTC, extra: true }])).toHaveLength(1);
+    });
+
+    it('rejects duplicate chain and symbol pairs', () => {
+        expect(issues([WBTC, { ...WBTC, address: `0x${'1'.repeat(40)}` }])).toEqual(['1.symbol: Duplicate token ethereum:wBTC']);
+    });
+});
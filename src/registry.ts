@@ -0,0 +1,99 @@
+import { z } from 'zod';
+import { getChain } from './chains';
+import DEFAULT_TOKENS from './tokens.json';
+import type { TokenEntry } from './types';
+
+// === Schema ===
+const REGISTRY_KEY = 'tokens';
+
+export type Schema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+/**
+ * `schema` typed as producing `T`. zod infers every key as optional without strictNullChecks, so this is the one
+ * place a schema's output is asserted; the type of each key it does infer is still checked against `T`.
+ */
+export function typedSchema<T>(schema: Schema<Partial<T>>): Schema<T> {
+    return schema as Schema<T>;
+}
+
+/** One token registry entry; EVM chains need `address`, Solana needs `mint` */
+export const TokenEntrySchema = typedSchema<TokenEntry>(
+    z
+        .object({
+            chain: z.string(),
+            symbol: z.string().min(1).max(32),
+            address: z
+                .string()
+                .regex(/^0x[0-9a-fA-F]{40}$/, 'Expected a 0x-prefixed 20-byte address')
+                .optional(),
+            mint: z
+                .string()
+                .regex(/^[1-9A-HJ-NP-Za-km-z]{32,44}$/, 'Expected a base58 mint address')
+                .optional(),
+            issuer: z.string().max(64).optional(),
+            custody: z.enum(['custodial', 'decentralized', 'bridged']).optional(),
+            status: z.enum(['active', 'deprecated']).default('active'),
+            decimals: z.number().int().min(0).max(36).optional(),
+            deployBlock: z.number().int().min(0).optional(),
+            priceId: z.string().regex(/^[a-z0-9-]+$/, 'Expected a CoinGecko coin id').optional(),
+        })
+        .strict()
+        .superRefine((entry, ctx) => {
+            const chain = getChain(entry.chain);
+            if (!chain) {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['chain'], message: `Unknown chain "${entry.chain}"` });
+            } else if (chain.kind === 'evm' && !entry.address) {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['address'], message: `${chain.label} tokens need an address` });
+            } else if (chain.kind === 'solana' && !entry.mint) {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['mint'], message: 'Solana tokens need a mint' });
+            } else if (chain.kind === 'solana' && entry.deployBlock !== undefined) {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['deployBlock'], message: 'Only EVM tokens have a deployBlock' });
+            }
+        })
+);
+
+/** The whole registry: unique per chain and symbol */
+export const RegistrySchema: Schema<TokenEntry[]> = z.array(TokenEntrySchema).superRefine((entries, ctx) => {
+    const seen = new Set<string>();
+    entries.forEach((entry, idx) => {
+        const key = `${entry.chain}:${entry.symbol}`;
+        if (seen.has(key)) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: [idx, 'symbol'], message: `Duplicate token ${key}` });
+        }
+        seen.add(key);
+    });
+});
+
+// === Loading ===
+/** Built-in registry bundled from src/tokens.json */
+export const DEFAULT_REGISTRY: TokenEntry[] = RegistrySchema.parse(DEFAULT_TOKENS);
+
+function parseRegistry(json: string, source: string): TokenEntry[] | null {
+    try {
+        const result = RegistrySchema.safeParse(JSON.parse(json));
+        if (result.success) return result.data;
+        console.error(`Invalid token registry in ${source}:`, result.error.issues);
+    } catch (err) {
+        console.error(`Invalid token registry JSON in ${source}:`, err);
+    }
+    return null;
+}
+
+/** Load the registry from the TOKEN_REGISTRY KV namespace, then the TOKENS_JSON variable, then the bundled default */
+export async function loadRegistry(env: Env): Promise<TokenEntry[]> {
+    if (env.TOKEN_REGISTRY) {
+        const stored = await env.TOKEN_REGISTRY.get(REGISTRY_KEY);
+        const registry = stored && parseRegistry(stored, 'TOKEN_REGISTRY');
+        if (registry) return registry;
+    }
+    if (env.TOKENS_JSON) {
+        const registry = parseRegistry(env.TOKENS_JSON, 'TOKENS_JSON');
+        if (registry) return registry;
+    }
+    return DEFAULT_REGISTRY;
+}
+
+/** Persist a validated registry to KV */
+export async function saveRegistry(kv: KVNamespace, registry: TokenEntry[]): Promise<void> {
+    await kv.put(REGISTRY_KEY, JSON.stringify(RegistrySchema.parse(registry)));
+}
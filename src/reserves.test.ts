@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+import { computeReserves, loadIssuers, type BitcoinSource, type ReserveIssuer } from './reserves';
+import type { ChainSupply } from './types';
+import { sourceStatus, tokenAmount } from './utils';
+
+const BTC = 100_000_000n;
+
+const ISSUER: ReserveIssuer = {
+    symbol: 'cbBTC',
+    issuer: 'Coinbase',
+    backs: [
+        { chain: 'ethereum', symbol: 'cbBTC' },
+        { chain: 'base', symbol: 'cbBTC' },
+    ],
+    addresses: ['bc1qone', 'bc1qtwo'],
+};
+
+function chains(base: ChainSupply['tokens'][number]): Record<string, ChainSupply> {
+    return {
+        ethereum: { label: 'Ethereum', total: '60', tokens: [{ symbol: 'cbBTC', ...tokenAmount(60n * BTC, 8), status: sourceStatus('ok') }] },
+        base: { label: 'Base', total: base.supply, tokens: [base] },
+    };
+}
+
+function custody(balances: Record<string, bigint>): BitcoinSource {
+    return {
+        name: 'esplora.test',
+        async getBalance(address) {
+            if (!(address in balances)) throw new Error('HTTP 500');
+            return balances[address];
+        },
+    };
+}
+
+const healthyBase = { symbol: 'cbBTC', ...tokenAmount(40n * BTC, 8), status: sourceStatus('ok') };
+
+describe('computeReserves', () => {
+    it('reports the custody ratio over every backed supply', async () => {
+        const [full] = await computeReserves(chains(healthyBase), [ISSUER], custody({ bc1qone: 70n * BTC, bc1qtwo: 30n * BTC }));
+        expect(full).toMatchObject({ custodyBTC: '100.00000000', suppliedBTC: '100.00000000', ratio: 1, status: 'ok' });
+        expect(full.unavailable).toBeUndefined();
+
+        const [under] = await computeReserves(chains(healthyBase), [ISSUER], custody({ bc1qone: 90n * BTC, bc1qtwo: 0n }));
+        expect(under).toMatchObject({ ratio: 0.9, status: 'under' });
+    });
+
+    it('withholds a verdict when a backed supply failed to read', async () => {
+        const failed = { symbol: 'cbBTC', supply: '0', status: sourceStatus('error', 'HTTP 502') };
+        const [report] = await computeReserves(chains(failed), [ISSUER], custody({ bc1qone: 70n * BTC, bc1qtwo: 30n * BTC }));
+        expect(report).toMatchObject({ suppliedBTC: '60.00000000', ratio: null, status: 'unknown', unavailable: ['base cbBTC: HTTP 502'] });
+    });
+
+    it('withholds a verdict when a backed chain is missing or custody fails', async () => {
+        const { ethereum } = chains(healthyBase);
+        const [missing] = await computeReserves({ ethereum }, [ISSUER], custody({ bc1qone: 100n * BTC, bc1qtwo: 0n }));
+        expect(missing).toMatchObject({ status: 'unknown', ratio: null, unavailable: ['base cbBTC: not tracked'] });
+
+        const [custodyDown] = await computeReserves(chains(healthyBase), [ISSUER], custody({ bc1qone: 100n * BTC }));
+        expect(custodyDown).toMatchObject({ status: 'unknown', custodyBTC: null, unavailable: ['custody: HTTP 500'] });
+    });
+
+    it('shares the address budget across issuers and withholds the verdict of one cut short', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const many: ReserveIssuer = { ...ISSUER, symbol: 'wBTC', backs: [{ chain: 'base', symbol: 'cbBTC' }], addresses: ['a', 'b', 'c', 'd', 'e'] };
+        const looked: string[] = [];
+        const source: BitcoinSource = {
+            name: 'esplora.test',
+            async getBalance(address) {
+                looked.push(address);
+                return 10n * BTC;
+            },
+        };
+        const [small, large] = await computeReserves(chains(healthyBase), [ISSUER, many], source, 4);
+        expect(looked).toHaveLength(4);
+        expect(small).toMatchObject({ addresses: 2, custodyBTC: '20.00000000', status: 'under' });
+        expect(large).toMatchObject({ addresses: 2, custodyBTC: '20.00000000', ratio: null, status: 'unknown' });
+        expect(large.unavailable).toEqual(['custody: 3 of 5 addresses not checked (RESERVES_MAX_ADDRESSES)']);
+        vi.restoreAllMocks();
+    });
+});
+
+describe('loadIssuers', () => {
+    it('checks only issuers given custody addresses', () => {
+        expect(loadIssuers(undefined)).toEqual([]);
+        expect(loadIssuers('not json')).toEqual([]);
+        const issuers = loadIssuers(JSON.stringify({ wBTC: ['3abc', 42, ''], cbBTC: [] }));
+        expect(issuers.map((issuer) => [issuer.symbol, issuer.addresses])).toEqual([['wBTC', ['3abc']]]);
+    });
+});
@@ -0,0 +1,199 @@
+import { CONFIG } from './config';
+import { timed } from './metrics';
+import type { ChainSupply, ReserveReport } from './types';
+import { formatSats, sumSats } from './utils';
+
+// === Types ===
+/** An issuer's custody addresses and the wrapped supplies they back */
+export interface ReserveIssuer {
+    symbol: string;
+    issuer: string;
+    backs: Array<{ chain: string; symbol: string }>; // entries in ApiPayload.chains
+    addresses: string[]; // Bitcoin custody addresses
+    attestationUrl?: string; // Where the issuer publishes its address list
+}
+
+/** Pluggable Bitcoin balance source */
+export interface BitcoinSource {
+    name: string;
+    getBalance(address: string): Promise<bigint>; // confirmed balance in satoshis
+}
+
+// === Issuers ===
+/**
+ * Issuers the check can match to chain supplies. Address lists change often and are long, so they are supplied at
+ * deploy time through the CUSTODY_ADDRESSES variable rather than hard-coded here; an issuer is only checked once
+ * that gives it addresses.
+ */
+export const RESERVE_ISSUERS: ReserveIssuer[] = [
+    {
+        symbol: 'wBTC',
+        issuer: 'BitGo',
+        backs: [{ chain: 'ethereum', symbol: 'wBTC' }],
+        addresses: [],
+        attestationUrl: 'https://wbtc.network/dashboard/audit',
+    },
+    {
+        symbol: 'cbBTC',
+        issuer: 'Coinbase',
+        backs: [
+            { chain: 'ethereum', symbol: 'cbBTC' },
+            { chain: 'base', symbol: 'cbBTC' },
+            { chain: 'arbitrum', symbol: 'cbBTC' },
+            { chain: 'solana', symbol: 'cbBTC' },
+        ],
+        addresses: [],
+    },
+    {
+        symbol: 'tBTC',
+        issuer: 'Threshold Network',
+        backs: [{ chain: 'ethereum', symbol: 'tBTCv2' }],
+        addresses: [],
+        attestationUrl: 'https://tbtcscan.com',
+    },
+    {
+        symbol: 'BTCB',
+        issuer: 'Binance',
+        backs: [{ chain: 'bnb', symbol: 'BTCB' }],
+        addresses: [],
+        attestationUrl: 'https://www.binance.com/en/proof-of-reserves',
+    },
+];
+
+/** Issuers given custody addresses by `{ "<symbol>": ["<address>", ...] }` in CUSTODY_ADDRESSES; none without it */
+export function loadIssuers(custodyJson?: string): ReserveIssuer[] {
+    if (!custodyJson) return [];
+    let custody: Record<string, unknown>;
+    try {
+        custody = JSON.parse(custodyJson);
+    } catch (err) {
+        console.error('Invalid CUSTODY_ADDRESSES:', err);
+        return [];
+    }
+    return RESERVE_ISSUERS.flatMap((issuer) => {
+        const addresses = custody[issuer.symbol];
+        if (!Array.isArray(addresses)) return [];
+        const valid = addresses.filter((a): a is string => typeof a === 'string' && a.length > 0);
+        return valid.length ? [{ ...issuer, addresses: valid }] : [];
+    });
+}
+
+// === Bitcoin Source ===
+/** Esplora-compatible API (Blockstream, mempool.space, or a local mock) */
+export function esploraSource(baseUrl: string): BitcoinSource {
+    return {
+        name: new URL(baseUrl).host,
+        async getBalance(address) {
+            const controller = new AbortController();
+            const timeout = setTimeout(() => controller.abort(), 5000);
+            try {
+                const resp = await fetch(`${baseUrl.replace(/\/$/, '')}/address/${encodeURIComponent(address)}`, {
+                    signal: controller.signal,
+                });
+                if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+                const res: { chain_stats?: { funded_txo_sum?: unknown; spent_txo_sum?: unknown } } = await resp.json();
+                const stats = res.chain_stats;
+                if (typeof stats?.funded_txo_sum !== 'number' || typeof stats?.spent_txo_sum !== 'number') {
+                    throw new Error(`Invalid balance for ${address}`);
+                }
+                return BigInt(stats.funded_txo_sum) - BigInt(stats.spent_txo_sum);
+            } finally {
+                clearTimeout(timeout);
+            }
+        },
+    };
+}
+
+// === Reserves ===
+async function custodyBalance(addresses: string[], source: BitcoinSource): Promise<bigint> {
+    let total = 0n;
+    for (let i = 0; i < addresses.length; i += CONFIG.RESERVES_CONCURRENCY) {
+        const balances = await Promise.all(
+            addresses.slice(i, i + CONFIG.RESERVES_CONCURRENCY).map((address) => timed(source.name, () => source.getBalance(address)))
+        );
+        total += balances.reduce((sum, balance) => sum + balance, 0n);
+    }
+    return total;
+}
+
+/**
+ * Split `budget` address lookups between issuers: smallest lists first, each taking at most an even share of what is
+ * left, so an issuer with few addresses is checked in full and one with many takes the rest
+ */
+function addressShares(issuers: ReserveIssuer[], budget: number): Map<ReserveIssuer, number> {
+    const shares = new Map<ReserveIssuer, number>();
+    const bySize = [...issuers].sort((a, b) => a.addresses.length - b.addresses.length);
+    for (const [i, issuer] of bySize.entries()) {
+        const share = Math.min(issuer.addresses.length, Math.floor(budget / (bySize.length - i)));
+        shares.set(issuer, share);
+        budget -= share;
+    }
+    return shares;
+}
+
+/**
+ * Compare each issuer's custody balance with the supply it backs. A backed supply that is missing or failed to
+ * read would understate the supply, so any such gap (or a failed custody lookup) leaves the status `unknown`, with
+ * the ratio withheld and the failing sources listed in `unavailable`. At most `maxAddresses` balances are looked up
+ * in all; an issuer whose list does not fit is reported with the custody found so far and no verdict.
+ */
+export async function computeReserves(
+    chains: Record<string, ChainSupply>,
+    issuers: ReserveIssuer[],
+    source: BitcoinSource,
+    maxAddresses: number = CONFIG.RESERVES_MAX_ADDRESSES
+): Promise<ReserveReport[]> {
+    const shares = addressShares(issuers, maxAddresses);
+    return Promise.all(
+        issuers.map(async (issuer) => {
+            const backed = issuer.backs.map((entry) => ({ entry, token: chains[entry.chain]?.tokens.find((t) => t.symbol === entry.symbol) }));
+            const unavailable = backed
+                .filter(({ token }) => !token || token.status?.state === 'error')
+                .map(({ entry, token }) => `${entry.chain} ${entry.symbol}: ${token ? token.status.reason || 'read failed' : 'not tracked'}`);
+            const supplied = sumSats(backed.map(({ token }) => token).filter((token) => token !== undefined));
+            const report: ReserveReport = {
+                symbol: issuer.symbol,
+                issuer: issuer.issuer,
+                addresses: issuer.addresses.length,
+                custodyBTC: null,
+                suppliedBTC: formatSats(supplied),
+                ratio: null,
+                status: 'unknown',
+                backs: issuer.backs,
+                ...(issuer.attestationUrl ? { attestationUrl: issuer.attestationUrl } : {}),
+            };
+            if (!issuer.addresses.length) return report;
+
+            const addresses = issuer.addresses.slice(0, shares.get(issuer));
+            if (addresses.length < issuer.addresses.length) {
+                console.warn(`Checking only ${addresses.length} of ${issuer.addresses.length} ${issuer.symbol} custody addresses`);
+                unavailable.push(`custody: ${issuer.addresses.length - addresses.length} of ${issuer.addresses.length} addresses not checked (RESERVES_MAX_ADDRESSES)`);
+            }
+            try {
+                const sats = await custodyBalance(addresses, source);
+                report.addresses = addresses.length;
+                report.custodyBTC = formatSats(sats);
+                if (supplied > 0n && !unavailable.length) {
+                    report.ratio = Math.round((Number(sats) / Number(supplied)) * 10_000) / 10_000;
+                    report.status = report.ratio < 1 - CONFIG.RESERVES_TOLERANCE ? 'under' : 'ok';
+                }
+            } catch (err) {
+                console.error(`Failed to fetch ${issuer.symbol} custody balance from ${source.name}:`, err);
+                report.error = err instanceof Error ? err.message : String(err);
+                unavailable.push(`custody: ${report.error}`);
+            }
+            if (unavailable.length) report.unavailable = unavailable;
+            return report;
+        })
+    );
+}
+
+/** Attach each issuer's verdict to the supply entries it backs */
+export function annotateReserves(chains: Record<string, ChainSupply>, reports: ReserveReport[]): void {
+    for (const report of reports) {
+        for (const backed of report.backs) {
+            const token = chains[backed.chain]?.tokens.find((t) => t.symbol === backed.symbol);
+            if (token) token.reserve = { issuer: report.issuer, ratio: report.ratio, status: report.status };
+        }
+    }
+}
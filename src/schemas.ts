@@ -0,0 +1,294 @@
+import { extendZodWithOpenApi } from 'chanfana';
+import { z } from 'zod';
+
+// Bundlers may evaluate this module before chanfana, which extends zod on import; schemas need `.openapi()` either way
+extendZodWithOpenApi(z);
+
+// === Response Schemas ===
+// OpenAPI descriptions of the shapes in src/types.ts; keep the two in sync
+
+/** Numeric amount serialized as a decimal string */
+const Amount = z.string().describe('Decimal amount in BTC');
+
+export const SourceStatusSchema = z.object({
+    state: z.enum(['ok', 'fallback', 'stale', 'error']),
+    reason: z.string().optional(),
+    asOf: z.string().describe('ISO 8601 time the value was read'),
+});
+
+export const DataStatusSchema = z.enum(['ok', 'degraded', 'partial']);
+
+export const ReserveStatusSchema = z.enum(['ok', 'under', 'unknown']);
+
+export const SupplySourceSchema = z.object({
+    provider: z.string().describe('RPC host'),
+    supply: z.string().nullable(),
+    agrees: z.boolean(),
+});
+
+export const SplMintSchema = z
+    .object({
+        program: z.enum(['spl-token', 'token-2022']),
+        mintAuthority: z.string().nullable().describe('Null once minting is disabled'),
+        freezeAuthority: z.string().nullable(),
+        extensions: z.array(z.object({ type: z.string(), authority: z.string().nullable().optional() })).describe('Token-2022 extensions'),
+    })
+    .describe('Solana mint account: owning program, authorities and extensions');
+
+const ValuationSchema = z
+    .object({ usd: z.number().nullable(), eur: z.number().nullable(), btc: z.number().nullable() })
+    .describe('Value in each currency; null where no price is available');
+
+const PegStatusSchema = z.object({
+    priceBtc: z.number().describe('Market price of one token in BTC'),
+    deviation: z.number().describe('priceBtc - 1'),
+    depegged: z.boolean().describe('|deviation| above DEPEG_THRESHOLD'),
+});
+
+export const TokenSupplySchema = z.object({
+    symbol: z.string(),
+    supply: Amount,
+    raw: z.string().optional().describe('Integer amount in base units'),
+    decimals: z.number().int().optional().describe('Token decimals `raw` is expressed in'),
+    registryDecimals: z.number().int().optional().describe('Registry decimals, set only when they differ from the on-chain `decimals`'),
+    address: z.string().optional().describe('Contract address on EVM chains'),
+    mint: z.string().optional().describe('Mint address on Solana'),
+    splMint: SplMintSchema.optional(),
+    status: SourceStatusSchema.optional(),
+    confidence: z.number().min(0).max(1).optional().describe('Quorum mode: share of providers agreeing'),
+    sources: z.array(SupplySourceSchema).optional(),
+    reserve: z
+        .object({ issuer: z.string(), ratio: z.number().nullable(), status: ReserveStatusSchema })
+        .optional()
+        .describe('Proof-of-reserves result for the backing token'),
+    bridgedFrom: z
+        .object({ bridge: z.string(), chain: z.string(), symbol: z.string(), escrow: z.string() })
+        .optional()
+        .describe('Set on bridged representations'),
+    value: ValuationSchema.optional().describe('Market value of the supply'),
+    peg: PegStatusSchema.optional().describe('Tokens with their own market price'),
+});
+
+export const ProviderReportSchema = z.object({
+    provider: z.string(),
+    latencyMs: z.number(),
+    height: z.number().nullable(),
+    ok: z.boolean(),
+    agreement: z.number().min(0).max(1),
+    error: z.string().optional(),
+});
+
+export const ReadContextSchema = z.object({
+    source: z.enum(['rpc', 'snapshot']),
+    blockNumber: z.number().int().optional(),
+    blockHash: z.string().optional(),
+    slot: z.number().int().optional(),
+    timestamp: z.number().optional().describe('ms since epoch'),
+});
+
+export const ChainSupplySchema = z.object({
+    label: z.string(),
+    tokens: z.array(TokenSupplySchema),
+    total: Amount.describe('Sum of active tokens'),
+    partial: z.boolean().optional().describe('true when an active token failed to read'),
+    deprecated: z.array(TokenSupplySchema).optional().describe('Retired tokens, excluded from totals'),
+    context: ReadContextSchema.optional(),
+    error: z.string().optional().describe('Set when the live read failed'),
+    value: ValuationSchema.optional().describe('Value of active tokens'),
+    quorum: z
+        .object({ providers: z.array(ProviderReportSchema), disagreements: z.array(z.string()) })
+        .optional(),
+});
+
+export const ReserveReportSchema = z.object({
+    symbol: z.string(),
+    issuer: z.string(),
+    addresses: z.number().int(),
+    custodyBTC: z.string().nullable(),
+    suppliedBTC: z.string(),
+    ratio: z.number().nullable(),
+    status: ReserveStatusSchema,
+    backs: z.array(z.object({ chain: z.string(), symbol: z.string() })),
+    attestationUrl: z.string().optional(),
+    error: z.string().optional(),
+    unavailable: z.array(z.string()).optional().describe('Backed supplies or custody lookups that failed; the status is unknown'),
+});
+
+export const DeduplicationSchema = z.object({
+    rawTotal: Amount,
+    excludedTotal: Amount,
+    netUniqueBTC: Amount,
+    excluded: z.array(
+        z.object({
+            chain: z.string(),
+            symbol: z.string(),
+            supply: Amount,
+            bridge: z.string(),
+            source: z.object({ chain: z.string(), symbol: z.string(), escrow: z.string() }),
+        })
+    ),
+});
+
+export const BitcoinSupplySchema = z.object({
+    sats: z.string().regex(/^\d+$/).describe('Mined supply in satoshis'),
+    btc: z.string().describe('Mined supply as an exact decimal BTC amount'),
+    source: z.string().nullable().describe('Source whose reading was published; "snapshot" for a stored figure'),
+    readings: z.array(
+        z.object({
+            source: z.string(),
+            sats: z.string().nullable(),
+            agrees: z.boolean().describe('Within BTC_SUPPLY_TOLERANCE of the published value'),
+            error: z.string().optional(),
+        })
+    ),
+});
+
+export const CatchUpProjectionSchema = z.object({
+    leader: z.string(),
+    challenger: z.string(),
+    gap: z.number().describe('Leader total minus challenger total, BTC'),
+    basis: z.string().nullable().describe('Window behind the expected figure, e.g. "30d"'),
+    rates: z
+        .record(z.record(z.number().nullable()))
+        .describe('Net BTC/day per chain and window ("7d", "30d", "90d"); null without a snapshot that old'),
+    closingRates: z.record(z.number().nullable()).describe('Challenger rate minus leader rate per window, BTC/day'),
+    daysToParity: z.object({
+        expected: z.number().int().nullable(),
+        low: z.number().int().nullable(),
+        high: z.number().int().nullable(),
+    }),
+    status: z.enum(['converging', 'diverging', 'caught-up', 'insufficient-data']),
+});
+
+export const ApiPayloadSchema = z.object({
+    chains: z.record(ChainSupplySchema),
+    ethereum: z.array(TokenSupplySchema).describe('Compatibility view of chains.ethereum.tokens'),
+    solana: z.array(TokenSupplySchema).describe('Compatibility view of chains.solana.tokens'),
+    ethereumTotal: Amount,
+    solanaTotal: Amount,
+    grandTotal: Amount,
+    netUniqueBTC: Amount,
+    deduplication: DeduplicationSchema,
+    currentlyMintedBTC: z.string().describe('Mined BTC, formatted with thousands separators; see bitcoinSupply for numbers'),
+    currentlyMintedBTCStatus: SourceStatusSchema,
+    bitcoinSupply: BitcoinSupplySchema,
+    lastUpdated: z.string(),
+    solBtcPrice: z.number(),
+    solBtcPriceStatus: SourceStatusSchema,
+    prices: z.object({
+        assets: z.record(ValuationSchema).describe("Unit prices by CoinGecko coin id ('bitcoin', 'solana', registry priceIds)"),
+        source: z.string().nullable().describe('Provider that priced bitcoin'),
+        status: SourceStatusSchema,
+    }),
+    grandTotalValue: ValuationSchema,
+    netUniqueValue: ValuationSchema.describe('netUniqueBTC at the BTC price'),
+    depegs: z.array(z.object({ chain: z.string(), symbol: z.string(), deviation: z.number() })).describe('Active tokens off their peg'),
+    partial: z.boolean().describe('true when any chain total is partial'),
+    dataStatus: DataStatusSchema,
+    reserves: z.array(ReserveReportSchema),
+    catchUp: CatchUpProjectionSchema.nullable().describe('Null for pinned reads'),
+});
+
+export const TokenReportSchema = z.object({
+    symbol: z.string(),
+    total: Amount.describe('Sum of active deployments'),
+    partial: z.boolean().optional(),
+    chains: z.array(TokenSupplySchema.extend({ chain: z.string(), deprecated: z.boolean() })),
+});
+
+export const HolderConcentrationSchema = z.object({
+    chain: z.string(),
+    symbol: z.string(),
+    supply: Amount.describe("Live supply the shares are taken of; the indexed balances' sum when no reading is available"),
+    holders: z.number().int().describe('Known holders with a non-zero balance'),
+    complete: z.boolean().describe('Every holder is known; false on Solana (largest accounts only) and while an EVM index backfills'),
+    block: z.number().int().optional().describe('EVM: block the balances are indexed through'),
+    coverage: z.number().describe('Share of supply held by the known holders, 0-1'),
+    top10Share: z.number().describe('Share of supply held by the ten largest holders, 0-1'),
+    hhi: z.number().describe('Herfindahl-Hirschman index over known holders, 0-10,000; a lower bound when incomplete'),
+    top: z.array(
+        z.object({
+            address: z.string(),
+            balance: Amount,
+            share: z.number().describe('0-1'),
+            label: z.string().optional(),
+            category: z.enum(['bridge', 'exchange', 'lending', 'dex', 'custody', 'other']).optional(),
+        })
+    ),
+});
+
+export const HolderSummarySchema = z.object({
+    updatedAt: z.string(),
+    tokens: z.array(HolderConcentrationSchema),
+});
+
+const StakingParamsSchema = z.object({
+    days: z.number().int(),
+    stakedSol: z.number(),
+    apy: z.number().describe('%, before commission'),
+    commission: z.number().describe('%'),
+    compounding: z.enum(['none', 'epoch', 'daily']),
+    reinvest: z.number().describe('% of each payout restaked'),
+    priceScenario: z.enum(['flat', 'bull', 'bear', 'custom']),
+    priceChange: z.number().describe('SOL/BTC change, %/year'),
+    solBtcPrice: z.number().describe('SOL/BTC at day 0'),
+    mintRate: z.number().describe('Solana net BTC/day excluding staking'),
+    ethRate: z.number().describe('Ethereum net BTC/day'),
+});
+
+export const StakingProjectionSchema = z.object({
+    params: StakingParamsSchema.describe('Inputs after defaults were applied'),
+    start: z.object({ ethereum: z.number(), solana: z.number() }),
+    parityDay: z.number().int().nullable().describe('First day Solana reaches Ethereum; null beyond the horizon'),
+    parityDate: z.string().nullable(),
+    breakEvenStake: z.number().nullable().describe('SOL whose day-one rewards close the daily gap; null when mints alone do'),
+    curve: z.array(
+        z.object({
+            day: z.number().int(),
+            date: z.string(),
+            ethereum: z.number(),
+            solana: z.number(),
+            stakedSol: z.number(),
+            solBtcPrice: z.number(),
+            stakingBtc: z.number().describe('BTC swapped from rewards so far'),
+        })
+    ),
+});
+
+export const ErrorSchema = z.object({ error: z.string() });
+
+/** CSV and NDJSON alternatives for a 200 response: one row per token */
+export const SupplyExportContent = {
+    'text/csv': {
+        schema: z.string().describe('Columns: chain, symbol, address, mint, supply, shareOfChain, shareOfMintedBTC, deprecated, status'),
+    },
+    'application/x-ndjson': { schema: z.string().describe('One JSON object per token, same fields as the CSV columns') },
+};
+
+// === Request Schemas ===
+const Decimal = z.string().regex(/^-?\d+(\.\d+)?$/);
+
+/** Projection inputs; each defaults to CONFIG, the live SOL/BTC price or the observed rates */
+export const StakingQuerySchema = z.object({
+    days: z.string().regex(/^\d+$/).optional().describe('Horizon in days (default 730)'),
+    stakedSol: Decimal.optional().describe('SOL staked (default 0)'),
+    apy: Decimal.optional().describe('Staking APY before commission, % (default 7)'),
+    commission: Decimal.optional().describe('Validator commission, % (default 5)'),
+    compounding: z.enum(['none', 'epoch', 'daily']).optional().describe("Reward payouts; 'none' pays simple interest daily (default epoch)"),
+    reinvest: Decimal.optional().describe('Share of each payout restaked, % (default 0: all swapped to BTC)'),
+    priceScenario: z.enum(['flat', 'bull', 'bear', 'custom']).optional().describe('SOL/BTC path: flat, +50%/year, -50%/year or priceChange'),
+    priceChange: Decimal.optional().describe("SOL/BTC change for the 'custom' scenario, %/year"),
+    solBtcPrice: Decimal.optional().describe('Starting SOL/BTC price (default live)'),
+    mintRate: Decimal.optional().describe('Solana net BTC/day excluding staking (default observed)'),
+    ethRate: Decimal.optional().describe('Ethereum net BTC/day (default observed)'),
+});
+
+/** Query parameters shared by every supply endpoint */
+export const ReadQuerySchema = z.object({
+    quorum: z.enum(['0', '1']).optional().describe('Cross-check every provider (default from QUORUM_MODE)'),
+    at: z.string().optional().describe('Read as of an ISO 8601 date or unix timestamp'),
+    ethBlock: z.string().regex(/^\d+$/).optional().describe('Pin Ethereum reads to a block number'),
+    solSlot: z.string().regex(/^\d+$/).optional().describe('Pin Solana reads to a slot'),
+    format: z.enum(['json', 'csv', 'ndjson']).optional().describe('Response format; defaults to the Accept header, else JSON'),
+    fresh: z.enum(['1']).optional().describe('Bypass the edge cache (requires the admin bearer token)'),
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { CONFIG } from './config';
+import { parseStakingParams, projectStaking, stakingDefaults } from './staking';
+import type { CatchUpProjection, StakingParams } from './types';
+
+const DEFAULTS = { solBtcPrice: 0.002, mintRate: 1, ethRate: 2 };
+
+/** Parsed params, failing the test on a parse error */
+function params(query: Parameters<typeof parseStakingParams>[0], defaults = DEFAULTS): StakingParams {
+    const parsed = parseStakingParams(query, defaults);
+    if ('error' in parsed) throw new Error(parsed.error);
+    return parsed;
+}
+
+function catchUp(basis: string | null): CatchUpProjection {
+    return {
+        leader: 'ethereum',
+        challenger: 'solana',
+        gap: 100,
+        basis,
+        rates: { ethereum: { '7d': 2, '30d': 3 }, solana: { '7d': 5, '30d': null } },
+        closingRates: {},
+        daysToParity: { expected: null, low: null, high: null },
+        status: 'converging',
+    };
+}
+
+describe('stakingDefaults', () => {
+    it('takes both rates from the catch-up basis window', () => {
+        expect(stakingDefaults({ solBtcPrice: 0.002, catchUp: catchUp('7d') })).toEqual({ solBtcPrice: 0.002, mintRate: 5, ethRate: 2 });
+    });
+
+    it('falls back to the 30-day window, then to zero', () => {
+        expect(stakingDefaults({ solBtcPrice: 0.002, catchUp: catchUp(null) })).toEqual({ solBtcPrice: 0.002, mintRate: 0, ethRate: 3 });
+        expect(stakingDefaults({ solBtcPrice: 0.002, catchUp: null })).toEqual({ solBtcPrice: 0.002, mintRate: 0, ethRate: 0 });
+    });
+});
+
+describe('parseStakingParams', () => {
+    it('fills unset values from CONFIG and the passed defaults', () => {
+        expect(params({})).toEqual({
+            days: CONFIG.PROJECTION_DAYS,
+            stakedSol: 0,
+            apy: CONFIG.STAKING_APY,
+            commission: CONFIG.STAKING_COMMISSION,
+            reinvest: 0,
+            priceChange: 0,
+            solBtcPrice: 0.002,
+            mintRate: 1,
+            ethRate: 2,
+            compounding: 'epoch',
+            priceScenario: 'flat',
+        });
+        expect(params({ mintRate: '', ethRate: '-4' })).toMatchObject({ mintRate: 1, ethRate: -4 });
+    });
+
+    it('rejects out-of-range and non-numeric values', () => {
+        expect(parseStakingParams({ days: '0' }, DEFAULTS)).toEqual({ error: `Invalid days, expected 1 to ${CONFIG.PROJECTION_MAX_DAYS}` });
+        expect(parseStakingParams({ days: String(CONFIG.PROJECTION_MAX_DAYS + 1) }, DEFAULTS)).toHaveProperty('error');
+        expect(parseStakingParams({ apy: '101' }, DEFAULTS)).toEqual({ error: 'Invalid apy, expected 0 to 100' });
+        expect(parseStakingParams({ stakedSol: 'lots' }, DEFAULTS)).toEqual({ error: 'Invalid stakedSol, expected 0 to 1000000000000' });
+        expect(parseStakingParams({ commission: 'NaN' }, DEFAULTS)).toHaveProperty('error');
+        expect(parseStakingParams({ priceChange: 'Infinity' }, DEFAULTS)).toHaveProperty('error');
+        expect(parseStakingParams({ solBtcPrice: '2' }, DEFAULTS)).toHaveProperty('error');
+    });
+
+    it('rejects a zero or missing SOL/BTC price unless one is given', () => {
+        const error = { error: 'No SOL/BTC price available, set solBtcPrice' };
+        expect(parseStakingParams({}, { ...DEFAULTS, solBtcPrice: 0 })).toEqual(error);
+        expect(parseStakingParams({}, { ...DEFAULTS, solBtcPrice: undefined })).toEqual(error);
+        expect(parseStakingParams({ solBtcPrice: '0' }, DEFAULTS)).toEqual({ error: 'Invalid solBtcPrice, expected 1e-9 to 1' });
+        expect(params({ solBtcPrice: '0.003' }, { ...DEFAULTS, solBtcPrice: undefined }).solBtcPrice).toBe(0.003);
+    });
+
+    it('takes the price change from the scenario unless it is custom', () => {
+        expect(params({ priceScenario: 'bull', priceChange: '10' }).priceChange).toBe(50);
+        expect(params({ priceScenario: 'custom', priceChange: '10' }).priceChange).toBe(10);
+        expect(params({ days: '10.7' }).days).toBe(10);
+    });
+});
+
+describe('projectStaking', () => {
+    const base = params({ days: '730', stakedSol: '1000', apy: '36.5', commission: '0', mintRate: '0', ethRate: '0' });
+
+    it('compounds restaked rewards to the APY whether paid per epoch or daily', () => {
+        for (const compounding of ['epoch', 'daily'] as const) {
+            const { curve } = projectStaking(100, 50, { ...base, compounding, reinvest: 100 });
+            expect(curve).toHaveLength(730);
+            expect(curve[363].stakedSol).toBeCloseTo(1000 * 1.365 ** (364 / 365), 2);
+            expect(curve[729].stakedSol).toBeCloseTo(1000 * 1.365 ** 2, 0);
+            expect(curve[729].stakingBtc).toBe(0);
+        }
+    });
+
+    it('pays simple interest without compounding and swaps all of it', () => {
+        const { curve } = projectStaking(100, 50, { ...base, days: 10, compounding: 'none', reinvest: 100 });
+        expect(curve[9].stakedSol).toBe(1000);
+        expect(curve[9].stakingBtc).toBeCloseTo(1000 * 0.001 * 10 * 0.002, 10);
+        expect(curve[9].solana).toBeCloseTo(50 + 0.02, 10);
+    });
+
+    it('pays epoch rewards every other day', () => {
+        const { curve } = projectStaking(100, 50, { ...base, days: 4, compounding: 'epoch' });
+        expect(curve.map((point) => point.stakingBtc > 0)).toEqual([false, true, true, true]);
+        expect(curve[1].stakingBtc).toBe(curve[2].stakingBtc);
+    });
+
+    it('finds parity and the stake that closes the rate gap', () => {
+        const projection = projectStaking(100, 90, { ...base, days: 30, compounding: 'none', mintRate: 1, ethRate: 2 }, Date.parse('2025-05-01T00:00:00Z'));
+        expect(projection.parityDay).toBeNull();
+        expect(projection.breakEvenStake).toBe(Math.ceil(1 / (0.001 * 0.002)));
+        const closing = projectStaking(100, 90, { ...base, days: 30, mintRate: 2, ethRate: 1 }, Date.parse('2025-05-01T00:00:00Z'));
+        expect(closing).toMatchObject({ parityDay: 10, parityDate: '2025-05-11', breakEvenStake: null });
+    });
+});
@@ -0,0 +1,134 @@
+import { CONFIG } from './config';
+import type { ApiPayload, Compounding, PriceScenario, StakingParams, StakingPoint, StakingProjection } from './types';
+
+// === Configuration ===
+const EPOCH_DAYS = 2; // Solana epochs run about two days
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const COMPOUNDING: Compounding[] = ['none', 'epoch', 'daily'];
+
+/** Annual SOL/BTC change per scenario, %; 'custom' takes `priceChange` as given */
+export const PRICE_SCENARIOS: Record<PriceScenario, number | null> = { flat: 0, bull: 50, bear: -50, custom: null };
+
+// === Parameters ===
+/** Query values as received; absent ones fall back to CONFIG defaults or `defaults` */
+export type StakingQuery = Partial<Record<Exclude<keyof StakingParams, 'compounding' | 'priceScenario'>, string>> & {
+    compounding?: Compounding;
+    priceScenario?: PriceScenario;
+};
+
+function parseNumber(value: string | undefined, fallback: number, name: string, min: number, max: number): number | { error: string } {
+    if (value === undefined || value === '') return fallback;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < min || parsed > max) return { error: `Invalid ${name}, expected ${min} to ${max}` };
+    return parsed;
+}
+
+/** Defaults for unset query values: the payload's SOL/BTC price and each chain's rate over the catch-up basis window */
+export function stakingDefaults(payload: Pick<ApiPayload, 'solBtcPrice' | 'catchUp'>): Pick<StakingParams, 'solBtcPrice' | 'mintRate' | 'ethRate'> {
+    const basis = payload.catchUp?.basis || '30d';
+    return {
+        solBtcPrice: payload.solBtcPrice,
+        mintRate: payload.catchUp?.rates.solana?.[basis] ?? 0,
+        ethRate: payload.catchUp?.rates.ethereum?.[basis] ?? 0,
+    };
+}
+
+/** Validate a projection query; `defaults` carries the live price and observed rates */
+export function parseStakingParams(
+    query: StakingQuery,
+    defaults: Pick<StakingParams, 'solBtcPrice' | 'mintRate' | 'ethRate'>
+): StakingParams | { error: string } {
+    const fields = {
+        days: parseNumber(query.days, CONFIG.PROJECTION_DAYS, 'days', 1, CONFIG.PROJECTION_MAX_DAYS),
+        stakedSol: parseNumber(query.stakedSol, 0, 'stakedSol', 0, 1e12),
+        apy: parseNumber(query.apy, CONFIG.STAKING_APY, 'apy', 0, 100),
+        commission: parseNumber(query.commission, CONFIG.STAKING_COMMISSION, 'commission', 0, 100),
+        reinvest: parseNumber(query.reinvest, 0, 'reinvest', 0, 100),
+        priceChange: parseNumber(query.priceChange, 0, 'priceChange', -99, 1000),
+        solBtcPrice: parseNumber(query.solBtcPrice, defaults.solBtcPrice, 'solBtcPrice', 1e-9, 1),
+        mintRate: parseNumber(query.mintRate, defaults.mintRate, 'mintRate', -1e6, 1e6),
+        ethRate: parseNumber(query.ethRate, defaults.ethRate, 'ethRate', -1e6, 1e6),
+    };
+    for (const value of Object.values(fields)) {
+        if (typeof value === 'object') return value;
+    }
+    const numbers = fields as Record<keyof typeof fields, number>;
+    // A payload without a usable price would otherwise project NaN
+    if (!(numbers.solBtcPrice > 0)) return { error: 'No SOL/BTC price available, set solBtcPrice' };
+    const priceScenario = query.priceScenario ?? 'flat';
+    return {
+        ...numbers,
+        days: Math.floor(numbers.days),
+        compounding: query.compounding ?? 'epoch',
+        priceScenario,
+        priceChange: PRICE_SCENARIOS[priceScenario] ?? numbers.priceChange,
+    };
+}
+
+// === Projection ===
+function round(value: number, digits: number = 8): number {
+    return Number(value.toFixed(digits));
+}
+
+/** Reward per payout as a fraction of the stake, after commission, and the days between payouts */
+function payoutRate(params: StakingParams): { rate: number; every: number } {
+    const apy = params.apy / 100;
+    const net = 1 - params.commission / 100;
+    if (params.compounding === 'none') return { rate: (apy / 365) * net, every: 1 };
+    const every = params.compounding === 'daily' ? 1 : EPOCH_DAYS;
+    return { rate: ((1 + apy) ** (every / 365) - 1) * net, every };
+}
+
+/**
+ * Project both chains' totals day by day. Ethereum and Solana grow by their net mint rates; each staking payout
+ * restakes `reinvest`% and swaps the rest to BTC at that day's price on the scenario path. With 'none' compounding
+ * every reward is swapped.
+ */
+export function projectStaking(ethereum: number, solana: number, params: StakingParams, now: number = Date.now()): StakingProjection {
+    const { rate, every } = payoutRate(params);
+    const reinvest = params.compounding === 'none' ? 0 : params.reinvest / 100;
+    const drift = 1 + params.priceChange / 100;
+    const dateOf = (day: number) => new Date(now + day * DAY_MS).toISOString().slice(0, 10);
+
+    let eth = ethereum;
+    let sol = solana;
+    let staked = params.stakedSol;
+    let stakingBtc = 0;
+    let parityDay: number | null = sol >= eth ? 0 : null;
+    const curve: StakingPoint[] = [];
+    for (let day = 1; day <= params.days; day++) {
+        const price = params.solBtcPrice * drift ** (day / 365);
+        eth += params.ethRate;
+        sol += params.mintRate;
+        if (day % every === 0) {
+            const reward = staked * rate;
+            staked += reward * reinvest;
+            const swapped = reward * (1 - reinvest) * price;
+            sol += swapped;
+            stakingBtc += swapped;
+        }
+        if (parityDay === null && sol >= eth) parityDay = day;
+        curve.push({
+            day,
+            date: dateOf(day),
+            ethereum: round(eth),
+            solana: round(sol),
+            stakedSol: round(staked, 4),
+            solBtcPrice: round(price, 10),
+            stakingBtc: round(stakingBtc),
+        });
+    }
+
+    // Daily BTC per staked SOL on day one, spreading epoch payouts over their days
+    const btcPerSol = ((rate * (1 - reinvest)) / every) * params.solBtcPrice;
+    const shortfall = params.ethRate - params.mintRate;
+    return {
+        params,
+        start: { ethereum: round(ethereum), solana: round(solana) },
+        parityDay,
+        parityDate: parityDay === null ? null : dateOf(parityDay),
+        breakEvenStake: shortfall > 0 && btcPerSol > 0 ? Math.ceil(shortfall / btcPerSol) : null,
+        curve,
+    };
+}
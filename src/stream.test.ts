@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cachedPayload, type CachedPayload } from './cache';
+import { CONFIG } from './config';
+import { handleStream } from './stream';
+import type { ApiPayload } from './types';
+
+vi.mock('./cache', async (importOriginal) => ({ ...(await importOriginal<typeof import('./cache')>()), cachedPayload: vi.fn() }));
+
+const ENV = {} as Env;
+const CTX = { waitUntil: () => {} };
+
+function cached(builtAt: number, status: CachedPayload['status'] = 'HIT'): CachedPayload {
+    return { payload: { grandTotal: String(builtAt), dataStatus: 'ok' } as ApiPayload, status, age: 0, builtAt, ttl: 3600 };
+}
+
+/** Parsed SSE messages of a whole stream, running the poll timers until it closes */
+async function messages(resp: Response): Promise<Array<Record<string, string>>> {
+    const text = resp.text();
+    await vi.runAllTimersAsync();
+    return (await text)
+        .split('\n\n')
+        .filter(Boolean)
+        .map((block) => Object.fromEntries(block.split('\n').map((line) => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 2)])));
+}
+
+beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date', 'setTimeout'] });
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.mocked(cachedPayload).mockReset();
+});
+
+describe('handleStream', () => {
+    it('sends each new build once, a status after every poll, and closes at the time limit', async () => {
+        vi.mocked(cachedPayload).mockResolvedValueOnce(cached(1000)).mockResolvedValueOnce(cached(1000, 'STALE')).mockResolvedValue(cached(2000));
+        const resp = await handleStream(new Request('https://example.com/stream?fresh=1'), ENV, CTX);
+        expect(resp.headers.get('Content-Type')).toBe('text/event-stream; charset=utf-8');
+
+        const sent = await messages(resp);
+        expect(sent[0]).toEqual({ retry: String(CONFIG.STREAM_RETRY) });
+        expect(sent.filter((m) => m.event === 'payload').map((m) => [m.id, JSON.parse(m.data).grandTotal])).toEqual([
+            ['1000', '1000'],
+            ['2000', '2000'],
+        ]);
+        const statuses = sent.filter((m) => m.event === 'status').map((m) => JSON.parse(m.data));
+        expect(statuses.slice(0, 2).map((s) => s.cache)).toEqual(['HIT', 'STALE']);
+        expect(statuses).toHaveLength(CONFIG.STREAM_MAX_DURATION / CONFIG.STREAM_POLL_INTERVAL + 1);
+        expect(vi.mocked(cachedPayload).mock.calls[0][0].url).toBe('https://example.com/stream');
+    });
+
+    it('skips the build a reconnecting client already has and ends when a poll fails', async () => {
+        vi.mocked(cachedPayload).mockResolvedValueOnce(cached(1000)).mockResolvedValue({ error: 'Invalid at' });
+        const request = new Request('https://example.com/stream', { headers: { 'Last-Event-ID': '1000' } });
+        const sent = await messages(await handleStream(request, ENV, CTX));
+        expect(sent.map((m) => m.event ?? 'retry')).toEqual(['retry', 'status']);
+    });
+
+    it('answers an invalid read pin with 400 instead of a stream', async () => {
+        vi.mocked(cachedPayload).mockResolvedValue({ error: 'Invalid ethBlock, expected a block number' });
+        const resp = await handleStream(new Request('https://example.com/stream?ethBlock=x'), ENV, CTX);
+        expect(resp.status).toBe(400);
+        expect(await resp.json()).toEqual({ error: 'Invalid ethBlock, expected a block number' });
+    });
+});
@@ -0,0 +1,85 @@
+import { cachedPayload, type CachedPayload } from './cache';
+import { CONFIG } from './config';
+import { json } from './utils';
+
+// === Server-Sent Events ===
+/** Live-status message sent with every poll, so clients can tell a quiet stream from a dead one */
+interface StreamStatus {
+    cache: CachedPayload['status'];
+    age: number; // seconds
+    ttl: number; // seconds
+    dataStatus: string;
+    interval: number; // seconds until the next status
+}
+
+const encoder = new TextEncoder();
+
+function event(name: string, data: unknown, id?: number): Uint8Array {
+    return encoder.encode(`${id ? `id: ${id}\n` : ''}event: ${name}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * `GET /stream`: Server-Sent Events for the dashboard. Polls the edge cache every STREAM_POLL_INTERVAL and sends
+ * - `payload` – the full `ApiPayload` whenever a newer build is cached; the event id is its build time, so a
+ *   reconnecting client (which sends `Last-Event-ID`) only gets a payload it has not seen
+ * - `status` – cache status and age after every poll
+ *
+ * The stream closes after STREAM_MAX_DURATION and EventSource reconnects on its own. Read parameters
+ * (`quorum`, `at`, ...) select the payload like the other routes; `fresh` is ignored.
+ */
+export async function handleStream(request: Request, env: Env, ctx: Pick<ExecutionContext, 'waitUntil'>): Promise<Response> {
+    const url = new URL(request.url);
+    url.searchParams.delete('fresh');
+    const source = new Request(url.toString());
+
+    const first = await cachedPayload(source, env, ctx);
+    if ('error' in first) return json({ error: first.error }, 400);
+
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+    const lastEventId = Number(request.headers.get('Last-Event-ID')) || 0;
+
+    // Not tied to ctx.waitUntil: the worker stays alive while the response body is streaming
+    const pump = async () => {
+        const deadline = Date.now() + CONFIG.STREAM_MAX_DURATION * 1000;
+        let sent = lastEventId;
+        let result = first;
+        try {
+            await writer.write(encoder.encode(`retry: ${CONFIG.STREAM_RETRY}\n\n`));
+            while (!request.signal?.aborted) {
+                if (result.builtAt !== sent) {
+                    await writer.write(event('payload', result.payload, result.builtAt));
+                    sent = result.builtAt;
+                }
+                const status: StreamStatus = {
+                    cache: result.status,
+                    age: result.age,
+                    ttl: result.ttl,
+                    dataStatus: result.payload.dataStatus ?? 'ok',
+                    interval: CONFIG.STREAM_POLL_INTERVAL,
+                };
+                await writer.write(event('status', status));
+                if (Date.now() + CONFIG.STREAM_POLL_INTERVAL * 1000 > deadline) break;
+
+                await new Promise((resolve) => setTimeout(resolve, CONFIG.STREAM_POLL_INTERVAL * 1000));
+                const next = await cachedPayload(source, env, ctx);
+                if ('error' in next) break;
+                result = next;
+            }
+        } catch (err) {
+            // Writes fail once the client disconnects; anything else is worth a log line
+            if (!request.signal?.aborted) console.warn('Stream ended:', err);
+        } finally {
+            await writer.close().catch(() => {});
+        }
+    };
+    pump();
+
+    return new Response(readable, {
+        headers: {
+            'Content-Type': 'text/event-stream; charset=utf-8',
+            'Cache-Control': 'no-store',
+            'Access-Control-Allow-Origin': '*',
+        },
+    });
+}
@@ -0,0 +1,387 @@
+import type { Context } from 'hono';
+
+// === Types ===
+/** Ethereum (or other EVM chain) token configuration */
+export interface EthToken {
+    symbol: string;
+    address: string;
+    decimals?: number; // Expected decimals, used when the contract call fails
+    deployBlock?: number; // Block the contract was deployed in (or any earlier one); the holder index starts here
+}
+
+/** Solana token configuration */
+export interface SolToken {
+    symbol: string;
+    mint: string;
+    decimals?: number; // Expected decimals
+}
+
+/** Custody model of a wrapped-BTC token */
+export type CustodyModel = 'custodial' | 'decentralized' | 'bridged';
+
+/** Token registry entry (see src/registry.ts for the schema) */
+export interface TokenEntry {
+    chain: string; // Registered chain name
+    symbol: string;
+    address?: string; // EVM chains
+    mint?: string; // Solana
+    issuer?: string;
+    custody?: CustodyModel;
+    status: 'active' | 'deprecated';
+    decimals?: number;
+    deployBlock?: number; // EVM chains
+    priceId?: string; // CoinGecko coin id of the token's own market; without one it is valued at the BTC price
+}
+
+/**
+ * Health of one upstream value:
+ * - `ok` – read live from the primary source
+ * - `fallback` – read live from a fallback provider, or a built-in default
+ * - `stale` – an earlier good reading served because the live read failed
+ * - `error` – no value available; amounts read as zero
+ */
+export type SourceState = 'ok' | 'fallback' | 'stale' | 'error';
+
+/** Where a value came from and how fresh it is */
+export interface SourceStatus {
+    state: SourceState;
+    reason?: string; // Why the value is not `ok`
+    asOf: string; // ISO 8601 time the value was read
+}
+
+/** Overall payload health: `partial` when a total is missing a token, `degraded` when any source is not `ok` */
+export type DataStatus = 'ok' | 'degraded' | 'partial';
+
+/** Supply data for a token */
+export interface TokenSupply {
+    symbol: string;
+    supply: string; // Formatted from `raw`, full precision
+    raw?: string; // Integer amount in base units; absent in snapshots stored before it existed
+    decimals?: number; // Token decimals `raw` is expressed in
+    registryDecimals?: number; // The registry's expected decimals, set only when they differ from `decimals`
+    address?: string; // Added for Ethereum tokens
+    mint?: string; // Added for Solana tokens
+    splMint?: SplMint; // Solana: owning program, authorities and extensions of the mint account
+    status?: SourceStatus; // Absent in snapshots stored before statuses existed
+    confidence?: number; // Quorum mode: share of providers agreeing with `supply` (0-1)
+    sources?: SupplySource[]; // Quorum mode: per-provider readings
+    reserve?: { issuer: string; ratio: number | null; status: ReserveStatus }; // Proof-of-reserves result for the backing token
+    bridgedFrom?: { bridge: string; chain: string; symbol: string; escrow: string }; // Set on bridged representations
+    value?: Valuation; // Market value of `supply`
+    peg?: PegStatus; // Tokens with their own market price (registry `priceId`)
+}
+
+/** Who controls a Solana mint, as decoded from its account */
+export interface SplMint {
+    program: 'spl-token' | 'token-2022';
+    mintAuthority: string | null; // null once minting is disabled
+    freezeAuthority: string | null;
+    extensions: Array<{ type: string; authority?: string | null }>; // Token-2022 only
+}
+
+/** Raw vs. de-duplicated supply across chains */
+export interface Deduplication {
+    rawTotal: string; // Sum of every tracked token (same as grandTotal)
+    excludedTotal: string;
+    netUniqueBTC: string; // rawTotal minus bridged supply already counted on its source chain
+    excluded: Array<{
+        chain: string;
+        symbol: string;
+        supply: string;
+        bridge: string;
+        source: { chain: string; symbol: string; escrow: string };
+    }>;
+}
+
+/** Collateralization verdict for an issuer's custody */
+export type ReserveStatus = 'ok' | 'under' | 'unknown';
+
+/** Custody balance vs. wrapped supply for one issuer */
+export interface ReserveReport {
+    symbol: string;
+    issuer: string;
+    addresses: number; // custody addresses checked
+    custodyBTC: string | null; // null when no addresses are configured or a balance lookup failed
+    suppliedBTC: string; // sum of the supplies this custody backs
+    ratio: number | null; // custodyBTC / suppliedBTC
+    status: ReserveStatus;
+    backs: Array<{ chain: string; symbol: string }>;
+    attestationUrl?: string;
+    error?: string;
+    unavailable?: string[]; // Backed supplies or custody lookups that failed, leaving the status unknown
+}
+
+/** One provider's reading of a token supply in quorum mode */
+export interface SupplySource {
+    provider: string; // RPC host, never the full URL (it may embed an API key)
+    supply: string | null; // null when the provider failed
+    agrees: boolean;
+}
+
+/** Raw quorum-mode result from one provider, aligned with the adapter's token list */
+export interface ProviderReading {
+    provider: string;
+    latencyMs: number;
+    height: number | null; // block number or slot the reading was taken at
+    supplies: Array<Pick<TokenSupply, 'supply' | 'raw' | 'decimals' | 'splMint'> | null> | null; // null when the whole request failed
+    error?: string;
+}
+
+/** Per-provider latency and agreement summary */
+export interface ProviderReport {
+    provider: string;
+    latencyMs: number;
+    height: number | null;
+    ok: boolean;
+    agreement: number; // share of tokens where this provider matched the consensus (0-1)
+    error?: string;
+}
+
+/** JSON-RPC 2.0 response; `result` is typed by the caller for the method it called */
+export interface JsonRpcResponse<T = unknown> {
+    id?: string | number;
+    result?: T;
+    error?: { code?: number; message?: string };
+}
+
+/** RPC endpoints for a chain */
+export interface RpcConfig {
+    primary: string;
+    fallback?: string;
+    quorum?: string[]; // Providers cross-checked in quorum mode, defaults to primary + fallback
+}
+
+/** Point in chain history to read at; empty means the current head */
+export interface ReadPin {
+    block?: number; // EVM block number
+    slot?: number; // Solana slot
+    timestamp?: number; // ms since epoch, resolved to a block/slot per chain
+}
+
+/** Where a chain reading was taken, so it can be reproduced */
+export interface ReadContext {
+    source: 'rpc' | 'snapshot'; // 'snapshot' when served from stored history
+    blockNumber?: number;
+    blockHash?: string;
+    slot?: number;
+    timestamp?: number; // ms since epoch of the block, slot or snapshot
+}
+
+/** Pluggable chain adapter: where to read and how to fetch supplies */
+export interface ChainAdapter<T extends EthToken | SolToken = EthToken | SolToken> {
+    name: string; // payload key, e.g. 'arbitrum'
+    label: string; // display name, e.g. 'Arbitrum One'
+    explorer: string; // token page URL prefix; the contract address or mint is appended
+    kind: 'evm' | 'solana'; // Decides which identifier registry entries need
+    rpc: RpcConfig;
+    tokens: T[];
+    withTokens(tokens: T[]): ChainAdapter<T>;
+    fetchSupplies(pin?: ReadPin): Promise<{ tokens: TokenSupply[]; context?: ReadContext }>;
+    fetchQuorum(pin?: ReadPin): Promise<{ readings: ProviderReading[]; context?: ReadContext }>;
+    fetchEvents(cursor: EventCursor | null): Promise<{ events: SupplyEvent[]; cursor: EventCursor }>; // Mints and burns since `cursor`
+    fetchHolders(previous: TokenHolders[] | null): Promise<TokenHolders[]>; // Holder balances, updated from the previous run
+}
+
+/** A single mint or burn, read from chain logs or token instructions */
+export interface SupplyEvent {
+    id: string; // `chain:txHash:index`, unique per event
+    chain: string;
+    symbol: string;
+    kind: 'mint' | 'burn';
+    amount: string; // Formatted from `raw`, full precision
+    raw: string; // Base units
+    decimals: number;
+    account: string | null; // EVM: mint recipient or burn sender; Solana: the token account
+    txHash: string; // Transaction hash, or signature on Solana
+    block: number; // Block number, or slot on Solana
+    timestamp: number; // ms since epoch
+}
+
+/** Where event indexing resumes: `{ block }` on EVM chains, the last indexed signature per mint on Solana */
+export type EventCursor = Record<string, string>;
+
+/** Known holder balances of one token, kept between runs */
+export interface TokenHolders {
+    symbol: string;
+    decimals: number;
+    supply: string; // Base units: the indexed balances' sum on EVM (as of `cursor.block`), the mint supply on Solana
+    balances: Record<string, string>; // Holder address → balance in base units
+    complete: boolean; // Every holder is known; false while an EVM index backfills, and always on Solana (largest accounts only)
+    cursor: EventCursor; // EVM: `{ block, span }` the balance index resumes from
+}
+
+export type AddressCategory = 'bridge' | 'exchange' | 'lending' | 'dex' | 'custody' | 'other';
+
+/** Address book entry for a well-known holder */
+export interface AddressLabel {
+    label: string;
+    category: AddressCategory;
+}
+
+/** How concentrated one token's supply is on one chain */
+export interface HolderConcentration {
+    chain: string;
+    symbol: string;
+    supply: string; // Formatted; the live supply shares are taken of, else TokenHolders.supply when no reading is available
+    holders: number; // Known holders with a non-zero balance
+    complete: boolean; // See TokenHolders.complete; when false, `hhi` is a lower bound
+    block?: number; // EVM: block the balances are indexed through
+    coverage: number; // Share of supply held by the known holders (0-1)
+    top10Share: number; // Share of supply held by the ten largest holders (0-1)
+    hhi: number; // Herfindahl-Hirschman index over known holders, 0-10,000
+    top: Array<{ address: string; balance: string; share: number } & Partial<AddressLabel>>;
+}
+
+/** Holder concentration of every indexed token, rebuilt after each indexing run */
+export interface HolderSummary {
+    updatedAt: string;
+    tokens: HolderConcentration[];
+}
+
+/** Supplies and total for one chain */
+export interface ChainSupply {
+    label: string;
+    tokens: TokenSupply[];
+    total: string; // Active tokens only
+    partial?: boolean; // true when an active token failed to read, so `total` is missing it
+    deprecated?: TokenSupply[]; // Retired tokens, reported but excluded from totals
+    context?: ReadContext;
+    error?: string; // Set when the live read failed; supplies are zero or the last good reading
+    value?: Valuation; // Active tokens only, like `total`
+    quorum?: {
+        providers: ProviderReport[];
+        disagreements: string[]; // symbols where providers returned different supplies
+    };
+}
+
+/** Observation window, in days, for net mint/burn rates */
+export type RateWindow = 7 | 30 | 90;
+
+/** Observed net supply rates and when `challenger` would reach `leader` at them */
+export interface CatchUpProjection {
+    leader: string; // chain name, e.g. 'ethereum'
+    challenger: string;
+    gap: number; // leader total minus challenger total, BTC
+    basis: string | null; // window behind `daysToParity.expected`, e.g. '30d'; null without enough history
+    rates: Record<string, Record<string, number | null>>; // chain -> window ('7d') -> net BTC/day, null without a snapshot that old
+    closingRates: Record<string, number | null>; // window -> challenger rate minus leader rate, BTC/day
+    daysToParity: {
+        expected: number | null; // at the basis window's rates
+        low: number | null; // fastest and slowest of the windows that converge
+        high: number | null;
+    };
+    status: 'converging' | 'diverging' | 'caught-up' | 'insufficient-data';
+}
+
+/** How often staking rewards are paid; 'none' pays APY / 365 daily as simple interest and never restakes */
+export type Compounding = 'none' | 'epoch' | 'daily';
+
+/** SOL/BTC price path over a staking projection */
+export type PriceScenario = 'flat' | 'bull' | 'bear' | 'custom';
+
+/** Inputs of a staking projection; percentages are 0-100 */
+export interface StakingParams {
+    days: number; // horizon
+    stakedSol: number;
+    apy: number; // %, network staking yield before commission
+    commission: number; // %, the validator's cut of rewards
+    compounding: Compounding;
+    reinvest: number; // %, share of each payout restaked; the rest is swapped to BTC and minted on Solana
+    priceScenario: PriceScenario;
+    priceChange: number; // %/year SOL/BTC change; preset for every scenario but 'custom'
+    solBtcPrice: number; // SOL/BTC at day 0
+    mintRate: number; // Solana net BTC/day, excluding staking
+    ethRate: number; // Ethereum net BTC/day
+}
+
+/** One day of a staking projection; supplies are end-of-day BTC totals */
+export interface StakingPoint {
+    day: number;
+    date: string; // YYYY-MM-DD
+    ethereum: number;
+    solana: number;
+    stakedSol: number;
+    solBtcPrice: number;
+    stakingBtc: number; // BTC swapped from rewards so far
+}
+
+/** Day-by-day supplies of both chains with staking rewards swapped into Solana's */
+export interface StakingProjection {
+    params: StakingParams;
+    start: { ethereum: number; solana: number };
+    parityDay: number | null; // first day Solana's total reaches Ethereum's; 0 when it already has, null beyond the horizon
+    parityDate: string | null;
+    breakEvenStake: number | null; // SOL whose day-one rewards close the daily gap; null when mints alone do or nothing is swapped
+    curve: StakingPoint[];
+}
+
+/** Currencies amounts are valued in */
+export type Currency = 'usd' | 'eur' | 'btc';
+
+/** An amount or price in each currency; null where no price is available */
+export type Valuation = Record<Currency, number | null>;
+
+/** Market price of a wrapped token against BTC */
+export interface PegStatus {
+    priceBtc: number;
+    deviation: number; // priceBtc - 1, e.g. -0.03 when trading 3% below BTC
+    depegged: boolean; // |deviation| above DEPEG_THRESHOLD
+}
+
+/** Prices a payload was valued with, keyed by CoinGecko coin id ('bitcoin', 'solana', registry `priceId`s) */
+export interface PriceSnapshot {
+    assets: Record<string, Valuation>;
+    source: string | null; // Provider that priced bitcoin
+    status: SourceStatus;
+}
+
+/** Mined Bitcoin supply and the readings it was chosen from */
+export interface BitcoinSupply {
+    sats: string; // integer satoshis
+    btc: string; // exact decimal BTC
+    source: string | null; // source whose reading was published; 'snapshot' for a stored figure, null when none was available
+    readings: Array<{
+        source: string;
+        sats: string | null; // null when the source failed
+        agrees: boolean; // within BTC_SUPPLY_TOLERANCE of the published value
+        error?: string;
+    }>;
+}
+
+/** API response payload */
+export interface ApiPayload {
+    chains: Record<string, ChainSupply>;
+    // Compatibility view of chains.ethereum / chains.solana
+    ethereum: TokenSupply[];
+    solana: TokenSupply[];
+    ethereumTotal: string;
+    solanaTotal: string;
+    grandTotal: string;
+    netUniqueBTC: string;
+    deduplication: Deduplication;
+    currentlyMintedBTC: string; // Whole BTC with thousands separators; use bitcoinSupply for numbers
+    currentlyMintedBTCStatus: SourceStatus;
+    bitcoinSupply: BitcoinSupply;
+    lastUpdated: string; // Added for data freshness
+    solBtcPrice: number; // Added for SOL/BTC price
+    solBtcPriceStatus: SourceStatus;
+    prices: PriceSnapshot;
+    grandTotalValue: Valuation;
+    netUniqueValue: Valuation;
+    depegs: Array<{ chain: string; symbol: string; deviation: number }>; // Active tokens whose peg is broken
+    partial: boolean; // true when any chain total is partial
+    dataStatus: DataStatus;
+    reserves: ReserveReport[];
+    catchUp: CatchUpProjection | null; // null for pinned reads
+}
+
+/** One token across every chain it is tracked on */
+export interface TokenReport {
+    symbol: string;
+    total: string; // Active deployments only
+    partial?: boolean; // true when an active deployment failed to read
+    chains: Array<TokenSupply & { chain: string; deprecated: boolean }>;
+}
+
+/** Hono context for worker routes */
+export type AppContext = Context<{ Bindings: Env }>;
@@ -1,189 +1,366 @@
-/** Sanitize HTML (simplified for Cloudflare Worker) */
-function sanitizeHtml(html: string, options: { allowedTags: string[]; allowedAttributes: Record<string, string[]> }): string {
-    return html; // Replace with sanitize-html in production
-  }
-  
-  /** API response payload */
-  interface ApiPayload {
-    ethereum: Array<{ symbol: string; supply: string; address?: string }>;
-    solana: Array<{ symbol: string; supply: string; mint?: string }>;
-    ethereumTotal: string;
-    solanaTotal: string;
-    grandTotal: string;
-    currentlyMintedBTC: string;
-    lastUpdated: string;
-    solBtcPrice: number; // Added for SOL/BTC price
-  }
-  
-  /** Generate HTML UI */
-  export function renderHtml(data: ApiPayload): string {
+import { assetUrl } from './assets';
+import { getChain } from './chains';
+import { CONFIG } from './config';
+import { html, jsonScript, raw, safeUrl, type SafeHtml } from './html';
+import type { ApiPayload, CatchUpProjection, ChainSupply, PegStatus, TokenSupply, Valuation } from './types';
+import { formatUnits, parseUnits } from './utils';
+
+// === Helpers ===
+/** Format a decimal BTC string for display, rounding the exact digits rather than a float */
+function displayBtc(value: string, digits: number = 2): string {
+    const [whole, frac] = formatUnits(parseUnits(value, digits), digits).split('.');
+    return `${BigInt(whole).toLocaleString('en-US')}${frac ? `.${frac}` : ''}`;
+}
+
+/** Whole units of a fiat value, or n/a without a price */
+function formatFiat(value: number | null | undefined, currency: 'usd' | 'eur'): string {
+    if (value === null || value === undefined) return 'n/a';
+    return value.toLocaleString('en-US', { style: 'currency', currency: currency.toUpperCase(), maximumFractionDigits: 0 });
+}
+
+function valueText(value: Valuation | undefined): string {
+    return value ? `≈ ${formatFiat(value.usd, 'usd')} · ${formatFiat(value.eur, 'eur')}` : '';
+}
+
+/** Deviation from 1 BTC, e.g. "-3.12%"; depegs are flagged */
+function pegCell(peg: PegStatus | undefined): SafeHtml | string {
+    if (!peg) return '–';
+    const text = `${peg.deviation > 0 ? '+' : ''}${(peg.deviation * 100).toFixed(2)}%`;
+    return html`<span class="${peg.depegged ? 'err bold' : 'muted'}" title="${peg.priceBtc} BTC">${text}${peg.depegged ? ' depeg' : ''}</span>`;
+}
+
+function depegNotice(depegs: ApiPayload['depegs'] | undefined): SafeHtml | string {
+    if (!depegs?.length) return '';
+    const list = depegs.map((d) => `${d.symbol} on ${getChain(d.chain)?.label ?? d.chain} (${(d.deviation * 100).toFixed(2)}%)`).join(', ');
+    return html`<p class="note err">Trading off their BTC peg: ${list}.</p>`;
+}
+
+function percentOf(value: number, total: number): number {
+    return total > 0 ? (value / total) * 100 : 0;
+}
+
+/** Explorer link for a token's contract address or mint, or the bare symbol when the chain has no explorer */
+function tokenLink(chain: string, token: TokenSupply): SafeHtml | string {
+    const id = token.address || token.mint;
+    const explorer = getChain(chain)?.explorer;
+    if (!explorer || !id) return token.symbol;
+    const mint = token.splMint;
+    const title = mint
+        ? `${id}\nMint authority: ${mint.mintAuthority ?? 'none'}\nFreeze authority: ${mint.freezeAuthority ?? 'none'}`
+        : id;
+    return html`<a href="${safeUrl(explorer + encodeURIComponent(id))}" target="_blank" rel="noopener" title="${title}">${token.symbol}</a>`;
+}
+
+/** Summary of the observed-rate projection */
+function projectionText(catchUp: CatchUpProjection | null): SafeHtml | string {
+    if (!catchUp || catchUp.status === 'insufficient-data') return 'Not enough history yet for observed rates; enter your own.';
+    if (catchUp.status === 'caught-up') return 'Solana has caught up with Ethereum.';
+    if (catchUp.status === 'diverging') return 'At observed rates the gap is widening.';
+    const { expected, low, high } = catchUp.daysToParity;
+    const range = low !== high ? ` (range ${low.toLocaleString('en-US')}–${high.toLocaleString('en-US')} days across windows).` : '.';
+    return html`At observed rates Solana matches Ethereum in about <span class="bold">${expected.toLocaleString('en-US')} days</span>${range}`;
+}
+
+// === Components ===
+/** Semicircle gauge for a percentage */
+function gauge(percent: number | null): SafeHtml {
+    const arc = Math.PI * 60;
+    const filled = percent === null ? 0 : (Math.min(Math.max(percent, 0), 100) / 100) * arc;
+    const label = percent === null ? 'n/a' : `${percent.toFixed(2)}%`;
+    return html`
+      <svg viewBox="0 0 160 90" role="img" aria-label="${label} of mined BTC is wrapped">
+        <path class="gauge-track" d="M 20 80 A 60 60 0 0 1 140 80"></path>
+        <path id="gauge-fill" class="gauge-fill" d="M 20 80 A 60 60 0 0 1 140 80" stroke-dasharray="${filled.toFixed(2)} ${arc.toFixed(2)}"></path>
+        <text id="gauge-text" class="gauge-text" x="80" y="76">${label}</text>
+      </svg>`;
+}
+
+/** Stacked bar of each active token's share of its chain total */
+function shareBar(supply: ChainSupply): SafeHtml {
+    const total = parseFloat(supply.total) || 0;
+    const tokens = supply.tokens
+        .map((token) => ({ token, value: parseFloat(token.supply) || 0 }))
+        .sort((a, b) => b.value - a.value)
+        .map((entry, i) => ({ ...entry, share: percentOf(entry.value, total), tone: `seg-${i % 8}` }));
+    let offset = 0;
+    const segments = tokens.map(({ token, share, tone }) => {
+        const x = offset;
+        offset += share;
+        return html`<rect class="${tone}" x="${x.toFixed(2)}" y="0" width="${share.toFixed(2)}" height="10"><title>${token.symbol}: ${displayBtc(token.supply, 4)} BTC (${share.toFixed(1)}%)</title></rect>`;
+    });
+    return html`
+      <div class="bar-row">
+        <div class="bar-label"><span>${supply.label}${supply.partial ? ' (partial)' : ''}</span><span>${displayBtc(supply.total)} BTC</span></div>
+        <svg class="bar bar-thin" viewBox="0 0 100 10" preserveAspectRatio="none" role="img" aria-label="Token shares on ${supply.label}">${segments}</svg>
+        <div class="legend">${tokens.map(({ token, share, tone }) => html`<span><i class="${tone}"></i>${token.symbol} ${share.toFixed(1)}%</span>`)}</div>
+      </div>`;
+}
+
+/** One table row per token, deprecated ones last and greyed out */
+function tokenRows(chain: string, supply: ChainSupply): SafeHtml[] {
+    const total = parseFloat(supply.total) || 0;
+    const row = (token: TokenSupply, deprecated: boolean) => {
+        const value = parseFloat(token.supply) || 0;
+        const share = !deprecated && total > 0 ? `${percentOf(value, total).toFixed(1)}%` : '–';
+        const state = token.status?.state || 'ok';
+        const tone = state === 'ok' ? 'ok' : state === 'error' ? 'err' : 'warn';
+        return html`
+        <tr class="${deprecated ? 'deprecated' : ''}">
+          <td>${supply.label}</td>
+          <td>${tokenLink(chain, token)}${deprecated ? ' (deprecated)' : ''}</td>
+          <td class="num">${displayBtc(token.supply, 4)}</td>
+          <td class="num">${share}</td>
+          <td class="num">${formatFiat(token.value?.usd, 'usd')}</td>
+          <td class="num">${pegCell(token.peg)}</td>
+          <td class="${tone}" title="${token.status?.reason || ''}">${state}</td>
+        </tr>`;
+    };
+    return [...supply.tokens.map((token) => row(token, false)), ...(supply.deprecated || []).map((token) => row(token, true))];
+}
+
+function reserveRow(r: ApiPayload['reserves'][number]): SafeHtml {
+    const ratio = r.ratio !== null ? `${(r.ratio * 100).toFixed(2)}%` : 'n/a';
+    const flag =
+        r.status === 'under'
+            ? html`<span class="err bold">Under-collateralized</span>`
+            : r.status === 'ok'
+              ? html`<span class="ok">Fully backed</span>`
+              : r.unavailable?.length
+                ? html`<span class="muted" title="${r.unavailable.join('; ')}">Incomplete data</span>`
+                : html`<span class="muted">No custody data</span>`;
+    return html`<li><span>${r.symbol} (${r.issuer}): ${ratio}</span>${flag}</li>`;
+}
+
+// === Page ===
+/**
+ * Dashboard HTML. Every interpolated value is escaped by `html`; the only scripts are the nonce-bearing
+ * /assets/dashboard.js and a JSON data block, so the page works under `contentSecurityPolicy(nonce)`.
+ */
+export function renderHtml(data: ApiPayload, nonce: string): string {
     const ethTotal = parseFloat(data.ethereumTotal) || 0;
     const solTotal = parseFloat(data.solanaTotal) || 0;
-    const total = ethTotal + solTotal;
-    const ethPercent = total > 0 ? ((ethTotal / total) * 100).toFixed(1) : 50;
-    const solPercent = total > 0 ? ((solTotal / total) * 100).toFixed(1) : 50;
+    const ethPercent = ethTotal + solTotal > 0 ? percentOf(ethTotal, ethTotal + solTotal) : 50;
+    const solPercent = 100 - ethPercent;
     const solBtcPrice = data.solBtcPrice || 0.002; // Fallback price
-  
-    const html = `
-    <!DOCTYPE html>
+    const mintedBtc = (data.bitcoinSupply?.btc ?? data.currentlyMintedBTC).replace(/,/g, '');
+    const minted = parseFloat(mintedBtc) || 0;
+    const netUnique = parseFloat(data.netUniqueBTC) || 0;
+    const wrappedPercent = minted > 0 ? (netUnique / minted) * 100 : null;
+    const chains = Object.entries(data.chains);
+    const symbols = [...new Set(chains.flatMap(([, supply]) => supply.tokens.map((token) => token.symbol)))].sort();
+    const dataNotice =
+        data.dataStatus === 'partial'
+            ? html`<p class="note err">Some supplies failed to load; partial totals leave them out.</p>`
+            : data.dataStatus === 'degraded'
+              ? html`<p class="note warn">Some figures come from a fallback source or an earlier reading.</p>`
+              : '';
+    // Observed net rates pre-fill the calculator; without enough history it falls back to the old guesses
+    const catchUp = data.catchUp;
+    const basis = catchUp?.basis || '30d';
+    const observedSol = catchUp?.rates.solana?.[basis] ?? null;
+    const observedEth = catchUp?.rates.ethereum?.[basis] ?? null;
+    // Initial state for dashboard.js; /stream replaces it as new payloads arrive
+    const state = {
+        chains: chains.map(([name]) => name),
+        rates: { solana: catchUp?.rates.solana || {}, ethereum: catchUp?.rates.ethereum || {} },
+    };
+
+    return html`<!DOCTYPE html>
     <html lang="en">
     <head>
       <meta charset="UTF-8">
       <meta name="viewport" content="width=device-width, initial-scale=1.0">
       <title>Wrapped BTC Race: Ethereum vs Solana</title>
-      <script src="https://cdn.tailwindcss.com"></script>
-      <style>
-        .progress-bar {
-          height: 1.5rem;
-          border-radius: 0.25rem;
-          overflow: hidden;
-          display: flex;
-        }
-        .progress-eth {
-          background-color: #60a5fa;
-        }
-        .progress-sol {
-          background-color: #34d399;
-        }
-      </style>
+      <link rel="stylesheet" href="${assetUrl('dashboard.css')}">
     </head>
-    <body class="bg-gray-100 text-gray-900 flex items-center justify-center min-h-screen">
-      <main class="bg-white rounded-lg shadow-md p-6 w-full max-w-md">
+    <body>
+      <main class="page">
         <!-- Header -->
-        <header class="flex justify-between items-center mb-4">
-          <h1 class="text-xl font-bold text-gray-800" role="heading" aria-level="1">Wrapped BTC Race</h1>
-          <button id="refresh-btn" class="bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold py-1 px-3 rounded" aria-label="Refresh data">
-            Refresh
-          </button>
+        <header class="card header">
+          <h1>Wrapped BTC Race</h1>
+          <div>
+            <span id="live-status" class="badge" role="status">Connecting…</span>
+            <button id="refresh-btn" class="btn" aria-label="Refresh data">Refresh</button>
+          </div>
         </header>
-  
+
+        <!-- Totals -->
+        <section class="card stats" aria-label="Totals">
+          <div>
+            <div class="stat-label">Wrapped BTC (all chains)</div>
+            <div id="grand-total" class="stat-value">${displayBtc(data.grandTotal)}</div>
+            <p id="grand-total-value" class="note">${valueText(data.grandTotalValue)}</p>
+            <p class="note"><span id="net-unique">${displayBtc(data.netUniqueBTC)}</span> BTC after removing bridged double counts</p>
+          </div>
+          <div>
+            <div class="stat-label">Mined BTC</div>
+            <div id="minted" class="stat-value">${minted ? displayBtc(mintedBtc, 0) : 'n/a'}</div>
+            <p id="minted-status" class="note">${data.currentlyMintedBTCStatus.state === 'ok' ? 'Live' : `Source ${data.currentlyMintedBTCStatus.state}`}</p>
+          </div>
+          <div class="gauge">
+            <div class="stat-label">Share of mined BTC wrapped</div>
+            ${gauge(wrappedPercent)}
+          </div>
+        </section>
+
         <!-- Progress Bars -->
-        <section class="mb-6" aria-labelledby="race-heading">
-          <h2 id="race-heading" class="text-lg font-semibold text-gray-700 mb-2">Ethereum vs Solana</h2>
-          <div class="progress-bar" role="progressbar" aria-label="Wrapped BTC distribution">
-            <div class="progress-eth" style="width: ${ethPercent}%;" aria-valuenow="${ethPercent}" aria-valuemin="0" aria-valuemax="100"></div>
-            <div class="progress-sol" style="width: ${solPercent}%;" aria-valuenow="${solPercent}" aria-valuemin="0" aria-valuemax="100"></div>
+        <section class="card" aria-labelledby="race-heading">
+          <h2 id="race-heading">Ethereum vs Solana</h2>
+          <svg class="bar" viewBox="0 0 100 10" preserveAspectRatio="none" role="img" aria-label="Wrapped BTC distribution">
+            <rect id="eth-bar" class="seg-eth" x="0" y="0" width="${ethPercent.toFixed(1)}" height="10"></rect>
+            <rect id="sol-bar" class="seg-sol" x="${ethPercent.toFixed(1)}" y="0" width="${solPercent.toFixed(1)}" height="10"></rect>
+          </svg>
+          <div class="split muted">
+            <span id="eth-label">Ethereum: ${displayBtc(data.ethereumTotal)} BTC (${ethPercent.toFixed(1)}%)${data.chains.ethereum?.partial ? ' (partial)' : ''}</span>
+            <span id="sol-label">Solana: ${displayBtc(data.solanaTotal)} BTC (${solPercent.toFixed(1)}%)${data.chains.solana?.partial ? ' (partial)' : ''}</span>
           </div>
-          <div class="flex justify-between text-sm text-gray-600 mt-2">
-            <span>Ethereum: ${ethTotal.toLocaleString('en-US', { maximumFractionDigits: 2 })} BTC (${ethPercent}%)</span>
-            <span>Solana: ${solTotal.toLocaleString('en-US', { maximumFractionDigits: 2 })} BTC (${solPercent}%)</span>
+          <p class="note">Last updated: <span id="last-updated">${data.lastUpdated}</span></p>
+          <div id="data-notice">${dataNotice}</div>
+          <div id="depeg-notice">${depegNotice(data.depegs)}</div>
+        </section>
+
+        <!-- History -->
+        <section class="card chart" aria-labelledby="history-heading" data-src="/history">
+          <h2 id="history-heading">Supply over time</h2>
+          <div class="chart-controls">
+            <button class="btn btn-quiet" data-range="7d">7d</button>
+            <button class="btn btn-quiet" data-range="30d">30d</button>
+            <button class="btn btn-quiet" data-range="90d">90d</button>
+            <button class="btn btn-quiet" data-range="1y">1y</button>
+            <select aria-label="Token">
+              <option value="">Chain totals</option>
+              ${symbols.map((symbol) => html`<option value="${symbol}">${symbol}</option>`)}
+            </select>
+            <label><input type="checkbox"> Log scale</label>
           </div>
-          <p class="text-xs text-gray-500 mt-1">Last updated: ${data.lastUpdated}</p>
+          <svg viewBox="0 0 600 240" role="img" aria-label="Supply history chart"></svg>
+          <div class="legend"></div>
+          <p class="note" aria-live="polite"></p>
+        </section>
+
+        <!-- Share of Chain -->
+        <section class="card" aria-labelledby="share-heading">
+          <h2 id="share-heading">Share of each chain</h2>
+          ${chains.map(([, supply]) => shareBar(supply))}
+        </section>
+
+        <!-- Tokens -->
+        <section class="card" aria-labelledby="tokens-heading">
+          <h2 id="tokens-heading">Tokens</h2>
+          <div class="table-wrap">
+            <table>
+              <thead>
+                <tr><th>Chain</th><th>Token</th><th class="num">Supply (BTC)</th><th class="num">Share of chain</th><th class="num">Value (USD)</th><th class="num">Peg</th><th>Status</th></tr>
+              </thead>
+              <tbody>
+                ${chains.map(([name, supply]) => tokenRows(name, supply))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+
+        <!-- Holders -->
+        <section class="card holders" aria-labelledby="holders-heading" data-src="/api/v1/holders?limit=1">
+          <h2 id="holders-heading">Holder concentration</h2>
+          <div class="table-wrap">
+            <table>
+              <thead>
+                <tr><th>Chain</th><th>Token</th><th class="num">Top-10 share</th><th class="num">HHI</th><th>Largest holder</th></tr>
+              </thead>
+              <tbody></tbody>
+            </table>
+          </div>
+          <p class="note" aria-live="polite">HHI runs from 0 (dispersed) to 10,000 (one holder); ≥ marks a partial holder list.</p>
+        </section>
+
+        <!-- Proof of Reserves -->
+        <section class="card" aria-labelledby="reserves-heading">
+          <h2 id="reserves-heading">Proof of Reserves</h2>
+          <ul class="plain">
+            ${data.reserves.length ? data.reserves.map(reserveRow) : html`<li class="note">No custody addresses configured, or a pinned read.</li>`}
+          </ul>
         </section>
-  
+
         <!-- Race Calculation -->
-        <section aria-labelledby="calc-heading">
-          <h2 id="calc-heading" class="text-lg font-semibold text-gray-700 mb-2">Time to Catch Up</h2>
-          <div class="mb-4">
-            <label for="mint-rate" class="block text-sm font-medium text-gray-600">Solana Daily Mint Rate (BTC/day):</label>
-            <input
-              type="number"
-              id="mint-rate"
-              step="0.01"
-              min="0"
-              value="100"
-              class="mt-1 w-full border border-gray-300 rounded-md p-2 text-sm focus:ring-blue-500 focus:border-blue-500"
-              aria-describedby="mint-rate-desc"
-            >
-            <p id="mint-rate-desc" class="text-xs text-gray-500 mt-1">Enter how much BTC Solana mints per day (excluding staking).</p>
-          </div>
-          <div class="mb-4">
-            <label for="staked-sol" class="block text-sm font-medium text-gray-600">Staked SOL (SOL):</label>
-            <input
-              type="number"
-              id="staked-sol"
-              step="0.01"
-              min="0"
-              value="100000"
-              class="mt-1 w-full border border-gray-300 rounded-md p-2 text-sm focus:ring-blue-500 focus:border-blue-500"
-              aria-describedby="staked-sol-desc"
-            >
-            <p id="staked-sol-desc" class="text-xs text-gray-500 mt-1">Enter amount of SOL staked (10% APY, rewards swapped to BTC).</p>
-          </div>
-          <div id="result" class="text-sm text-gray-600" aria-live="polite">
+        <section id="calculator" class="card" aria-labelledby="calc-heading">
+          <h2 id="calc-heading">Time to Catch Up</h2>
+          <p id="projection" class="muted">${projectionText(catchUp)}</p>
+          <div class="field">
+            <label for="rate-window">Observed over:</label>
+            <select id="rate-window" aria-describedby="rate-window-desc">
+              ${['7d', '30d', '90d'].map((w) => html`<option value="${w}"${w === basis ? raw(' selected') : ''}>${w.replace('d', ' days')}</option>`)}
+            </select>
+            <p id="rate-window-desc" class="note">Fills both rates with net mint minus burn over this window.</p>
+          </div>
+          <div class="field">
+            <label for="mint-rate">Solana Daily Mint Rate (BTC/day):</label>
+            <input type="number" id="mint-rate" step="0.01" value="${observedSol ?? 100}" aria-describedby="mint-rate-desc">
+            <p id="mint-rate-desc" class="note">Net BTC Solana mints per day (excluding staking); negative for net burns. Edit to override.</p>
+          </div>
+          <div class="field">
+            <label for="eth-rate">Ethereum Daily Mint Rate (BTC/day):</label>
+            <input type="number" id="eth-rate" step="0.01" value="${observedEth ?? 0}" aria-describedby="eth-rate-desc">
+            <p id="eth-rate-desc" class="note">Net BTC Ethereum mints per day; negative for net burns. Edit to override.</p>
+          </div>
+          <div class="field">
+            <label for="staked-sol">Staked SOL (SOL):</label>
+            <input type="number" id="staked-sol" step="0.01" min="0" value="100000" aria-describedby="staked-sol-desc">
+            <p id="staked-sol-desc" class="note">SOL staked to fund BTC purchases with its rewards.</p>
+          </div>
+          <div class="field">
+            <label for="apy">Staking APY (%):</label>
+            <input type="number" id="apy" step="0.1" min="0" max="100" value="${CONFIG.STAKING_APY}">
+          </div>
+          <div class="field">
+            <label for="commission">Validator commission (%):</label>
+            <input type="number" id="commission" step="0.1" min="0" max="100" value="${CONFIG.STAKING_COMMISSION}">
+          </div>
+          <div class="field">
+            <label for="compounding">Reward payouts:</label>
+            <select id="compounding" aria-describedby="compounding-desc">
+              <option value="epoch" selected>Every epoch (~2 days)</option>
+              <option value="daily">Daily</option>
+              <option value="none">Simple interest, never restaked</option>
+            </select>
+            <p id="compounding-desc" class="note">APY is converted to a per-payout rate, so it holds over a year of restaking.</p>
+          </div>
+          <div class="field">
+            <label for="reinvest">Rewards restaked (%):</label>
+            <input type="number" id="reinvest" step="1" min="0" max="100" value="0" aria-describedby="reinvest-desc">
+            <p id="reinvest-desc" class="note">The rest of each payout is swapped to BTC and minted on Solana.</p>
+          </div>
+          <div class="field">
+            <label for="price-scenario">SOL/BTC price path:</label>
+            <select id="price-scenario">
+              <option value="flat" selected>Flat at ${solBtcPrice}</option>
+              <option value="bull">Rising 50% a year</option>
+              <option value="bear">Falling 50% a year</option>
+              <option value="custom">Custom</option>
+            </select>
+          </div>
+          <div class="field">
+            <label for="price-change">Custom SOL/BTC change (% per year):</label>
+            <input type="number" id="price-change" step="1" min="-99" value="0">
+          </div>
+          <div class="field">
+            <label for="horizon">Horizon (days):</label>
+            <input type="number" id="horizon" step="1" min="1" max="${CONFIG.PROJECTION_MAX_DAYS}" value="${CONFIG.PROJECTION_DAYS}">
+          </div>
+          <div id="projection-chart" class="chart">
+            <svg viewBox="0 0 600 240" role="img" aria-label="Projected supply of Ethereum and Solana"></svg>
+            <div class="legend"></div>
+            <p class="note" aria-live="polite"></p>
+          </div>
+          <div id="result" class="muted" aria-live="polite">
             <p>Calculating...</p>
           </div>
+          <button id="share-scenario" class="btn btn-quiet" type="button">Copy link to this scenario</button>
         </section>
       </main>
-  
-      <script>
-        function calculateDays() {
-          const ethTotal = ${ethTotal};
-          const solTotal = ${solTotal};
-          const mintRate = parseFloat(document.getElementById('mint-rate').value) || 0;
-          const stakedSol = parseFloat(document.getElementById('staked-sol').value) || 0;
-          const solBtcPrice = ${solBtcPrice};
-          const resultDiv = document.getElementById('result');
-  
-          // Validate inputs
-          if (mintRate < 0 || stakedSol < 0) {
-            resultDiv.innerHTML = '<p class="text-red-600">Please enter non-negative values.</p>';
-            return;
-          }
-  
-          // Calculate staking rewards
-          const dailyYield = 0.10 / 365; // 10% APY, daily
-          const dailySolRewards = stakedSol * dailyYield;
-          const stakingBtcPerDay = dailySolRewards * solBtcPrice;
-          const totalBtcPerDay = mintRate + stakingBtcPerDay;
-  
-          // Check if Solana has caught up
-          if (solTotal >= ethTotal) {
-            resultDiv.innerHTML = '<p class="text-green-600">Solana has already caught up or surpassed Ethereum!</p>';
-            return;
-          }
-  
-          // Calculate days to catch up
-          if (totalBtcPerDay <= 0) {
-            resultDiv.innerHTML = '<p class="text-red-600">Total daily BTC growth must be positive.</p>';
-            return;
-          }
-          const difference = ethTotal - solTotal;
-          const days = Math.ceil(difference / totalBtcPerDay);
-  
-          // Calculate required SOL for mint rate in 1 year
-          const annualBtcFromStaking = mintRate * 365; // BTC needed in 1 year
-          const requiredSol = annualBtcFromStaking / (dailyYield * solBtcPrice * 365);
-  
-          resultDiv.innerHTML = \`
-            <p>Daily SOL rewards: <span class="font-bold">\${dailySolRewards.toLocaleString('en-US', { maximumFractionDigits: 2 })} SOL</span> (\${stakingBtcPerDay.toLocaleString('en-US', { maximumFractionDigits: 6 })} BTC)</p>
-            <p>Total daily BTC growth: <span class="font-bold">\${totalBtcPerDay.toLocaleString('en-US', { maximumFractionDigits: 6 })} BTC</span></p>
-            <p>Solana needs approximately <span class="font-bold">\${days.toLocaleString('en-US')} days</span> to match Ethereum's \${ethTotal.toLocaleString('en-US', { maximumFractionDigits: 2 })} BTC.</p>
-            <p>To achieve \${mintRate.toLocaleString('en-US', { maximumFractionDigits: 2 })} BTC/day from staking alone in 1 year, stake <span class="font-bold">\${requiredSol.toLocaleString('en-US', { maximumFractionDigits: 0 })} SOL</span>.</p>
-            <p class="text-xs text-gray-500 mt-1">Assumes 10% APY, SOL/BTC price of \${solBtcPrice.toLocaleString('en-US', { maximumFractionDigits: 6 })}, and static Ethereum supply.</p>
-          \`;
-        }
-  
-        // Initial calculation
-        calculateDays();
-  
-        // Update on input change
-        document.getElementById('mint-rate').addEventListener('input', calculateDays);
-        document.getElementById('staked-sol').addEventListener('input', calculateDays);
-  
-        // Refresh button
-        document.getElementById('refresh-btn').addEventListener('click', () => {
-          window.location.reload();
-        });
-      </script>
+
+      <script type="application/json" id="dashboard-state">${jsonScript(state)}</script>
+      <script src="${assetUrl('dashboard.js')}" nonce="${nonce}"></script>
     </body>
     </html>
-    `;
-    return sanitizeHtml(html, {
-      allowedTags: ['html', 'head', 'meta', 'title', 'style', 'body', 'main', 'header', 'section', 'div', 'h1', 'h2', 'p', 'span', 'button', 'input', 'label', 'script'],
-      allowedAttributes: {
-        meta: ['charset', 'name', 'content'],
-        div: ['id', 'class', 'role', 'aria-label', 'aria-valuenow', 'aria-valuemin', 'aria-valuemax', 'style'],
-        h1: ['role', 'aria-level'],
-        h2: ['id', 'class'],
-        p: ['id', 'class', 'aria-describedby'],
-        button: ['id', 'class', 'aria-label'],
-        input: ['id', 'type', 'step', 'min', 'value', 'class', 'aria-describedby'],
-        label: ['for', 'class'],
-        script: ['src'],
-        section: ['aria-labelledby'],
-        header: ['class'],
-        span: ['class'],
-      },
-    });
-  }
\ No newline at end of file
+    `.value;
+}
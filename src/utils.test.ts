@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { formatSats, parseUnits, rescale, sumSats, tokenAmount } from './utils';
+
+describe('rescale', () => {
+    it('rounds half up at exactly half a satoshi', () => {
+        expect(rescale(5n, 1, 0)).toBe(1n);
+        expect(rescale(4n, 1, 0)).toBe(0n);
+        expect(rescale(1_000_000_005_000_000_000n, 18, 8)).toBe(100_000_001n);
+        expect(rescale(1_000_000_004_999_999_999n, 18, 8)).toBe(100_000_000n);
+    });
+
+    it('scales 18 decimals down to 8', () => {
+        expect(rescale(10n ** 18n, 18, 8)).toBe(100_000_000n);
+        expect(rescale(123_456_789_012_345_678n, 18, 8)).toBe(12_345_679n);
+    });
+
+    it('scales up without rounding', () => {
+        expect(rescale(1n, 6, 8)).toBe(100n);
+        expect(rescale(42n, 8, 8)).toBe(42n);
+    });
+});
+
+describe('parseUnits', () => {
+    it('parses integers and fractions', () => {
+        expect(parseUnits('1', 8)).toBe(100_000_000n);
+        expect(parseUnits('0.00000001', 8)).toBe(1n);
+        expect(parseUnits('.5', 8)).toBe(50_000_000n);
+        expect(parseUnits('12.', 8)).toBe(1_200_000_000n);
+    });
+
+    it('rounds fractional digits beyond the precision half up', () => {
+        expect(parseUnits('0.000000015', 8)).toBe(2n);
+        expect(parseUnits('0.0000000149999', 8)).toBe(1n);
+        expect(parseUnits('1.999999995', 8)).toBe(200_000_000n);
+    });
+
+    it('reads negative, empty and malformed input as zero', () => {
+        expect(parseUnits('-1', 8)).toBe(0n);
+        expect(parseUnits('', 8)).toBe(0n);
+        expect(parseUnits('.', 8)).toBe(0n);
+        expect(parseUnits('1,000', 8)).toBe(0n);
+        expect(parseUnits('1e3', 8)).toBe(0n);
+        expect(parseUnits(undefined as unknown as string, 8)).toBe(0n);
+    });
+});
+
+describe('sumSats', () => {
+    it('sums exactly where floats lose precision', () => {
+        const tokens = Array.from({ length: 1000 }, () => tokenAmount(2_000_000_000_001n, 8)); // 20000.00000001 each
+        expect(tokens.reduce((sum, token) => sum + Number(token.supply), 0).toFixed(8)).toBe('20000000.00000993');
+        expect(formatSats(sumSats(tokens))).toBe('20000000.00001000');
+    });
+
+    it('rounds once at the finest precision instead of per token', () => {
+        const halfSat = tokenAmount(5_000_000_000n, 18); // 0.5 sat
+        expect(sumSats([halfSat])).toBe(1n);
+        expect(sumSats([tokenAmount(4_000_000_000n, 18), tokenAmount(4_000_000_000n, 18)])).toBe(1n); // 0.4 + 0.4 sat
+    });
+
+    it('parses stored supplies that predate raw amounts', () => {
+        expect(sumSats([{ supply: '0.123456789' }, { supply: '1' }])).toBe(112_345_679n);
+    });
+
+    it('is zero for no tokens', () => {
+        expect(sumSats([])).toBe(0n);
+    });
+});
+
+describe('formatSats', () => {
+    it('always prints eight decimals', () => {
+        expect(formatSats(0n)).toBe('0.00000000');
+        expect(formatSats(1n)).toBe('0.00000001');
+        expect(formatSats(2_100_000_000_000_000n)).toBe('21000000.00000000');
+        expect(formatSats(-150_000_000n)).toBe('-1.50000000');
+    });
+});
@@ -0,0 +1,160 @@
+import { CONFIG } from './config';
+import type { JsonRpcResponse, SourceState, SourceStatus, TokenSupply } from './types';
+
+// === Utilities ===
+export function formatUnits(value: bigint, decimals: number): string {
+    const str = value.toString().padStart(decimals + 1, '0');
+    const i = str.length - decimals;
+    const intPart = str.slice(0, i) || '0';
+    const fracPart = str.slice(i).replace(/0+$/, '');
+    return fracPart ? `${intPart}.${fracPart}` : intPart;
+}
+
+export function formatNumber(value: number): string {
+    return value.toLocaleString('en-US', { maximumFractionDigits: 0 });
+}
+
+/** Sum of active token supplies, exact to the satoshi */
+export function calculateTotal(tokens: TokenSupply[]): string {
+    return formatSats(sumSats(tokens));
+}
+
+// === Amounts ===
+/** Precision of every BTC total: one satoshi */
+export const BTC_DECIMALS = 8;
+
+/** Move base units between precisions, rounding half up when digits are dropped */
+export function rescale(raw: bigint, from: number, to: number): bigint {
+    if (to >= from) return raw * 10n ** BigInt(to - from);
+    const divisor = 10n ** BigInt(from - to);
+    return (raw + divisor / 2n) / divisor;
+}
+
+/** Parse a non-negative decimal string into base units at `decimals`, rounding half up; anything else reads as 0 */
+export function parseUnits(value: string, decimals: number): bigint {
+    const match = /^(\d*)(?:\.(\d*))?$/.exec(String(value ?? '').trim());
+    if (!match || !(match[1] || match[2])) return 0n;
+    const frac = match[2] || '';
+    return rescale(BigInt((match[1] || '0') + frac), frac.length, decimals);
+}
+
+/** Supply fields for an on-chain amount: the formatted `supply` plus the exact base units and decimals */
+export function tokenAmount(raw: bigint, decimals: number): Pick<TokenSupply, 'supply' | 'raw' | 'decimals'> {
+    return { supply: formatUnits(raw, decimals), raw: raw.toString(), decimals };
+}
+
+/** A token's amount in base units at `decimals`; snapshots stored before `raw` existed are parsed from `supply` */
+function unitsOf(token: Pick<TokenSupply, 'supply' | 'raw' | 'decimals'>, decimals: number): bigint {
+    if (token.raw !== undefined && token.decimals !== undefined) return rescale(BigInt(token.raw), token.decimals, decimals);
+    return parseUnits(token.supply, decimals);
+}
+
+/**
+ * Exact sum of token amounts in satoshis. Amounts are added at the finest precision among them and the
+ * sum is rounded once, so many sub-satoshi remainders cannot drift the total.
+ */
+export function sumSats(tokens: Array<Pick<TokenSupply, 'supply' | 'raw' | 'decimals'>>): bigint {
+    const precision = Math.max(
+        BTC_DECIMALS,
+        ...tokens.map((token) => token.decimals ?? (token.supply?.split('.')[1] || '').length)
+    );
+    const sum = tokens.reduce((total, token) => total + unitsOf(token, precision), 0n);
+    return rescale(sum, precision, BTC_DECIMALS);
+}
+
+/** Satoshis as the fixed eight-decimal BTC string every total uses */
+export function formatSats(sats: bigint): string {
+    const sign = sats < 0n ? '-' : '';
+    const digits = (sats < 0n ? -sats : sats).toString().padStart(BTC_DECIMALS + 1, '0');
+    return `${sign}${digits.slice(0, -BTC_DECIMALS)}.${digits.slice(-BTC_DECIMALS)}`;
+}
+
+/** Satoshis rounded to whole BTC with thousands separators, for headline figures */
+export function formatBtc(sats: bigint): string {
+    return rescale(sats, BTC_DECIMALS, 0).toLocaleString('en-US');
+}
+
+/** JSON response with the worker's standard headers */
+export function json(body: unknown, status: number = 200, headers: Record<string, string> = {}): Response {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: {
+            'Content-Type': 'application/json; charset=utf-8',
+            'Access-Control-Allow-Origin': '*',
+            ...headers,
+        },
+    });
+}
+
+export async function withRetry<T>(
+    fn: () => Promise<T>,
+    attempts: number = CONFIG.RETRY_ATTEMPTS,
+    delay: number = CONFIG.RETRY_DELAY
+): Promise<T> {
+    for (let i = 0; i < attempts; i++) {
+        try {
+            return await fn();
+        } catch (err) {
+            if (i === attempts - 1 || err instanceof HistoricalReadError) throw err; // Retrying cannot make history readable
+            await new Promise((resolve) => setTimeout(resolve, delay * 2 ** i));
+        }
+    }
+    throw new Error('Retry attempts exhausted');
+}
+
+/** POST a JSON-RPC batch; results come back in request order and any failed call throws */
+export async function jsonRpcBatch<T>(rpcUrl: string, calls: Array<{ method: string; params: unknown[] }>): Promise<T[]> {
+    if (!calls.length) return [];
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), 5000);
+    try {
+        const resp = await fetch(rpcUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(calls.map((call, id) => ({ jsonrpc: '2.0', id, ...call }))),
+            signal: controller.signal,
+        });
+        if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+        const res: JsonRpcResponse<T> | JsonRpcResponse<T>[] = await resp.json();
+        if (!Array.isArray(res)) throw new Error(`Batch request failed: ${res?.error?.message || 'Not a batch response'}`);
+        const byId = new Map(res.map((entry) => [entry.id, entry]));
+        return calls.map((call, id) => {
+            const entry = byId.get(id);
+            if (!entry || entry.error) throw new Error(`${call.method} failed: ${entry?.error?.message || 'No result'}`);
+            return entry.result ?? null;
+        });
+    } finally {
+        clearTimeout(timeout);
+    }
+}
+
+/** Status of a value read at `asOf` (ms since epoch, defaults to now) */
+export function sourceStatus(state: SourceState, reason?: string, asOf: number = Date.now()): SourceStatus {
+    return { state, ...(reason ? { reason } : {}), asOf: new Date(asOf).toISOString() };
+}
+
+/** Parsed JSON request body, or undefined when it is missing or malformed */
+export async function readBody(request: Request): Promise<unknown> {
+    try {
+        return await request.json();
+    } catch {
+        return undefined;
+    }
+}
+
+/** Message of a caught error, for status reasons */
+export function errorReason(err: unknown): string {
+    return err instanceof Error ? err.message : String(err);
+}
+
+/** Thrown by an adapter that cannot read chain state at a past point */
+export class HistoricalReadError extends Error {
+    constructor(
+        chain: string,
+        readonly timestamp: number, // ms since epoch of the requested point
+        readonly slot?: number
+    ) {
+        super(`${chain} RPC cannot read account state at ${new Date(timestamp).toISOString()}`);
+        this.name = 'HistoricalReadError';
+    }
+}
@@ -1,4 +1,15 @@
 // Generated by Wrangler
 // After adding bindings to `wrangler.jsonc`, regenerate this interface via `npm run cf-typegen`
 interface Env {
+	SUPPLY_HISTORY?: KVNamespace;
+	TOKEN_REGISTRY?: KVNamespace;
+	ALERT_SUBSCRIPTIONS?: KVNamespace;
+	SUPPLY_EVENTS?: KVNamespace;
+	HOLDER_INDEX?: KVNamespace;
+	CUSTODY_ADDRESSES?: string;
+	ADDRESS_BOOK?: string;
+	BTC_ESPLORA_API?: string;
+	PRICE_API?: string;
+	TOKENS_JSON?: string;
+	ADMIN_TOKEN?: string;
 }